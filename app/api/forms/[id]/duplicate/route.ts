@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/services/prisma';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
+import { copyForm } from '@/lib/formCopy';
+
+// POST: Copy a form the caller owns into a new unpublished draft
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: formId } = await params;
+
+    const form = await prisma.form.findFirst({
+      where: {
+        id: formId,
+        createdBy: userId, // Only the owner can copy a form
+        ...NOT_IN_TRASH
+      },
+      include: {
+        sections: {
+          include: {
+            questions: {
+              include: {
+                options: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!form) {
+      return NextResponse.json(
+        { success: false, error: 'Form not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const copy = await copyForm(form, userId, `Copy of ${form.title}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Form duplicated successfully',
+      formId: copy.id
+    });
+
+  } catch (error) {
+    console.error('Error duplicating form:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
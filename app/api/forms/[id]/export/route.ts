@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/services/prisma';
+import { toFormDefinition } from '@/lib/formDefinition';
+
+// GET: Download a form the caller owns as a form definition JSON file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: formId } = await params;
+
+    const form = await prisma.form.findFirst({
+      where: {
+        id: formId,
+        createdBy: userId // Only the owner can export a form
+      },
+      include: {
+        sections: {
+          include: {
+            questions: {
+              include: {
+                options: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!form) {
+      return NextResponse.json(
+        { success: false, error: 'Form not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    // Titles are rich text - the file is named after the plain text
+    const fileName = form.title
+      .replace(/<[^>]*>/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'form';
+
+    return new NextResponse(JSON.stringify(toFormDefinition(form), null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}.form.json"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Error exporting form:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
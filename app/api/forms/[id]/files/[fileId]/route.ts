@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/services/prisma';
+import { getFileStorage } from '@/lib/fileStorage';
+
+// GET: Download an uploaded file - form owner only
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; fileId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: formId, fileId } = await params;
+
+    const form = await prisma.form.findFirst({
+      where: {
+        id: formId,
+        createdBy: userId // Ensure user owns this form
+      }
+    });
+
+    if (!form) {
+      return NextResponse.json(
+        { success: false, error: 'Form not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const file = await prisma.uploadedFile.findFirst({
+      where: { id: fileId, formId: formId }
+    });
+    const data = file ? await getFileStorage().read(file.storageKey) : null;
+
+    if (!file || !data) {
+      return NextResponse.json(
+        { success: false, error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Length': String(data.length),
+        // Always download - uploaded content is never rendered inline on our origin
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error downloading file:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
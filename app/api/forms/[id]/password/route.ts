@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/services/prisma';
+import {
+  claimPasswordAttempt,
+  clearPasswordAttempts,
+  setPasswordAccessCookie,
+  verifyPassword
+} from '@/lib/formPassword';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
+
+// POST: Unlock a password-protected form - sets a short-lived access cookie
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: formId } = await params;
+    const { password } = await request.json();
+
+    const form = await prisma.form.findUnique({
+      where: {
+        id: formId,
+        published: true,
+        ...NOT_IN_TRASH
+      },
+      select: { id: true, accessPasswordHash: true }
+    });
+
+    if (!form) {
+      return NextResponse.json(
+        { success: false, error: 'Form not found or not published' },
+        { status: 404 }
+      );
+    }
+
+    // Nothing to unlock
+    if (!form.accessPasswordHash) {
+      return NextResponse.json({ success: true });
+    }
+
+    const retryAfter = await claimPasswordAttempt(request, formId);
+    if (retryAfter !== null) {
+      const wait = retryAfter < 60
+        ? `${retryAfter} second${retryAfter === 1 ? '' : 's'}`
+        : `${Math.ceil(retryAfter / 60)} minute${retryAfter > 60 ? 's' : ''}`;
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Too many attempts. Try again in ${wait}.`
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    if (typeof password !== 'string' || !(await verifyPassword(password, form.accessPasswordHash))) {
+      return NextResponse.json(
+        { success: false, error: 'Incorrect password' },
+        { status: 401 }
+      );
+    }
+
+    await clearPasswordAttempts(request, formId);
+
+    const response = NextResponse.json({ success: true });
+    setPasswordAccessCookie(response, form);
+    return response;
+
+  } catch (error) {
+    console.error('Error checking form password:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
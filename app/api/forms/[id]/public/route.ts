@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/services/prisma';
+import { toPublicSection } from '@/lib/form-utils';
+import { hasResponded, readRespondentId } from '@/lib/respondent';
+import { accessDeniedResponse, checkFormAccess } from '@/lib/formAccess';
+import { hasPasswordAccess } from '@/lib/formPassword';
+import { getResponseStatus } from '@/utils/formSchedule';
+import { NOT_IN_TRASH, sweepExpiredForms } from '@/lib/formTrash';
 
 export async function GET(
   request: NextRequest,
@@ -8,10 +14,13 @@ export async function GET(
   try {
     const { id: formId } = await params;
 
+    await sweepExpiredForms();
+
     const form = await prisma.form.findUnique({
       where: {
         id: formId,
-        published: true // Only allow access to published forms
+        published: true, // Only allow access to published forms
+        ...NOT_IN_TRASH
       },
       include: {
         sections: {
@@ -33,6 +42,43 @@ export async function GET(
       );
     }
 
+    // Blocked visitors get an access screen instead of the form
+    const access = await checkFormAccess(form);
+    if (!access.allowed) {
+      return accessDeniedResponse(access.reason);
+    }
+    const { userId } = access;
+
+    // Password-protected forms only show their title until the password is entered
+    if (!hasPasswordAccess(request, form)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'This form is password protected',
+          access: 'password',
+          form: {
+            id: form.id,
+            title: form.title,
+            themeColor: form.themeColor,
+            themeBackground: form.themeBackground
+          }
+        },
+        { status: 401 }
+      );
+    }
+
+    // Questions stay hidden until the form opens, and once it closes or fills up
+    const responseStatus = getResponseStatus(form);
+
+    // Let respondents who already answered a single-response form know before they fill it in
+    let alreadyResponded = false;
+    if (!form.allowMultipleResponses) {
+      alreadyResponded = await hasResponded(
+        formId,
+        form.oneResponsePerAccount ? { userId } : { userId, respondentId: readRespondentId(request) }
+      );
+    }
+
     // Return only public information (including settings needed for form rendering)
     return NextResponse.json({
       success: true,
@@ -41,9 +87,16 @@ export async function GET(
         title: form.title,
         description: form.description,
         acceptingResponses: form.acceptingResponses,
+        opensAt: form.opensAt,
+        closesAt: form.closesAt,
+        responseStatus,
+        fullMessage: form.fullMessage,
+        closedMessage: form.closedMessage,
         shuffleQuestions: form.shuffleQuestions,
         collectEmail: form.collectEmail,
         allowMultipleResponses: form.allowMultipleResponses,
+        oneResponsePerAccount: form.oneResponsePerAccount,
+        hasResponded: alreadyResponded,
         showProgress: form.showProgress,
         confirmationMessage: form.confirmationMessage,
         // Quiz settings (needed for quiz rendering)
@@ -56,30 +109,8 @@ export async function GET(
         // Theme settings (needed for form styling)
         themeColor: form.themeColor,
         themeBackground: form.themeBackground,
-        sections: form.sections.map(section => ({
-          id: section.id,
-          title: section.title,
-          description: section.description,
-          order: section.order,
-          questions: section.questions.map(question => ({
-            id: question.id,
-            text: question.text,
-            description: question.description,
-            type: question.type,
-            required: question.required,
-            imageUrl: question.imageUrl,
-            // Quiz fields
-            points: question.points,
-            correctAnswers: question.correctAnswers,
-            // Option settings
-            shuffleOptionsOrder: question.shuffleOptionsOrder,
-            options: question.options.map(option => ({
-              id: option.id,
-              text: option.text,
-              imageUrl: option.imageUrl
-            }))
-          }))
-        }))
+        // Respondent-safe projection - answer keys are never included
+        sections: responseStatus === 'open' ? form.sections.map(toPublicSection) : []
       }
     });
 
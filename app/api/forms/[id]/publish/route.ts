@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prisma from '@/services/prisma';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
 
 export async function PATCH(
   request: NextRequest,
@@ -19,7 +20,7 @@ export async function PATCH(
 
     // Verify form ownership
     const existingForm = await prisma.form.findUnique({
-      where: { id: formId },
+      where: { id: formId, ...NOT_IN_TRASH },
       select: { createdBy: true }
     });
 
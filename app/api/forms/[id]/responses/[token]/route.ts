@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/services/prisma';
 import { isTokenValid } from '@/lib/editToken';
+import { toPublicSection } from '@/lib/form-utils';
+import { accessDeniedResponse, checkFormAccess } from '@/lib/formAccess';
+import { isGridType, parseGridAnswer } from '@/utils/gridQuestions';
+import { parseFileIds } from '@/utils/fileUploads';
+import { OTHER_TYPES, splitOtherAnswer } from '@/utils/otherOption';
+import { claimFiles, removeUnusedFiles } from '@/lib/uploadedFiles';
+import { formatAnswerError, validateAnswers } from '@/lib/answerValidation';
+import { claimOptionSeats, getPickedSeats, optionFullResponse, releaseOptionSeats } from '@/lib/optionCapacity';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
 
 // GET: Fetch response data for editing
 export async function GET(
@@ -16,7 +25,8 @@ export async function GET(
     const response = await prisma.response.findFirst({
       where: {
         formId: formId,
-        editToken: token
+        editToken: token,
+        form: NOT_IN_TRASH // Responses to forms in Trash can't be edited
       },
       include: {
         answers: true,
@@ -67,6 +77,18 @@ export async function GET(
       );
     }
 
+    // Only respondents who may answer the form can edit their response
+    const access = await checkFormAccess(response.form);
+    if (!access.allowed) {
+      return accessDeniedResponse(access.reason);
+    }
+
+    // Names of files already attached to the response, so they can be listed and kept
+    const files = await prisma.uploadedFile.findMany({
+      where: { responseId: response.id },
+      select: { id: true, fileName: true, mimeType: true, size: true }
+    });
+
     // Return form and response data
     return NextResponse.json({
       success: true,
@@ -76,33 +98,13 @@ export async function GET(
         description: response.form.description,
         allowResponseEditing: response.form.allowResponseEditing,
         editTimeLimit: response.form.editTimeLimit,
-        sections: response.form.sections.map(section => ({
-          id: section.id,
-          title: section.title,
-          description: section.description,
-          order: section.order,
-          questions: section.questions.map(question => ({
-            id: question.id,
-            text: question.text,
-            description: question.description,
-            type: question.type,
-            required: question.required,
-            imageUrl: question.imageUrl,
-            points: question.points,
-            correctAnswers: question.correctAnswers,
-            shuffleOptionsOrder: question.shuffleOptionsOrder,
-            options: question.options.map(option => ({
-              id: option.id,
-              text: option.text,
-              imageUrl: option.imageUrl
-            }))
-          }))
-        }))
+        sections: response.form.sections.map(toPublicSection)
       },
       response: {
         id: response.id,
         editTokenExpiry: response.editTokenExpiry,
-        answers: response.answers
+        answers: response.answers,
+        files: files
       }
     });
 
@@ -123,28 +125,32 @@ export async function PUT(
   try {
     const { id: formId, token } = await params;
     const body = await request.json();
-    const { responses } = body;
+    const { responses: submittedResponses } = body;
 
     if (process.env.NODE_ENV === 'development') console.log('Updating response:', { formId, token });
-    if (process.env.NODE_ENV === 'development') console.log('New responses:', responses);
+    if (process.env.NODE_ENV === 'development') console.log('New responses:', submittedResponses);
 
     // Find response by token
     const responseRecord = await prisma.response.findFirst({
       where: {
         formId: formId,
-        editToken: token
+        editToken: token,
+        form: NOT_IN_TRASH // Responses to forms in Trash can't be edited
       },
       include: {
         form: {
           include: {
             sections: {
               include: {
-                questions: true
+                questions: {
+                  include: {
+                    options: true
+                  }
+                }
               }
             }
           }
-        },
-        answers: true
+        }
       }
     });
 
@@ -179,56 +185,117 @@ export async function PUT(
       );
     }
 
-    // Validate required fields
-    const allQuestions = responseRecord.form.sections.flatMap(section => section.questions);
-    const requiredQuestions = allQuestions.filter(q => q.required);
-    for (const question of requiredQuestions) {
-      const response = responses[question.id];
-      if (!response || 
-          (typeof response === 'string' && response.trim() === '') ||
-          (Array.isArray(response) && response.length === 0)) {
-        return NextResponse.json(
-          { success: false, error: `Question "${question.text}" is required` },
-          { status: 400 }
-        );
-      }
+    // Only respondents who may answer the form can edit their response
+    const access = await checkFormAccess(responseRecord.form);
+    if (!access.allowed) {
+      return accessDeniedResponse(access.reason);
     }
 
-    // Delete existing answers
-    await prisma.answer.deleteMany({
-      where: {
-        responseId: responseRecord.id
-      }
-    });
+    // Same validation as submit - this response's existing files can be kept
+    const { questions: activeQuestions, responses, errors } = await validateAnswers(
+      formId,
+      responseRecord.form.sections,
+      submittedResponses,
+      responseRecord.id
+    );
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: formatAnswerError(errors[0]), errors },
+        { status: 400 }
+      );
+    }
 
-    // Create new answers
-    const answerPromises = Object.entries(responses).map(async ([questionId, answerData]) => {
-      if (process.env.NODE_ENV === 'development') console.log(`Processing Question ${questionId}:`, answerData);
+    // New answers
+    const answers = Object.entries(responses).flatMap(([questionId, submittedAnswer]) => {
+      if (process.env.NODE_ENV === 'development') console.log(`Processing Question ${questionId}:`, submittedAnswer);
       
       let answerText = null;
       let selectedOptions: string[] = [];
+      let gridAnswers = null;
+      let fileIds: string[] = [];
 
       // Handle different answer types (same logic as submit)
-      if (typeof answerData === 'string') {
+      const question = activeQuestions.find(q => q.id === questionId);
+      const { choices: answerData, otherText } = question && OTHER_TYPES.includes(question.type)
+        ? splitOtherAnswer(question, submittedAnswer)
+        : { choices: submittedAnswer, otherText: null };
+      if (question?.type === 'FILE_UPLOAD') {
+        fileIds = parseFileIds(answerData);
+        if (fileIds.length === 0) {
+          return [];
+        }
+      } else if (typeof answerData === 'string') {
         answerText = answerData;
         selectedOptions = [];
       } else if (Array.isArray(answerData)) {
         selectedOptions = answerData.filter(item => item && item.trim() !== '');
         answerText = selectedOptions.join(', ');
+      } else if (question && isGridType(question.type)) {
+        gridAnswers = parseGridAnswer(question, answerData);
+        if (Object.keys(gridAnswers).length === 0) {
+          return [];
+        }
       }
 
-      return await prisma.answer.create({
-        data: {
-          responseId: responseRecord.id,
-          questionId: questionId,
-          answerText: answerText,
-          selectedOptions: selectedOptions,
-          // Note: Quiz fields (isCorrect, pointsEarned) not relevant for regular forms
+      return [{
+        questionId: questionId,
+        answerText: answerText,
+        selectedOptions: selectedOptions,
+        gridAnswers: gridAnswers ?? undefined,
+        fileIds: fileIds,
+        otherText: otherText,
+        // Note: Quiz fields (isCorrect, pointsEarned) not relevant for regular forms
+      }];
+    });
+    const keptFileIds = answers.flatMap(answer => answer.fileIds);
+
+    // Seats move and answers are replaced together, against the answers as they are in the transaction -
+    // a concurrent edit of the same response conflicts instead of moving the same seats twice
+    const fullOption = await prisma.$transaction(async (tx) => {
+      const previousAnswers = await tx.answer.findMany({
+        where: { responseId: responseRecord.id }
+      });
+
+      // Newly picked options are claimed before the previous picks are freed
+      const previousSeatIds = getPickedSeats(
+        responseRecord.form.sections.flatMap(section => section.questions),
+        Object.fromEntries(previousAnswers.map(answer => [answer.questionId, answer.answerText]))
+      ).map(seat => seat.id);
+      const pickedSeats = getPickedSeats(activeQuestions, responses);
+      const full = await claimOptionSeats(tx, pickedSeats.filter(seat => !previousSeatIds.includes(seat.id)));
+      if (full) {
+        return full;
+      }
+      const pickedSeatIds = pickedSeats.map(seat => seat.id);
+      await releaseOptionSeats(tx, previousSeatIds.filter(id => !pickedSeatIds.includes(id)));
+
+      // Delete existing answers
+      await tx.answer.deleteMany({
+        where: {
+          responseId: responseRecord.id
         }
       });
+
+      // Create new answers
+      for (const answer of answers) {
+        await tx.answer.create({
+          data: {
+            ...answer,
+            responseId: responseRecord.id
+          }
+        });
+      }
+
+      // Attach newly uploaded files
+      await claimFiles(tx, keptFileIds, responseRecord.id);
+      return null;
     });
+    if (fullOption) {
+      return optionFullResponse(fullOption);
+    }
 
-    await Promise.all(answerPromises);
+    // Delete the files the respondent removed - once the new answers no longer reference them
+    await removeUnusedFiles(responseRecord.id, keptFileIds);
 
     if (process.env.NODE_ENV === 'development') console.log('Response updated successfully');
 
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prisma from '@/services/prisma';
+import { removeResponseFiles } from '@/lib/uploadedFiles';
+import { syncOptionSeats } from '@/lib/optionCapacity';
 
 export async function GET(
   request: NextRequest,
@@ -51,6 +53,16 @@ export async function GET(
       }
     });
 
+    // File names and sizes for file upload answers - downloaded through the files route
+    const uploadedFiles = await prisma.uploadedFile.findMany({
+      where: {
+        formId: formId,
+        responseId: { not: null }
+      },
+      select: { id: true, fileName: true, mimeType: true, size: true }
+    });
+    const filesById = new Map(uploadedFiles.map(file => [file.id, file]));
+
     // Format response data for frontend
     const formattedResponses = responses.map(response => ({
       id: response.id,
@@ -60,7 +72,10 @@ export async function GET(
         questionText: answer.question.text,
         questionType: answer.question.type,
         answerText: answer.answerText,
-        selectedOptions: answer.selectedOptions
+        selectedOptions: answer.selectedOptions,
+        gridAnswers: answer.gridAnswers,
+        files: answer.fileIds.flatMap(fileId => filesById.get(fileId) || []),
+        otherText: answer.otherText
       }))
     }));
 
@@ -129,8 +144,27 @@ export async function DELETE(
           formId: formId
         }
       });
+
+      // Respondents limited to one response may answer again
+      await tx.responseClaim.deleteMany({
+        where: {
+          formId: formId
+        }
+      });
+
+      // Frees every seat of a response limit
+      await tx.form.update({
+        where: { id: formId },
+        data: { responseCount: 0 }
+      });
     });
 
+    // The responses' uploaded files go too
+    await removeResponseFiles(formId);
+
+    // Frees every option seat
+    await syncOptionSeats(formId);
+
     return NextResponse.json({
       success: true,
       message: 'All responses deleted successfully'
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/services/prisma';
+import { readRespondentId } from '@/lib/respondent';
+import { getActiveQuestions } from '@/utils/sectionBranching';
+import { joinOtherAnswer } from '@/utils/otherOption';
+import type { GridAnswer } from '@/types/form';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
+
+// GET: Quiz results for a submitted response
+// Respects releaseGrades and showCorrectAnswers - answer keys are only returned when both are enabled
+// Only whoever submitted the response can see it - matched by account or by the signed respondent cookie
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; responseId: string }> }
+) {
+  try {
+    const { id: formId, responseId } = await params;
+
+    const { userId } = await auth();
+    const respondentId = readRespondentId(request);
+    const submitters: Prisma.ResponseWhereInput[] = [];
+    if (userId) submitters.push({ userId });
+    if (respondentId) submitters.push({ respondentId });
+
+    if (submitters.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Response not found' },
+        { status: 404 }
+      );
+    }
+
+    const response = await prisma.response.findFirst({
+      where: {
+        id: responseId,
+        formId: formId,
+        form: NOT_IN_TRASH,
+        OR: submitters
+      },
+      include: {
+        answers: true,
+        form: {
+          include: {
+            sections: {
+              include: {
+                questions: {
+                  include: {
+                    options: true
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!response) {
+      return NextResponse.json(
+        { success: false, error: 'Response not found' },
+        { status: 404 }
+      );
+    }
+
+    const { form } = response;
+
+    if (!form.isQuiz) {
+      return NextResponse.json(
+        { success: false, error: 'This form is not a quiz' },
+        { status: 400 }
+      );
+    }
+
+    // Grades not released yet - don't reveal anything about the score
+    if (!form.releaseGrades) {
+      return NextResponse.json({
+        success: true,
+        released: false
+      });
+    }
+
+    // Questions hidden by conditional logic or in skipped sections weren't graded, so leave them out
+    const questionTypes = new Map(form.sections.flatMap(section => section.questions).map(q => [q.id, q.type]));
+    const storedAnswers = Object.fromEntries(
+      response.answers.map(answer => [
+        answer.questionId,
+        answer.gridAnswers
+          ? answer.gridAnswers as GridAnswer
+          : joinOtherAnswer(
+              questionTypes.get(answer.questionId) || '',
+              answer.selectedOptions.length > 0 ? answer.selectedOptions : (answer.answerText || ''),
+              answer.otherText
+            ) ?? ''
+      ])
+    );
+    const { questions: gradedQuestions } = getActiveQuestions(form.sections, storedAnswers);
+    const results: {
+      [questionId: string]: { isCorrect: boolean; pointsEarned: number; correctAnswers?: string[] }
+    } = {};
+
+    for (const question of gradedQuestions) {
+      const answer = response.answers.find(a => a.questionId === question.id);
+      results[question.id] = {
+        isCorrect: answer?.isCorrect ?? false,
+        pointsEarned: answer?.pointsEarned ?? 0,
+        ...(form.showCorrectAnswers && { correctAnswers: question.correctAnswers })
+      };
+    }
+
+    const totalScore = response.totalScore ?? 0;
+    const maxScore = response.maxScore ?? 0;
+
+    return NextResponse.json({
+      success: true,
+      released: true,
+      showCorrectAnswers: form.showCorrectAnswers,
+      totalScore,
+      maxScore,
+      percentage: maxScore > 0 ? Math.round((totalScore / maxScore) * 100) : 0,
+      results
+    });
+
+  } catch (error) {
+    console.error('Error fetching quiz results:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
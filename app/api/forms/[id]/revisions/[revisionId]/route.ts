@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/services/prisma';
+import { toRevisionDraft } from '@/lib/formRevisions';
+import type { FormDefinition } from '@/types/formDefinition';
+
+// GET: A revision as an editor draft of the form - restoring it only takes effect once the owner saves
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: formId, revisionId } = await params;
+
+    const form = await prisma.form.findFirst({
+      where: {
+        id: formId,
+        createdBy: userId // Only the owner can restore a revision
+      },
+      include: {
+        sections: {
+          include: {
+            questions: {
+              include: {
+                options: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!form) {
+      return NextResponse.json(
+        { success: false, error: 'Form not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const revision = await prisma.formRevision.findFirst({
+      where: { id: revisionId, formId }
+    });
+
+    if (!revision) {
+      return NextResponse.json(
+        { success: false, error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      form: {
+        id: form.id,
+        ...toRevisionDraft((revision.definition as unknown as FormDefinition).form, form),
+        // Publishing, accepting responses and the password aren't restored - they stay as they are now
+        published: form.published,
+        acceptingResponses: form.acceptingResponses,
+        passwordProtected: !!form.accessPasswordHash,
+        responseCount: form.responseCount
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching form revision:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
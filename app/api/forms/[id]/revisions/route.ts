@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/services/prisma';
+import { diffRevisions } from '@/lib/formRevisions';
+import type { FormDefinition } from '@/types/formDefinition';
+import type { RevisionSummary } from '@/types/formRevision';
+
+// Most recent revisions listed in the editor's version history
+const REVISION_LIMIT = 50;
+
+// GET: Revisions of a form the caller owns, newest first, with what changed in each
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: formId } = await params;
+
+    const form = await prisma.form.findFirst({
+      where: {
+        id: formId,
+        createdBy: userId // Only the owner can see a form's history
+      },
+      select: { id: true }
+    });
+
+    if (!form) {
+      return NextResponse.json(
+        { success: false, error: 'Form not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    // One extra revision is read so the oldest one listed can still be compared
+    const revisions = await prisma.formRevision.findMany({
+      where: { formId },
+      orderBy: { createdAt: 'desc' },
+      take: REVISION_LIMIT + 1,
+      include: {
+        user: {
+          select: { email: true }
+        }
+      }
+    });
+
+    const summaries: RevisionSummary[] = revisions.slice(0, REVISION_LIMIT).map((revision, index) => {
+      const previous = revisions[index + 1];
+      return {
+        id: revision.id,
+        createdAt: revision.createdAt.toISOString(),
+        author: revision.user.email,
+        diff: previous
+          ? diffRevisions(
+            (previous.definition as unknown as FormDefinition).form,
+            (revision.definition as unknown as FormDefinition).form
+          )
+          : null
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      revisions: summaries
+    });
+
+  } catch (error) {
+    console.error('Error fetching form revisions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prisma from '@/services/prisma';
+import { toEditorSection } from '@/lib/form-utils';
+import { parseAllowlist } from '@/utils/formAccess';
+import { getPasswordHashUpdate } from '@/lib/formPassword';
+import { parseClosedMessage, parseScheduleDate } from '@/utils/formSchedule';
+import { parseMaxResponses } from '@/utils/responseLimit';
+import { syncResponseCount } from '@/lib/responseLimit';
+import { saveRevision } from '@/lib/formRevisions';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
 
 export async function GET(
   request: NextRequest,
@@ -22,7 +30,8 @@ export async function GET(
     const form = await prisma.form.findFirst({
       where: {
         id: formId,
-        createdBy: userId // Ensure user owns this form
+        createdBy: userId, // Ensure user owns this form
+        ...NOT_IN_TRASH // Forms in Trash have to be restored before they're edited
       },
       include: {
         sections: {
@@ -70,6 +79,17 @@ export async function GET(
         shuffleQuestions: form.shuffleQuestions,
         collectEmail: form.collectEmail,
         allowMultipleResponses: form.allowMultipleResponses,
+        oneResponsePerAccount: form.oneResponsePerAccount,
+        requireSignIn: form.requireSignIn,
+        allowedRespondents: form.allowedRespondents,
+        // Never the hash itself
+        passwordProtected: !!form.accessPasswordHash,
+        opensAt: form.opensAt,
+        closesAt: form.closesAt,
+        maxResponses: form.maxResponses,
+        responseCount: form.responseCount,
+        fullMessage: form.fullMessage,
+        closedMessage: form.closedMessage,
         showProgress: form.showProgress,
         confirmationMessage: form.confirmationMessage,
         defaultRequired: form.defaultRequired,
@@ -80,30 +100,7 @@ export async function GET(
         // Theme settings
         themeColor: form.themeColor,
         themeBackground: form.themeBackground,
-        sections: form.sections.map(section => ({
-          id: section.id,
-          title: section.title,
-          description: section.description,
-          order: section.order,
-          questions: section.questions.map(question => ({
-            id: question.id,
-            text: question.text,
-            description: question.description,
-            type: question.type,
-            required: question.required,
-            imageUrl: question.imageUrl,
-            // Quiz fields
-            points: question.points,
-            correctAnswers: question.correctAnswers,
-            // Option settings
-            shuffleOptionsOrder: question.shuffleOptionsOrder,
-            options: question.options.map(option => ({
-              id: option.id,
-              text: option.text,
-              imageUrl: option.imageUrl
-            }))
-          }))
-        }))
+        sections: form.sections.map(toEditorSection)
       }
     });
 
@@ -142,7 +139,8 @@ export async function PUT(
     const existingForm = await prisma.form.findFirst({
       where: {
         id: formId,
-        createdBy: userId
+        createdBy: userId,
+        ...NOT_IN_TRASH
       }
     });
 
@@ -192,78 +190,103 @@ export async function PUT(
 
     if (process.env.NODE_ENV === 'development') console.log('Skipping question deletion for now');
 
-    // Delete existing sections
-    await prisma.section.deleteMany({
-      where: {
-        formId: formId
-      }
-    });
+    // Hashed outside the transaction
+    const accessPasswordHash = await getPasswordHashUpdate(settings, existingForm.accessPasswordHash);
 
-    if (process.env.NODE_ENV === 'development') console.log('Questions deleted, creating new ones...');
-
-    // Update form with new data
-    const updatedForm = await prisma.form.update({
-      where: { id: formId },
-      data: {
-        title,
-        description,
-        published: published ?? existingForm.published,
-        // Form settings
-        shuffleQuestions: settings?.shuffleQuestions ?? existingForm.shuffleQuestions,
-        collectEmail: settings?.collectEmail ?? existingForm.collectEmail,
-        allowMultipleResponses: settings?.allowMultipleResponses ?? existingForm.allowMultipleResponses,
-        showProgress: settings?.showProgress ?? existingForm.showProgress,
-        confirmationMessage: settings?.confirmationMessage ?? existingForm.confirmationMessage,
-        defaultRequired: settings?.defaultRequired ?? existingForm.defaultRequired,
-        // Quiz settings
-        isQuiz: settings?.isQuiz ?? existingForm.isQuiz,
-        showCorrectAnswers: settings?.showCorrectAnswers ?? existingForm.showCorrectAnswers,
-        releaseGrades: settings?.releaseGrades ?? existingForm.releaseGrades,
-        // Response editing settings (automatically disabled if quiz mode)
-        allowResponseEditing: ((settings?.isQuiz ?? existingForm.isQuiz) ? false : (settings?.allowResponseEditing ?? existingForm.allowResponseEditing)),
-        editTimeLimit: settings?.editTimeLimit ?? existingForm.editTimeLimit,
-        sections: {
-          create: [{
-            title: "Section 1",
-            description: null,
-            order: 0,
-            questions: {
-              create: questions.map((question: any, index: number) => ({
-                text: question.question || question.text,
-                type: question.type,
-                required: question.required || false,
-                imageUrl: question.imageUrl || null,
-                // Quiz fields
-                points: question.points || 1,
-                correctAnswers: question.correctAnswers || [],
-                // Option settings
-                shuffleOptionsOrder: question.shuffleOptionsOrder || false,
-                options: question.options
-                  ? {
-                      create: question.options.map((option: any, optionIndex: number) => ({
-                        text: typeof option === 'string' ? option : option.text,
-                        imageUrl: typeof option === 'string' ? null : (option.imageUrl || null)
-                      }))
-                    }
-                  : undefined
-              }))
-            }
-          }]
+    const updatedForm = await prisma.$transaction(async (tx) => {
+      // Delete existing sections
+      await tx.section.deleteMany({
+        where: {
+          formId: formId
         }
-      },
-      include: {
-        sections: {
-          include: {
-            questions: {
-              include: {
-                options: true
+      });
+
+      if (process.env.NODE_ENV === 'development') console.log('Questions deleted, creating new ones...');
+
+      // Update form with new data
+      const form = await tx.form.update({
+        where: { id: formId },
+        data: {
+          title,
+          description,
+          published: published ?? existingForm.published,
+          // Form settings
+          shuffleQuestions: settings?.shuffleQuestions ?? existingForm.shuffleQuestions,
+          collectEmail: settings?.collectEmail ?? existingForm.collectEmail,
+          allowMultipleResponses: settings?.allowMultipleResponses ?? existingForm.allowMultipleResponses,
+          oneResponsePerAccount: settings?.oneResponsePerAccount ?? existingForm.oneResponsePerAccount,
+          requireSignIn: settings?.requireSignIn ?? existingForm.requireSignIn,
+          allowedRespondents: settings?.allowedRespondents !== undefined
+            ? parseAllowlist(settings.allowedRespondents)
+            : existingForm.allowedRespondents,
+          accessPasswordHash,
+          opensAt: settings?.opensAt !== undefined ? parseScheduleDate(settings.opensAt) : existingForm.opensAt,
+          closesAt: settings?.closesAt !== undefined ? parseScheduleDate(settings.closesAt) : existingForm.closesAt,
+          maxResponses: settings?.maxResponses !== undefined ? parseMaxResponses(settings.maxResponses) : existingForm.maxResponses,
+          fullMessage: settings?.fullMessage || existingForm.fullMessage,
+          closedMessage: settings?.closedMessage !== undefined ? parseClosedMessage(settings.closedMessage) : existingForm.closedMessage,
+          showProgress: settings?.showProgress ?? existingForm.showProgress,
+          confirmationMessage: settings?.confirmationMessage ?? existingForm.confirmationMessage,
+          defaultRequired: settings?.defaultRequired ?? existingForm.defaultRequired,
+          // Quiz settings
+          isQuiz: settings?.isQuiz ?? existingForm.isQuiz,
+          showCorrectAnswers: settings?.showCorrectAnswers ?? existingForm.showCorrectAnswers,
+          releaseGrades: settings?.releaseGrades ?? existingForm.releaseGrades,
+          // Response editing settings (automatically disabled if quiz mode)
+          allowResponseEditing: ((settings?.isQuiz ?? existingForm.isQuiz) ? false : (settings?.allowResponseEditing ?? existingForm.allowResponseEditing)),
+          editTimeLimit: settings?.editTimeLimit ?? existingForm.editTimeLimit,
+          sections: {
+            create: [{
+              title: "Section 1",
+              description: null,
+              order: 0,
+              questions: {
+                create: questions.map((question: any, index: number) => ({
+                  text: question.question || question.text,
+                  type: question.type,
+                  required: question.required || false,
+                  imageUrl: question.imageUrl || null,
+                  // Quiz fields
+                  points: question.points || 1,
+                  correctAnswers: question.correctAnswers || [],
+                  // Option settings
+                  shuffleOptionsOrder: question.shuffleOptionsOrder || false,
+                  options: question.options
+                    ? {
+                        create: question.options.map((option: any, optionIndex: number) => ({
+                          text: typeof option === 'string' ? option : option.text,
+                          imageUrl: typeof option === 'string' ? null : (option.imageUrl || null)
+                        }))
+                      }
+                    : undefined
+                }))
+              }
+            }]
+          }
+        },
+        include: {
+          sections: {
+            include: {
+              questions: {
+                include: {
+                  options: true
+                }
               }
             }
           }
         }
-      }
+      });
+
+      await saveRevision(tx, formId, userId);
+
+      return form;
     });
 
+    // A new limit counts the responses the form already has
+    if (updatedForm.maxResponses !== null && updatedForm.maxResponses !== existingForm.maxResponses) {
+      await syncResponseCount(formId);
+    }
+
     return NextResponse.json({
       success: true,
       message: published ? 'Form published successfully!' : 'Form updated successfully!',
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prisma from '@/services/prisma';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
+import { parseAllowlist } from '@/utils/formAccess';
+import { getPasswordHashUpdate } from '@/lib/formPassword';
+import { parseClosedMessage, parseScheduleDate } from '@/utils/formSchedule';
+import { parseMaxResponses } from '@/utils/responseLimit';
+import { syncResponseCount } from '@/lib/responseLimit';
+import { saveRevision } from '@/lib/formRevisions';
 
 // PUT: Update form settings
 export async function PUT(
@@ -25,7 +32,8 @@ export async function PUT(
     const existingForm = await prisma.form.findFirst({
       where: {
         id: formId,
-        createdBy: userId
+        createdBy: userId,
+        ...NOT_IN_TRASH
       }
     });
 
@@ -36,30 +44,55 @@ export async function PUT(
       );
     }
 
+    // Hashed outside the transaction
+    const accessPasswordHash = await getPasswordHashUpdate(settingsData, existingForm.accessPasswordHash);
+
     // Update form settings
-    const updatedForm = await prisma.form.update({
-      where: {
-        id: formId
-      },
-      data: {
-        shuffleQuestions: settingsData.shuffleQuestions,
-        collectEmail: settingsData.collectEmail,
-        allowMultipleResponses: settingsData.allowMultipleResponses,
-        showProgress: settingsData.showProgress,
-        confirmationMessage: settingsData.confirmationMessage,
-        // Quiz settings
-        isQuiz: settingsData.isQuiz,
-        showCorrectAnswers: settingsData.showCorrectAnswers,
-        releaseGrades: settingsData.releaseGrades,
-        // Response editing settings (automatically disabled if quiz mode)
-        allowResponseEditing: settingsData.isQuiz ? false : settingsData.allowResponseEditing,
-        editTimeLimit: settingsData.editTimeLimit,
-        // Theme settings
-        themeColor: settingsData.themeColor,
-        themeBackground: settingsData.themeBackground
-      }
+    const updatedForm = await prisma.$transaction(async (tx) => {
+      const form = await tx.form.update({
+        where: {
+          id: formId
+        },
+        data: {
+          shuffleQuestions: settingsData.shuffleQuestions,
+          collectEmail: settingsData.collectEmail,
+          allowMultipleResponses: settingsData.allowMultipleResponses,
+          oneResponsePerAccount: settingsData.oneResponsePerAccount,
+          requireSignIn: settingsData.requireSignIn,
+          allowedRespondents: settingsData.allowedRespondents !== undefined
+            ? parseAllowlist(settingsData.allowedRespondents)
+            : undefined,
+          accessPasswordHash,
+          opensAt: settingsData.opensAt !== undefined ? parseScheduleDate(settingsData.opensAt) : undefined,
+          closesAt: settingsData.closesAt !== undefined ? parseScheduleDate(settingsData.closesAt) : undefined,
+          maxResponses: settingsData.maxResponses !== undefined ? parseMaxResponses(settingsData.maxResponses) : undefined,
+          fullMessage: settingsData.fullMessage || undefined,
+          closedMessage: settingsData.closedMessage !== undefined ? parseClosedMessage(settingsData.closedMessage) : undefined,
+          showProgress: settingsData.showProgress,
+          confirmationMessage: settingsData.confirmationMessage,
+          // Quiz settings
+          isQuiz: settingsData.isQuiz,
+          showCorrectAnswers: settingsData.showCorrectAnswers,
+          releaseGrades: settingsData.releaseGrades,
+          // Response editing settings (automatically disabled if quiz mode)
+          allowResponseEditing: settingsData.isQuiz ? false : settingsData.allowResponseEditing,
+          editTimeLimit: settingsData.editTimeLimit,
+          // Theme settings
+          themeColor: settingsData.themeColor,
+          themeBackground: settingsData.themeBackground
+        }
+      });
+
+      await saveRevision(tx, formId, userId);
+
+      return form;
     });
 
+    // A new limit counts the responses the form already has
+    if (updatedForm.maxResponses !== null && updatedForm.maxResponses !== existingForm.maxResponses) {
+      await syncResponseCount(formId);
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Settings updated successfully',
@@ -67,6 +100,15 @@ export async function PUT(
         shuffleQuestions: updatedForm.shuffleQuestions,
         collectEmail: updatedForm.collectEmail,
         allowMultipleResponses: updatedForm.allowMultipleResponses,
+        oneResponsePerAccount: updatedForm.oneResponsePerAccount,
+        requireSignIn: updatedForm.requireSignIn,
+        allowedRespondents: updatedForm.allowedRespondents,
+        passwordProtected: !!updatedForm.accessPasswordHash,
+        opensAt: updatedForm.opensAt,
+        closesAt: updatedForm.closesAt,
+        maxResponses: updatedForm.maxResponses,
+        fullMessage: updatedForm.fullMessage,
+        closedMessage: updatedForm.closedMessage,
         showProgress: updatedForm.showProgress,
         confirmationMessage: updatedForm.confirmationMessage,
         // Quiz settings
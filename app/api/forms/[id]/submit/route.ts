@@ -1,6 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/services/prisma';
 import { generateEditToken, calculateTokenExpiry } from '@/lib/editToken';
+import { gradeQuiz } from '@/lib/quizGrading';
+import { isGridType, parseGridAnswer } from '@/utils/gridQuestions';
+import { parseFileIds } from '@/utils/fileUploads';
+import { OTHER_TYPES, splitOtherAnswer } from '@/utils/otherOption';
+import { claimFiles } from '@/lib/uploadedFiles';
+import { formatAnswerError, validateAnswers } from '@/lib/answerValidation';
+import { accessDeniedResponse, checkFormAccess, notAcceptingResponse } from '@/lib/formAccess';
+import { hasPasswordAccess } from '@/lib/formPassword';
+import { getResponseStatus } from '@/utils/formSchedule';
+import { NOT_IN_TRASH, sweepExpiredForms } from '@/lib/formTrash';
+import { claimResponseSlot, releaseResponseSlot } from '@/lib/responseLimit';
+import { claimOptionSeats, getPickedSeats, optionFullResponse, releaseOptionSeats } from '@/lib/optionCapacity';
+import {
+  claimResponse,
+  ensureRespondentUser,
+  generateRespondentId,
+  hasResponded,
+  readRespondentId,
+  releaseResponseClaims,
+  setRespondentCookie
+} from '@/lib/respondent';
+
+const alreadyRespondedResponse = () => NextResponse.json(
+  { success: false, error: 'You have already responded to this form' },
+  { status: 409 }
+);
 
 // POST: Submit form response
 export async function POST(
@@ -10,12 +36,13 @@ export async function POST(
   try {
     const { id: formId } = await params;
     const body = await request.json();
-    const { responses, email, totalScore, maxScore, quizResults } = body;
-
+    // Any score fields sent by the client are ignored - quizzes are graded below
+    const { responses: submittedResponses, email } = body;
 
+    await sweepExpiredForms();
 
     const form = await prisma.form.findUnique({
-      where: { id: formId },
+      where: { id: formId, ...NOT_IN_TRASH },
       include: {
         sections: {
           include: {
@@ -36,6 +63,23 @@ export async function POST(
       );
     }
 
+    // Closed and full forms, and forms that haven't reached their open time, don't take responses
+    const responseStatus = getResponseStatus(form);
+    if (responseStatus !== 'open') {
+      return notAcceptingResponse(responseStatus, form.fullMessage);
+    }
+
+    // Forms can require sign-in and only accept certain email addresses
+    const access = await checkFormAccess(form);
+    if (!access.allowed) {
+      return accessDeniedResponse(access.reason);
+    }
+    const { userId } = access;
+
+    if (!hasPasswordAccess(request, form)) {
+      return accessDeniedResponse('password');
+    }
+
     if (form.collectEmail) {
       if (!email || !email.trim()) {
         return NextResponse.json(
@@ -54,24 +98,36 @@ export async function POST(
       }
     }
 
-    // Check multiple responses setting
-    // Note: For anonymous users, multiple response validation is handled on the frontend
-    // using localStorage. For logged-in users, you could add server-side validation here.
-    
+    // Check multiple responses setting - with oneResponsePerAccount respondents are signed in (checked
+    // above) and matched by account, otherwise by the respondent cookie and the collected email
+    const respondentId = readRespondentId(request) || generateRespondentId();
+    const respondent = form.oneResponsePerAccount
+      ? { userId }
+      : { userId, respondentId, email: form.collectEmail ? email : null };
+    if (!form.allowMultipleResponses && await hasResponded(formId, respondent)) {
+      return alreadyRespondedResponse();
+    }
+
     const allQuestions = form.sections.flatMap(section => section.questions);
-    const requiredQuestions = allQuestions.filter(q => q.required);
-    for (const question of requiredQuestions) {
-      const response = responses[question.id];
-      if (!response || 
-          (typeof response === 'string' && response.trim() === '') ||
-          (Array.isArray(response) && response.length === 0)) {
-        return NextResponse.json(
-          { success: false, error: `Question "${question.text}" is required` },
-          { status: 400 }
-        );
-      }
+
+    // Answers must fit their questions - hidden questions and skipped sections are discarded
+    const { questions: activeQuestions, responses, errors } = await validateAnswers(
+      formId,
+      form.sections,
+      submittedResponses
+    );
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: formatAnswerError(errors[0]), errors },
+        { status: 400 }
+      );
     }
 
+    // Grade on the server against the stored answer key
+    const quizGrade = form.isQuiz
+      ? gradeQuiz(activeQuestions, responses)
+      : null;
+
     let editToken = null;
     let editTokenExpiry = null;
     
@@ -80,33 +136,59 @@ export async function POST(
       editTokenExpiry = calculateTokenExpiry(form.editTimeLimit || '24h');
     }
 
-    const responseRecord = await prisma.response.create({
-      data: {
-        formId: formId,
-        email: form.collectEmail ? email : null,
-        // Quiz fields
-        totalScore: totalScore || null,
-        maxScore: maxScore || null,
-        // Edit token fields
-        editToken: editToken,
-        editTokenExpiry: editTokenExpiry,
-        // userId is optional for anonymous responses
-      }
-    });
+    // Signed-in respondents get the response linked to their account ("My responses")
+    if (userId) {
+      await ensureRespondentUser(userId);
+    }
+
+    // The respondent's one response, seats on limited options, then one of the form's remaining
+    // responses - all claimed atomically
+    const claimIds = form.allowMultipleResponses ? [] : await claimResponse(formId, respondent);
+    if (!claimIds) {
+      return alreadyRespondedResponse();
+    }
 
-    const answerPromises = Object.entries(responses).map(async ([questionId, answerData]) => {
+    const seats = getPickedSeats(activeQuestions, responses);
+    const fullOption = await claimOptionSeats(prisma, seats);
+    if (fullOption) {
+      await releaseResponseClaims(claimIds);
+      return optionFullResponse(fullOption);
+    }
+    const seatIds = seats.map(seat => seat.id);
+
+    if (!(await claimResponseSlot(form))) {
+      await releaseOptionSeats(prisma, seatIds);
+      await releaseResponseClaims(claimIds);
+      return notAcceptingResponse('full', form.fullMessage);
+    }
+
+    // Answers to store, one per answered question
+    const answers = Object.entries(responses).flatMap(([questionId, submittedAnswer]) => {
       const question = allQuestions.find(q => q.id === questionId);
       if (!question) {
-        return null;
+        return [];
       }
 
+      // "Other" text is stored apart from the regular choices
+      const { choices: answerData, otherText } = OTHER_TYPES.includes(question.type)
+        ? splitOtherAnswer(question, submittedAnswer)
+        : { choices: submittedAnswer, otherText: null };
+
       let answerText = null;
       let selectedOptions: string[] = [];
+      let gridAnswers = null;
+      let fileIds: string[] = [];
       let isCorrect = null;
       let pointsEarned = null;
 
       // Handle different answer types
-      if (typeof answerData === 'string') {
+      if (question.type === 'FILE_UPLOAD') {
+        // File uploads - IDs of files already stored through the upload route
+        fileIds = parseFileIds(answerData);
+        if (fileIds.length === 0) {
+          return [];
+        }
+      } else if (typeof answerData === 'string') {
         // Single text answer or single choice
         answerText = answerData;
         selectedOptions = []; // Empty for single answers
@@ -117,40 +199,79 @@ export async function POST(
         answerText = selectedOptions.join(', '); // Store as comma-separated text too
         if (process.env.NODE_ENV === 'development') console.log(`✅ Array answer:`, selectedOptions);
         if (process.env.NODE_ENV === 'development') console.log(`✅ Converted to text: "${answerText}"`);
+      } else if (isGridType(question.type)) {
+        // Grids - row -> column(s), stored structured
+        gridAnswers = parseGridAnswer(question, answerData);
+        if (Object.keys(gridAnswers).length === 0) {
+          return [];
+        }
       } else {
         if (process.env.NODE_ENV === 'development') console.log('❌ Unknown answer data type:', answerData);
       }
 
       // Add quiz result data if available
-      if (quizResults && quizResults[questionId]) {
-        isCorrect = quizResults[questionId].isCorrect;
-        pointsEarned = quizResults[questionId].pointsEarned;
+      if (quizGrade && quizGrade.results[questionId]) {
+        isCorrect = quizGrade.results[questionId].isCorrect;
+        pointsEarned = quizGrade.results[questionId].pointsEarned;
       }
 
-      const answerRecord = await prisma.answer.create({
+      return [{
+        questionId: questionId,
+        answerText: answerText,
+        selectedOptions: selectedOptions,
+        gridAnswers: gridAnswers ?? undefined,
+        fileIds: fileIds,
+        otherText: otherText,
+        isCorrect: isCorrect,
+        pointsEarned: pointsEarned,
+      }];
+    });
+
+    // The response, its answers and its files are saved together - if any of it fails,
+    // nothing is kept and everything claimed above is given back
+    const responseRecord = await prisma.$transaction(async (tx) => {
+      const createdResponse = await tx.response.create({
         data: {
-          responseId: responseRecord.id,
-          questionId: questionId,
-          answerText: answerText,
-          selectedOptions: selectedOptions,
-          isCorrect: isCorrect,
-          pointsEarned: pointsEarned,
+          formId: formId,
+          email: form.collectEmail ? email.trim() : null,
+          userId: userId,
+          respondentId: respondentId,
+          // Quiz fields
+          totalScore: quizGrade ? quizGrade.totalScore : null,
+          maxScore: quizGrade ? quizGrade.maxScore : null,
+          // Edit token fields
+          editToken: editToken,
+          editTokenExpiry: editTokenExpiry,
         }
       });
 
-      if (process.env.NODE_ENV === 'development') console.log('✅ Created answer record:', {
-        id: answerRecord.id,
-        answerText: answerRecord.answerText,
-        selectedOptions: answerRecord.selectedOptions,
-        selectedOptionsLength: answerRecord.selectedOptions.length
-      });
-      return answerRecord;
+      for (const answer of answers) {
+        const answerRecord = await tx.answer.create({
+          data: {
+            ...answer,
+            responseId: createdResponse.id
+          }
+        });
+
+        if (process.env.NODE_ENV === 'development') console.log('✅ Created answer record:', {
+          id: answerRecord.id,
+          answerText: answerRecord.answerText,
+          selectedOptions: answerRecord.selectedOptions,
+          selectedOptionsLength: answerRecord.selectedOptions.length
+        });
+      }
+
+      await claimFiles(tx, answers.flatMap(answer => answer.fileIds), createdResponse.id);
+
+      return createdResponse;
+    }).catch(async (error) => {
+      await releaseResponseSlot(formId);
+      await releaseOptionSeats(prisma, seatIds);
+      await releaseResponseClaims(claimIds);
+      throw error;
     });
 
-    // Execute all answer creation promises
-    const createdAnswers = await Promise.all(answerPromises.filter(promise => promise !== null));
-    
-    if (process.env.NODE_ENV === 'development') console.log('All answers created:', createdAnswers.length, 'answers');
+    if (process.env.NODE_ENV === 'development') console.log('All answers created:', answers.length, 'answers');
 
     // Prepare response with edit link if editing is enabled
     const responseData: any = {
@@ -160,6 +281,12 @@ export async function POST(
       responseId: responseRecord.id
     };
 
+    // Authoritative quiz score for the confirmation screen - answer keys
+    // are only available through the results endpoint
+    if (quizGrade && form.releaseGrades) {
+      responseData.quizResults = quizGrade;
+    }
+
     // Add edit link if response editing is enabled
     if (editToken) {
       responseData.editLink = `/forms/${formId}/edit-response/${editToken}`;
@@ -167,7 +294,9 @@ export async function POST(
       responseData.editExpiresAt = editTokenExpiry;
     }
 
-    return NextResponse.json(responseData);
+    const nextResponse = NextResponse.json(responseData);
+    setRespondentCookie(nextResponse, respondentId);
+    return nextResponse;
 
   } catch (error) {
     console.error('Error submitting response:', error);
@@ -176,4 +305,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
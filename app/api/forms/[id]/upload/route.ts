@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/services/prisma';
+import { generateStorageKey, getFileStorage } from '@/lib/fileStorage';
+import { accessDeniedResponse, checkFormAccess, notAcceptingResponse } from '@/lib/formAccess';
+import { hasPasswordAccess } from '@/lib/formPassword';
+import { removeUnclaimedFiles } from '@/lib/uploadedFiles';
+import { MAX_UPLOAD_REQUEST_SIZE, validateUpload } from '@/utils/fileUploads';
+import { getResponseStatus } from '@/utils/formSchedule';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
+
+// POST: Upload a file for a file upload question (multipart: questionId, file)
+// The returned file ID is sent as the question's answer; files are attached to a response on submit
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: formId } = await params;
+
+    // The body is only read once its size is known to be within the largest file size limit
+    const contentLength = Number(request.headers.get('content-length'));
+    if (!contentLength) {
+      return NextResponse.json(
+        { success: false, error: 'Content-Length is required' },
+        { status: 411 }
+      );
+    }
+    if (contentLength > MAX_UPLOAD_REQUEST_SIZE) {
+      return NextResponse.json(
+        { success: false, error: 'File is too large' },
+        { status: 413 }
+      );
+    }
+
+    const formData = await request.formData();
+    const questionId = formData.get('questionId');
+    const file = formData.get('file');
+
+    if (typeof questionId !== 'string' || !(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: 'A question ID and a file are required' },
+        { status: 400 }
+      );
+    }
+
+    const question = await prisma.question.findFirst({
+      where: {
+        id: questionId,
+        type: 'FILE_UPLOAD',
+        section: {
+          formId: formId,
+          form: { published: true, ...NOT_IN_TRASH } // Only published forms accept uploads
+        }
+      },
+      include: {
+        section: { include: { form: true } }
+      }
+    });
+
+    if (!question) {
+      return NextResponse.json(
+        { success: false, error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    // Same respondent restrictions as submitting
+    const responseStatus = getResponseStatus(question.section.form);
+    if (responseStatus !== 'open') {
+      return notAcceptingResponse(responseStatus, question.section.form.fullMessage);
+    }
+
+    const access = await checkFormAccess(question.section.form);
+    if (!access.allowed) {
+      return accessDeniedResponse(access.reason);
+    }
+    if (!hasPasswordAccess(request, question.section.form)) {
+      return accessDeniedResponse('password');
+    }
+
+    const uploadError = validateUpload(question, file);
+    if (uploadError) {
+      return NextResponse.json(
+        { success: false, error: uploadError },
+        { status: 400 }
+      );
+    }
+
+    // Uploads abandoned by earlier respondents are cleared out before another one is stored
+    await removeUnclaimedFiles();
+
+    const storageKey = generateStorageKey(formId);
+    await getFileStorage().save(storageKey, Buffer.from(await file.arrayBuffer()));
+
+    const uploadedFile = await prisma.uploadedFile.create({
+      data: {
+        formId: formId,
+        questionId: questionId,
+        fileName: file.name,
+        mimeType: file.type || 'application/octet-stream',
+        size: file.size,
+        storageKey: storageKey
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      file: {
+        id: uploadedFile.id,
+        fileName: uploadedFile.fileName,
+        mimeType: uploadedFile.mimeType,
+        size: uploadedFile.size
+      }
+    });
+
+  } catch (error) {
+    console.error('Error uploading file:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
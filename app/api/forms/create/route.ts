@@ -1,6 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/services/prisma';
 import { auth, currentUser } from '@clerk/nextjs/server';
+import {
+  createRuleTracker,
+  createSectionTracker,
+  optionDataFromPayload,
+  questionDataFromPayload
+} from '@/lib/form-utils';
+import { parseAllowlist } from '@/utils/formAccess';
+import { getPasswordHashUpdate } from '@/lib/formPassword';
+import { parseClosedMessage, parseScheduleDate } from '@/utils/formSchedule';
+import { DEFAULT_FULL_MESSAGE, parseMaxResponses } from '@/utils/responseLimit';
+import { saveRevision } from '@/lib/formRevisions';
 
 export async function POST(request: NextRequest) {
   try {
@@ -47,124 +58,134 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const form = await prisma.form.create({
-      data: {
-        title,
-        description,
-        published,
-        createdBy: userId,
-        // Form settings
-        shuffleQuestions: settings?.shuffleQuestions || false,
-        collectEmail: settings?.collectEmail || false,
-        allowMultipleResponses: settings?.allowMultipleResponses ?? true,
-        showProgress: settings?.showProgress ?? true,
-        confirmationMessage: settings?.confirmationMessage || 'Your response has been recorded.',
-        defaultRequired: settings?.defaultRequired || false,
-        // Quiz settings
-        isQuiz: settings?.isQuiz || false,
-        showCorrectAnswers: settings?.showCorrectAnswers ?? true,
-        releaseGrades: settings?.releaseGrades ?? true,
-        // Response editing settings (automatically disabled if quiz mode)
-        allowResponseEditing: (settings?.isQuiz ? false : (settings?.allowResponseEditing || false)),
-        editTimeLimit: settings?.editTimeLimit || '24h'
-      }
-    });
+    // Hashed outside the transaction
+    const accessPasswordHash = await getPasswordHashUpdate(settings);
 
-    if (sections && sections.length > 0) {
-      // Create sections with their questions
-      for (let sectionIndex = 0; sectionIndex < sections.length; sectionIndex++) {
-        const sectionData = sections[sectionIndex];
-        
-        const createdSection = await prisma.section.create({
-          data: {
-            title: sectionData.title ?? "",
-            description: sectionData.description ?? "",
-            order: sectionIndex,
-            formId: form.id
-          }
-        });
+    const form = await prisma.$transaction(async (tx) => {
+      const createdForm = await tx.form.create({
+        data: {
+          title,
+          description,
+          published,
+          createdBy: userId,
+          // Form settings
+          shuffleQuestions: settings?.shuffleQuestions || false,
+          collectEmail: settings?.collectEmail || false,
+          allowMultipleResponses: settings?.allowMultipleResponses ?? true,
+          oneResponsePerAccount: settings?.oneResponsePerAccount || false,
+          requireSignIn: settings?.requireSignIn || false,
+          allowedRespondents: parseAllowlist(settings?.allowedRespondents),
+          // Only the hash of the access password is stored
+          accessPasswordHash,
+          opensAt: parseScheduleDate(settings?.opensAt),
+          closesAt: parseScheduleDate(settings?.closesAt),
+          maxResponses: parseMaxResponses(settings?.maxResponses),
+          fullMessage: settings?.fullMessage || DEFAULT_FULL_MESSAGE,
+          closedMessage: parseClosedMessage(settings?.closedMessage),
+          showProgress: settings?.showProgress ?? true,
+          confirmationMessage: settings?.confirmationMessage || 'Your response has been recorded.',
+          defaultRequired: settings?.defaultRequired || false,
+          // Quiz settings
+          isQuiz: settings?.isQuiz || false,
+          showCorrectAnswers: settings?.showCorrectAnswers ?? true,
+          releaseGrades: settings?.releaseGrades ?? true,
+          // Response editing settings (automatically disabled if quiz mode)
+          allowResponseEditing: (settings?.isQuiz ? false : (settings?.allowResponseEditing || false)),
+          editTimeLimit: settings?.editTimeLimit || '24h'
+        }
+      });
 
-        // Create questions for this section
-        if (sectionData.questions && sectionData.questions.length > 0) {
-          for (const question of sectionData.questions) {
-            const createdQuestion = await prisma.question.create({
-              data: {
-                text: question.text || '',
-                description: question.description || null,
-                type: question.type || 'SHORT_ANSWER',
-                required: question.required || false,
-                imageUrl: question.imageUrl || null,
-                sectionId: createdSection.id,
-                points: question.points || 1,
-                correctAnswers: question.correctAnswers || [],
-                shuffleOptionsOrder: question.shuffleOptionsOrder || false
-              }
-            });
+      // Visibility rules reference other questions, so they're saved once every question has its ID
+      const ruleTracker = createRuleTracker();
+      const sectionTracker = createSectionTracker(createdForm.id);
 
-            // Create options for the question if they exist
-            if (question.options && question.options.length > 0) {
-              await prisma.option.createMany({
-                data: question.options
-                  .filter((opt: any) => opt.text?.trim()) // Only save options with text
-                  .map((option: any) => ({
-                    text: option.text,
-                    imageUrl: option.imageUrl || null,
-                    questionId: createdQuestion.id
-                  }))
+      if (sections && sections.length > 0) {
+        // Create sections with their questions
+        for (let sectionIndex = 0; sectionIndex < sections.length; sectionIndex++) {
+          const sectionData = sections[sectionIndex];
+          
+          const createdSection = await tx.section.create({
+            data: {
+              title: sectionData.title ?? "",
+              description: sectionData.description ?? "",
+              order: sectionIndex,
+              nextSection: sectionData.nextSection || null,
+              formId: createdForm.id
+            }
+          });
+          sectionTracker.track(sectionData, createdSection.id);
+
+          // Create questions for this section
+          if (sectionData.questions && sectionData.questions.length > 0) {
+            for (const question of sectionData.questions) {
+              const createdQuestion = await tx.question.create({
+                data: {
+                  ...questionDataFromPayload(question),
+                  sectionId: createdSection.id
+                }
               });
+              ruleTracker.track(question, createdQuestion.id);
+
+              // Create options for the question if they exist
+              if (question.options && question.options.length > 0) {
+                await tx.option.createMany({
+                  data: optionDataFromPayload(question.options, createdQuestion.id, question.type)
+                });
+              }
             }
           }
         }
-      }
-    } else if (questions && questions.length > 0) {
-      // Legacy: Create questions with default section (for backward compatibility)
-      const defaultSection = await prisma.section.create({
-        data: {
-          title: "Section 1",
-          description: null,
-          order: 0,
-          formId: form.id
-        }
-      });
-
-      // Create questions for the default section
-      for (const question of questions) {
-        const createdQuestion = await prisma.question.create({
+      } else if (questions && questions.length > 0) {
+        // Legacy: Create questions with default section (for backward compatibility)
+        const defaultSection = await tx.section.create({
           data: {
-            text: question.question || question.text,
-            description: question.description || null,
-            type: question.type,
-            required: question.required || false,
-            imageUrl: question.imageUrl || null,
-            sectionId: defaultSection.id,
-            points: question.points || 1,
-            correctAnswers: question.correctAnswers || [],
-            shuffleOptionsOrder: question.shuffleOptionsOrder || false
+            title: "Section 1",
+            description: null,
+            order: 0,
+            formId: createdForm.id
           }
         });
 
-        // Create options for the question if they exist
-        if (question.options && question.options.length > 0) {
-          await prisma.option.createMany({
-            data: question.options.map((option: any) => ({
-              text: typeof option === 'string' ? option : option.text,
-              imageUrl: typeof option === 'string' ? null : (option.imageUrl || null),
-              questionId: createdQuestion.id
-            }))
+        // Create questions for the default section
+        for (const question of questions) {
+          const createdQuestion = await tx.question.create({
+            data: {
+              ...questionDataFromPayload(question),
+              sectionId: defaultSection.id
+            }
           });
+          ruleTracker.track(question, createdQuestion.id);
+
+          // Create options for the question if they exist
+          if (question.options && question.options.length > 0) {
+            await tx.option.createMany({
+              data: question.options.map((option: any) => ({
+                text: typeof option === 'string' ? option : option.text,
+                imageUrl: typeof option === 'string' ? null : (option.imageUrl || null),
+                questionId: createdQuestion.id
+              }))
+            });
+          }
         }
+      } else {
+        // Create a default empty section
+        await tx.section.create({
+          data: {
+            title: "Section 1",
+            description: null,
+            order: 0,
+            formId: createdForm.id
+          }
+        });
       }
-    } else {
-      // Create a default empty section
-      await prisma.section.create({
-        data: {
-          title: "Section 1",
-          description: null,
-          order: 0,
-          formId: form.id
-        }
-      });
-    }
+
+      await ruleTracker.saveRules(tx);
+      await sectionTracker.saveTargets(tx);
+
+      await saveRevision(tx, createdForm.id, userId);
+
+      return createdForm;
+    });
 
     // Fetch the complete form with sections, questions and options
     const completeForm = await prisma.form.findUnique({
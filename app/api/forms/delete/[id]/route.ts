@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/services/prisma';
 import { auth } from '@clerk/nextjs/server';
+import { getPurgeDate } from '@/lib/formTrash';
 
 export async function DELETE(
   request: NextRequest,
@@ -22,10 +23,11 @@ export async function DELETE(
     // Check if form belongs to user
     const form = await prisma.form.findUnique({
       where: { id: formId },
-      select: { createdBy: true }
+      select: { createdBy: true, deletedAt: true }
     });
 
-    if (!form) {
+    // Forms already in Trash are removed for good from the Trash routes
+    if (!form || form.deletedAt) {
       return NextResponse.json(
         { success: false, message: "Form not found" },
         { status: 404 }
@@ -39,42 +41,17 @@ export async function DELETE(
       );
     }
 
-    // Delete related data first, then form
-    // Step 1: Delete all options for questions in sections of this form
-    await prisma.option.deleteMany({
-      where: {
-        question: {
-          section: {
-            formId: formId
-          }
-        }
-      }
-    });
-
-    // Step 2: Delete all questions in sections of this form
-    await prisma.question.deleteMany({
-      where: {
-        section: {
-          formId: formId
-        }
-      }
-    });
-
-    // Step 3: Delete all sections of this form
-    await prisma.section.deleteMany({
-      where: {
-        formId: formId
-      }
-    });
-
-    // Step 4: Delete the form
-    await prisma.form.delete({
-      where: { id: formId }
+    // Move the form to Trash - it's purged, responses and all, once the retention period is over
+    const deletedAt = new Date();
+    await prisma.form.update({
+      where: { id: formId },
+      data: { deletedAt }
     });
 
     return NextResponse.json({
       success: true,
-      message: "Form deleted successfully"
+      message: "Form moved to Trash",
+      purgeAt: getPurgeDate(deletedAt)
     });
 
   } catch (error) {
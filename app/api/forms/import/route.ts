@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { createFormFromDefinition, parseFormDefinition } from '@/lib/formDefinition';
+import { ensureRespondentUser } from '@/lib/respondent';
+
+// POST: Recreate a form from an exported form definition under the caller's account
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Please sign in to import forms' },
+        { status: 401 }
+      );
+    }
+
+    const raw = await request.json().catch(() => undefined);
+    if (raw === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'File is not valid JSON', errors: [{ field: '', message: 'File is not valid JSON' }] },
+        { status: 400 }
+      );
+    }
+
+    // Every problem is reported with the field it's in, so the file can be fixed in one go
+    const { definition, errors } = parseFormDefinition(raw);
+    if (!definition) {
+      return NextResponse.json(
+        { success: false, error: 'This file is not a valid form definition', errors },
+        { status: 400 }
+      );
+    }
+
+    // First form of a new account - create the database user like the create route does
+    await ensureRespondentUser(userId);
+
+    const form = await createFormFromDefinition(definition.form, userId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Form imported successfully',
+      formId: form.id
+    });
+
+  } catch (error) {
+    console.error('Error importing form:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prisma from '@/services/prisma';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
+import { saveRevision } from '@/lib/formRevisions';
 
 export async function PATCH(
   request: NextRequest,
@@ -25,6 +27,7 @@ export async function PATCH(
       where: {
         id: formId,
         createdBy: authResult.userId,
+        ...NOT_IN_TRASH
       },
     });
 
@@ -33,9 +36,15 @@ export async function PATCH(
     }
 
     // Update form title
-    const updatedForm = await prisma.form.update({
-      where: { id: formId },
-      data: { title: title.trim() },
+    const updatedForm = await prisma.$transaction(async (tx) => {
+      const form = await tx.form.update({
+        where: { id: formId },
+        data: { title: title.trim() },
+      });
+
+      await saveRevision(tx, formId, authResult.userId);
+
+      return form;
     });
 
     return NextResponse.json({ 
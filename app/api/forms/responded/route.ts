@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/services/prisma';
+import { auth } from '@clerk/nextjs/server';
+import { isTokenValid } from '@/lib/editToken';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
+
+// GET: Responses the signed-in user submitted, for the "My responses" page
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Please sign in' },
+        { status: 401 }
+      );
+    }
+
+    const responses = await prisma.response.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }, // Latest responses first
+      select: {
+        id: true,
+        formId: true,
+        createdAt: true,
+        totalScore: true,
+        maxScore: true,
+        editToken: true,
+        editTokenExpiry: true
+      }
+    });
+
+    // Forms are loaded separately - responses to deleted forms and forms in Trash are left out
+    const forms = await prisma.form.findMany({
+      where: { id: { in: [...new Set(responses.map(response => response.formId))] }, ...NOT_IN_TRASH },
+      select: {
+        id: true,
+        title: true,
+        isQuiz: true,
+        releaseGrades: true,
+        allowResponseEditing: true
+      }
+    });
+    const formsById = new Map(forms.map(form => [form.id, form]));
+
+    const myResponses = responses.flatMap(response => {
+      const form = formsById.get(response.formId);
+      if (!form) return [];
+
+      // Same rules as the edit-response route
+      const canEdit = form.allowResponseEditing &&
+        !form.isQuiz &&
+        !!response.editToken &&
+        isTokenValid(response.editTokenExpiry);
+      const showScore = form.isQuiz && form.releaseGrades && response.totalScore !== null;
+
+      return [{
+        id: response.id,
+        formId: form.id,
+        formTitle: form.title,
+        submittedAt: response.createdAt,
+        // Quiz score - only when the owner releases grades
+        score: showScore ? { totalScore: response.totalScore, maxScore: response.maxScore } : null,
+        editLink: canEdit ? `/forms/${form.id}/edit-response/${response.editToken}` : null,
+        editExpiresAt: canEdit ? response.editTokenExpiry : null
+      }];
+    });
+
+    return NextResponse.json({
+      success: true,
+      responses: myResponses
+    });
+
+  } catch (error) {
+    console.error('Error fetching user responses:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
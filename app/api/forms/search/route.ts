@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prismaClient from '@/services/prisma';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
 
 export async function GET(request: NextRequest) {
   try {
@@ -21,6 +22,7 @@ export async function GET(request: NextRequest) {
     const forms = await prismaClient.form.findMany({
       where: {
         createdBy: userId,
+        ...NOT_IN_TRASH,
         title: {
           contains: query.trim(),
           mode: 'insensitive'
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/services/prisma';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
 import { auth } from '@clerk/nextjs/server';
+import { saveRevision } from '@/lib/formRevisions';
 
 // Reorder sections within a form
 export async function POST(request: NextRequest) {
@@ -21,7 +23,8 @@ export async function POST(request: NextRequest) {
     const form = await prisma.form.findFirst({
       where: { 
         id: formId,
-        createdBy: userId 
+        createdBy: userId,
+        ...NOT_IN_TRASH
       },
       include: {
         sections: true
@@ -46,13 +49,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update the order of each section
-    for (let i = 0; i < sectionIds.length; i++) {
-      await prisma.section.update({
-        where: { id: sectionIds[i] },
-        data: { order: i }
-      });
-    }
+    await prisma.$transaction(async (tx) => {
+      // Update the order of each section
+      for (let i = 0; i < sectionIds.length; i++) {
+        await tx.section.update({
+          where: { id: sectionIds[i] },
+          data: { order: i }
+        });
+      }
+
+      await saveRevision(tx, formId, userId);
+    });
 
     return NextResponse.json({ 
       success: true, 
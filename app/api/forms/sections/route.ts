@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/services/prisma';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
 import { auth } from '@clerk/nextjs/server';
+import { saveRevision } from '@/lib/formRevisions';
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,7 +22,8 @@ export async function POST(request: NextRequest) {
     const form = await prisma.form.findFirst({
       where: { 
         id: formId,
-        createdBy: userId 
+        createdBy: userId,
+        ...NOT_IN_TRASH
       },
       include: {
         sections: true
@@ -37,21 +40,27 @@ export async function POST(request: NextRequest) {
     // Calculate the order for new section (last position)
     const nextOrder = form.sections.length;
 
-    // Create the new section
-    const newSection = await prisma.section.create({
-      data: {
-        title,
-        description,
-        order: nextOrder,
-        formId: formId,
-      },
-      include: {
-        questions: {
-          include: {
-            options: true
+    const newSection = await prisma.$transaction(async (tx) => {
+      // Create the new section
+      const saved = await tx.section.create({
+        data: {
+          title,
+          description,
+          order: nextOrder,
+          formId: formId,
+        },
+        include: {
+          questions: {
+            include: {
+              options: true
+            }
           }
         }
-      }
+      });
+
+      await saveRevision(tx, formId, userId);
+
+      return saved;
     });
 
     return NextResponse.json({ 
@@ -88,7 +97,8 @@ export async function PATCH(request: NextRequest) {
       where: { 
         id: sectionId,
         form: {
-          createdBy: userId
+          createdBy: userId,
+          ...NOT_IN_TRASH
         }
       }
     });
@@ -100,20 +110,26 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    // Update the section
-    const updatedSection = await prisma.section.update({
-      where: { id: sectionId },
-      data: {
-        ...(title !== undefined && { title }),
-        ...(description !== undefined && { description })
-      },
-      include: {
-        questions: {
-          include: {
-            options: true
+    const updatedSection = await prisma.$transaction(async (tx) => {
+      // Update the section
+      const saved = await tx.section.update({
+        where: { id: sectionId },
+        data: {
+          ...(title !== undefined && { title }),
+          ...(description !== undefined && { description })
+        },
+        include: {
+          questions: {
+            include: {
+              options: true
+            }
           }
         }
-      }
+      });
+
+      await saveRevision(tx, section.formId, userId);
+
+      return saved;
     });
 
     return NextResponse.json({ 
@@ -150,7 +166,8 @@ export async function DELETE(request: NextRequest) {
       where: { 
         id: sectionId,
         form: {
-          createdBy: userId
+          createdBy: userId,
+          ...NOT_IN_TRASH
         }
       },
       include: {
@@ -177,23 +194,27 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Delete the section (this will cascade delete all questions and options)
-    await prisma.section.delete({
-      where: { id: sectionId }
-    });
-
-    // Reorder remaining sections
-    const remainingSections = await prisma.section.findMany({
-      where: { formId: section.formId },
-      orderBy: { order: 'asc' }
-    });
+    await prisma.$transaction(async (tx) => {
+      // Delete the section (this will cascade delete all questions and options)
+      await tx.section.delete({
+        where: { id: sectionId }
+      });
 
-    for (let i = 0; i < remainingSections.length; i++) {
-      await prisma.section.update({
-        where: { id: remainingSections[i].id },
-        data: { order: i }
+      // Reorder remaining sections
+      const remainingSections = await tx.section.findMany({
+        where: { formId: section.formId },
+        orderBy: { order: 'asc' }
       });
-    }
+
+      for (let i = 0; i < remainingSections.length; i++) {
+        await tx.section.update({
+          where: { id: remainingSections[i].id },
+          data: { order: i }
+        });
+      }
+
+      await saveRevision(tx, section.formId, userId);
+    });
 
     return NextResponse.json({ 
       success: true, 
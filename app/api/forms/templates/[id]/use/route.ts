@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/services/prisma';
+import { createFormFromDefinition, parseFormDefinition } from '@/lib/formDefinition';
+import { findStarterTemplate } from '@/lib/starterTemplates';
+import { ensureRespondentUser } from '@/lib/respondent';
+
+// POST: Create a new draft from a starter template or one of the caller's templates
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Please sign in to create forms' },
+        { status: 401 }
+      );
+    }
+
+    const { id: templateId } = await params;
+
+    // Starter templates have readable IDs like "event-rsvp"
+    let source = findStarterTemplate(templateId)?.form;
+
+    if (!source) {
+      const template = await prisma.template.findFirst({
+        where: {
+          id: templateId,
+          createdBy: userId
+        }
+      });
+
+      if (!template) {
+        return NextResponse.json(
+          { success: false, error: 'Template not found or access denied' },
+          { status: 404 }
+        );
+      }
+
+      // Saved definitions go through the same checks as imported files, in case the format has moved on
+      const { definition } = parseFormDefinition(template.definition);
+      if (!definition) {
+        return NextResponse.json(
+          { success: false, error: 'This template can no longer be used' },
+          { status: 400 }
+        );
+      }
+      source = definition.form;
+    }
+
+    // First form of a new account - create the database user like the create route does
+    await ensureRespondentUser(userId);
+
+    const form = await createFormFromDefinition(source, userId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Form created from template',
+      formId: form.id
+    });
+
+  } catch (error) {
+    console.error('Error creating form from template:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/services/prisma';
+import { toFormDefinition } from '@/lib/formDefinition';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
+import { countQuestions, STARTER_TEMPLATES } from '@/lib/starterTemplates';
+import type { FormDefinition } from '@/types/formDefinition';
+
+// GET: Starter templates and the caller's own templates
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const templates = await prisma.template.findMany({
+      where: { createdBy: userId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return NextResponse.json({
+      success: true,
+      starter: STARTER_TEMPLATES.map(template => ({
+        id: template.id,
+        title: template.title,
+        description: template.description,
+        questionCount: countQuestions(template.form)
+      })),
+      personal: templates.map(template => ({
+        id: template.id,
+        title: template.title,
+        description: template.description,
+        createdAt: template.createdAt,
+        questionCount: countQuestions((template.definition as unknown as FormDefinition).form)
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error fetching templates:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Save a form the caller owns as a personal template
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { formId } = await request.json();
+
+    if (typeof formId !== 'string' || !formId) {
+      return NextResponse.json(
+        { success: false, error: 'A form ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const form = await prisma.form.findFirst({
+      where: {
+        id: formId,
+        createdBy: userId, // Only the owner can save a form as a template
+        ...NOT_IN_TRASH
+      },
+      include: {
+        sections: {
+          include: {
+            questions: {
+              include: {
+                options: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!form) {
+      return NextResponse.json(
+        { success: false, error: 'Form not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    // A snapshot - later edits to the form don't change the template
+    const template = await prisma.template.create({
+      data: {
+        title: form.title,
+        description: form.description,
+        definition: toFormDefinition(form) as unknown as Prisma.InputJsonValue,
+        createdBy: userId
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Template saved successfully',
+      template: {
+        id: template.id,
+        title: template.title
+      }
+    });
+
+  } catch (error) {
+    console.error('Error saving template:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/services/prisma';
+import { IN_TRASH } from '@/lib/formTrash';
+
+// POST: Move a form the caller has in Trash back to their forms, with its responses
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: formId } = await params;
+
+    const form = await prisma.form.findFirst({
+      where: {
+        id: formId,
+        createdBy: userId,
+        ...IN_TRASH
+      },
+      select: { id: true }
+    });
+
+    if (!form) {
+      return NextResponse.json(
+        { success: false, error: 'Form not found in Trash' },
+        { status: 404 }
+      );
+    }
+
+    // Live forms have no deletedAt at all - see NOT_IN_TRASH
+    await prisma.form.update({
+      where: { id: formId },
+      data: { deletedAt: { unset: true } }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Form restored'
+    });
+
+  } catch (error) {
+    console.error('Error restoring form:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/services/prisma';
+import { IN_TRASH, purgeForm } from '@/lib/formTrash';
+
+// DELETE: Permanently delete a form the caller has in Trash, with every response
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: formId } = await params;
+
+    // Only forms in Trash can be purged - live forms are moved there first
+    const form = await prisma.form.findFirst({
+      where: {
+        id: formId,
+        createdBy: userId,
+        ...IN_TRASH
+      },
+      select: { id: true }
+    });
+
+    if (!form) {
+      return NextResponse.json(
+        { success: false, error: 'Form not found in Trash' },
+        { status: 404 }
+      );
+    }
+
+    await purgeForm(formId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Form deleted forever'
+    });
+
+  } catch (error) {
+    console.error('Error purging form:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import prisma from '@/services/prisma';
+import { getPurgeDate, getTrashRetentionDays, IN_TRASH, purgeExpiredForms } from '@/lib/formTrash';
+
+// GET: The caller's forms in Trash, most recently deleted first
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await purgeExpiredForms(userId);
+
+    const forms = await prisma.form.findMany({
+      where: {
+        createdBy: userId,
+        ...IN_TRASH
+      },
+      orderBy: { deletedAt: 'desc' },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        published: true,
+        responseCount: true,
+        deletedAt: true
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      retentionDays: getTrashRetentionDays(),
+      forms: forms.map(form => ({
+        ...form,
+        purgeAt: form.deletedAt ? getPurgeDate(form.deletedAt) : null
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
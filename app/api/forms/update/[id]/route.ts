@@ -1,6 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prisma from '@/services/prisma';
+import { NOT_IN_TRASH } from '@/lib/formTrash';
+import {
+  createRuleTracker,
+  createSectionTracker,
+  optionDataFromPayload,
+  questionDataFromPayload
+} from '@/lib/form-utils';
+import { parseAllowlist } from '@/utils/formAccess';
+import { getPasswordHashUpdate } from '@/lib/formPassword';
+import { parseClosedMessage, parseScheduleDate } from '@/utils/formSchedule';
+import { DEFAULT_FULL_MESSAGE, parseMaxResponses } from '@/utils/responseLimit';
+import { syncResponseCount } from '@/lib/responseLimit';
+import { syncOptionSeats } from '@/lib/optionCapacity';
+import { saveRevision } from '@/lib/formRevisions';
 
 export async function PUT(
   request: NextRequest,
@@ -42,7 +56,8 @@ export async function PUT(
     const existingForm = await prisma.form.findFirst({
       where: {
         id: formId,
-        createdBy: userId
+        createdBy: userId,
+        ...NOT_IN_TRASH // Forms in Trash have to be restored before they're edited
       }
     });
 
@@ -53,6 +68,9 @@ export async function PUT(
       );
     }
 
+    // Hashed outside the transaction
+    const accessPasswordHash = await getPasswordHashUpdate(settings, existingForm.accessPasswordHash);
+
     // Check if form has existing responses
     const hasResponses = await prisma.response.count({
       where: { formId: formId }
@@ -60,6 +78,11 @@ export async function PUT(
 
     // Update form in transaction
     await prisma.$transaction(async (tx) => {
+      // Visibility rules reference other questions, so they're saved once every question has its ID
+      const ruleTracker = createRuleTracker();
+      // Same for branch targets, which reference sections
+      const sectionTracker = createSectionTracker(formId);
+
       // Update form title, description, published status, accepting responses, and settings
       if (process.env.NODE_ENV === 'development') console.log('🟦 API UPDATE - Updating form with:', { title, description, published, acceptingResponses });
       
@@ -82,6 +105,15 @@ export async function PUT(
               shuffleQuestions: settings.shuffleQuestions || false,
               collectEmail: settings.collectEmail || false,
               allowMultipleResponses: settings.allowMultipleResponses ?? true,
+              oneResponsePerAccount: settings.oneResponsePerAccount || false,
+              requireSignIn: settings.requireSignIn || false,
+              allowedRespondents: parseAllowlist(settings.allowedRespondents),
+              accessPasswordHash,
+              opensAt: parseScheduleDate(settings.opensAt),
+              closesAt: parseScheduleDate(settings.closesAt),
+              maxResponses: parseMaxResponses(settings.maxResponses),
+              fullMessage: settings.fullMessage || DEFAULT_FULL_MESSAGE,
+              closedMessage: parseClosedMessage(settings.closedMessage),
               showProgress: settings.showProgress ?? true,
               confirmationMessage: settings.confirmationMessage || 'Your response has been recorded.',
               defaultRequired: settings.defaultRequired || false,
@@ -150,37 +182,27 @@ export async function PUT(
                 title: sectionData.title || `Section ${sectionIndex + 1}`,
                 description: sectionData.description || null,
                 order: sectionIndex,
+                nextSection: sectionData.nextSection || null,
                 formId: formId
               }
             });
+            sectionTracker.track(sectionData, createdSection.id);
 
             // Create questions for this section
             if (sectionData.questions && sectionData.questions.length > 0) {
               for (const question of sectionData.questions) {
                 const createdQuestion = await tx.question.create({
                   data: {
-                    text: question.text || '',
-                    description: question.description || null,
-                    type: question.type || 'SHORT_ANSWER',
-                    required: question.required || false,
-                    imageUrl: question.imageUrl || null,
-                    sectionId: createdSection.id,
-                    points: question.points || 1,
-                    correctAnswers: question.correctAnswers || [],
-                    shuffleOptionsOrder: question.shuffleOptionsOrder || false
+                    ...questionDataFromPayload(question),
+                    sectionId: createdSection.id
                   }
                 });
+                ruleTracker.track(question, createdQuestion.id);
 
                 // Create options for the question if they exist
                 if (question.options && question.options.length > 0) {
                   await tx.option.createMany({
-                    data: question.options
-                      .filter((opt: any) => opt.text?.trim()) // Only save options with text
-                      .map((option: any) => ({
-                        text: option.text,
-                        imageUrl: option.imageUrl || null,
-                        questionId: createdQuestion.id
-                      }))
+                    data: optionDataFromPayload(question.options, createdQuestion.id, question.type)
                   });
                 }
               }
@@ -200,17 +222,11 @@ export async function PUT(
           for (const question of questions) {
             const createdQuestion = await tx.question.create({
               data: {
-                text: question.text,
-                description: question.description || null,
-                type: question.type,
-                required: question.required,
-                imageUrl: question.imageUrl || null,
-                sectionId: defaultSection.id,
-                points: question.points || 1,
-                correctAnswers: question.correctAnswers || [],
-                shuffleOptionsOrder: question.shuffleOptionsOrder || false
+                ...questionDataFromPayload(question),
+                sectionId: defaultSection.id
               }
             });
+            ruleTracker.track(question, createdQuestion.id);
 
             // Create options if question type requires them
             if ((question.type === 'MULTIPLE_CHOICE' || question.type === 'CHECKBOXES' || question.type === 'DROPDOWN') && question.options.length > 0) {
@@ -254,9 +270,11 @@ export async function PUT(
                 data: {
                   title: sectionData.title || 'Untitled Section',
                   description: sectionData.description || null,
-                  order: sectionIndex
+                  order: sectionIndex,
+                  nextSection: sectionData.nextSection || null
                 }
               });
+              sectionTracker.track(sectionData, sectionData.id);
 
               // Also handle questions in existing sections (new questions or updates)
               if (sectionData.questions && sectionData.questions.length > 0) {
@@ -266,17 +284,11 @@ export async function PUT(
                     await tx.question.update({
                       where: { id: question.id },
                       data: {
-                        text: question.text,
-                        description: question.description || null,
-                        type: question.type,
-                        required: question.required,
-                        imageUrl: question.imageUrl || null,
+                        ...questionDataFromPayload(question),
                         sectionId: sectionData.id, // Update sectionId in case question was moved
-                        points: question.points || 1,
-                        correctAnswers: question.correctAnswers || [],
-                        shuffleOptionsOrder: question.shuffleOptionsOrder || false
                       }
                     });
+                    ruleTracker.track(question, question.id);
 
                     // Update options
                     if (['MULTIPLE_CHOICE', 'CHECKBOXES', 'DROPDOWN'].includes(question.type)) {
@@ -286,13 +298,7 @@ export async function PUT(
                       
                       if (question.options && question.options.length > 0) {
                         await tx.option.createMany({
-                          data: question.options
-                            .filter((opt: any) => opt.text?.trim())
-                            .map((option: any) => ({
-                              text: option.text,
-                              imageUrl: option.imageUrl || null,
-                              questionId: question.id
-                            }))
+                          data: optionDataFromPayload(question.options, question.id, question.type)
                         });
                       }
                     }
@@ -300,27 +306,15 @@ export async function PUT(
                     // New question in existing section
                     const createdQuestion = await tx.question.create({
                       data: {
-                        text: question.text || '',
-                        description: question.description || null,
-                        type: question.type || 'SHORT_ANSWER',
-                        required: question.required || false,
-                        imageUrl: question.imageUrl || null,
-                        sectionId: sectionData.id,
-                        points: question.points || 1,
-                        correctAnswers: question.correctAnswers || [],
-                        shuffleOptionsOrder: question.shuffleOptionsOrder || false
+                        ...questionDataFromPayload(question),
+                        sectionId: sectionData.id
                       }
                     });
+                    ruleTracker.track(question, createdQuestion.id);
 
                     if (question.options && question.options.length > 0) {
                       await tx.option.createMany({
-                        data: question.options
-                          .filter((opt: any) => opt.text?.trim())
-                          .map((option: any) => ({
-                            text: option.text,
-                            imageUrl: option.imageUrl || null,
-                            questionId: createdQuestion.id
-                          }))
+                        data: optionDataFromPayload(question.options, createdQuestion.id, question.type)
                       });
                     }
                   }
@@ -334,9 +328,11 @@ export async function PUT(
                   title: sectionData.title || 'Untitled Section',
                   description: sectionData.description || null,
                   order: sectionIndex,
+                  nextSection: sectionData.nextSection || null,
                   formId: formId
                 }
               });
+              sectionTracker.track(sectionData, createdSection.id);
               
               if (process.env.NODE_ENV === 'development') console.log('✅ New section created with ID:', createdSection.id);
 
@@ -345,28 +341,16 @@ export async function PUT(
                 for (const question of sectionData.questions) {
                   const createdQuestion = await tx.question.create({
                     data: {
-                      text: question.text || '',
-                      description: question.description || null,
-                      type: question.type || 'SHORT_ANSWER',
-                      required: question.required || false,
-                      imageUrl: question.imageUrl || null,
-                      sectionId: createdSection.id,
-                      points: question.points || 1,
-                      correctAnswers: question.correctAnswers || [],
-                      shuffleOptionsOrder: question.shuffleOptionsOrder || false
+                      ...questionDataFromPayload(question),
+                      sectionId: createdSection.id
                     }
                   });
+                  ruleTracker.track(question, createdQuestion.id);
 
                   // Create options for the question if they exist
                   if (question.options && question.options.length > 0) {
                     await tx.option.createMany({
-                      data: question.options
-                        .filter((opt: any) => opt.text?.trim()) // Only save options with text
-                        .map((option: any) => ({
-                          text: option.text,
-                          imageUrl: option.imageUrl || null,
-                          questionId: createdQuestion.id
-                        }))
+                      data: optionDataFromPayload(question.options, createdQuestion.id, question.type)
                     });
                   }
                 }
@@ -698,10 +682,26 @@ export async function PUT(
         } // End of if (!sections || sections.length === 0)
       }
 
+      await ruleTracker.saveRules(tx);
+      await sectionTracker.saveTargets(tx);
+
+      await saveRevision(tx, formId, userId);
+
       // Add debug logs to confirm transaction success
       if (process.env.NODE_ENV === 'development') console.log('🔍 DEBUG - Transaction completed successfully for formId:', formId);
     });
 
+    // Options were recreated, so their seats are counted again from the stored answers
+    if (hasResponses) {
+      await syncOptionSeats(formId);
+    }
+
+    // A new limit counts the responses the form already has
+    const maxResponses = parseMaxResponses(settings?.maxResponses);
+    if (settings && maxResponses !== null && maxResponses !== existingForm.maxResponses) {
+      await syncResponseCount(formId);
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Form updated successfully',
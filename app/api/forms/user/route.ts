@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/services/prisma';
 import { auth } from '@clerk/nextjs/server';
+import { NOT_IN_TRASH, purgeExpiredForms } from '@/lib/formTrash';
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,10 +15,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Forms left in Trash past the retention period are purged whenever the dashboard loads
+    await purgeExpiredForms(userId);
+
     // Get user's forms from database with questions for preview
     const userForms = await prisma.form.findMany({
       where: {
-        createdBy: userId
+        createdBy: userId,
+        ...NOT_IN_TRASH
       },
       orderBy: {
         createdAt: 'desc' // Latest forms first
@@ -28,6 +33,10 @@ export async function GET(request: NextRequest) {
         description: true,
         published: true,
         acceptingResponses: true,
+        opensAt: true,
+        closesAt: true,
+        maxResponses: true,
+        responseCount: true,
         createdAt: true,
         sections: {
           select: {
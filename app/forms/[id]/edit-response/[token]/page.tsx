@@ -3,12 +3,66 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { formatTimeRemaining } from '@/lib/editToken';
+import type { VisibilityRules } from '@/types/form';
+import LinearScaleInput from '@/components/LinearScaleInput';
+import GridInput from '@/components/GridInput';
+import DateInput from '@/components/DateInput';
+import FileUploadInput from '@/components/FileUploadInput';
+import OtherOptionInput from '@/components/OtherOptionInput';
+import { hasAnswer } from '@/utils/conditionalLogic';
+import { getMissingGridRows, isGridType } from '@/utils/gridQuestions';
+import { validateDateAnswer } from '@/utils/dateQuestions';
+import type { UploadedFileInfo } from '@/utils/fileUploads';
+import { cleanOtherAnswer, getOtherValue, joinOtherAnswer } from '@/utils/otherOption';
+import { validateTextAnswer } from '@/utils/textValidation';
+import { describeSelectionLimits, getSelectionLimits, validateSelectionCount } from '@/utils/selectionLimits';
+import { getActiveQuestions, sortSections } from '@/utils/sectionBranching';
+import { describeRemaining } from '@/utils/optionCapacity';
+
+interface Question {
+  id: string;
+  text: string;
+  description?: string | null;
+  type: string;
+  required: boolean;
+  options: { id: string; text: string; goToSection?: string | null; remaining?: number | null }[];
+  hasOtherOption?: boolean;
+  minSelections?: number | null;
+  maxSelections?: number | null;
+  textValidation?: unknown;
+  visibilityRules?: VisibilityRules | null;
+  // Linear scale settings
+  scaleMin?: number | null;
+  scaleMax?: number | null;
+  scaleMinLabel?: string | null;
+  scaleMaxLabel?: string | null;
+  // Grid settings
+  gridRows?: string[];
+  gridColumns?: string[];
+  requireEachRow?: boolean;
+  // Date / time settings
+  dateMin?: string | null;
+  dateMax?: string | null;
+  includeYear?: boolean;
+  // File upload settings
+  allowedFileTypes?: string[];
+  maxFiles?: number | null;
+  maxFileSize?: number | null;
+}
+
+interface Section {
+  id: string;
+  order: number;
+  nextSection?: string | null;
+  questions: Question[];
+}
 
 interface FormData {
   id: string;
   title: string;
   description: string;
-  questions: any[];
+  sections: Section[];
+  questions: Question[]; // All questions in form order, flattened from sections
   allowResponseEditing: boolean;
   editTimeLimit: string;
 }
@@ -17,6 +71,7 @@ interface ResponseData {
   id: string;
   editTokenExpiry: Date | null;
   answers: any[];
+  files: UploadedFileInfo[]; // Files attached to the response, for their names
 }
 
 export default function EditResponsePage() {
@@ -51,19 +106,35 @@ export default function EditResponsePage() {
         return;
       }
 
-      setFormData(data.form);
+      const questions = sortSections<Section>(data.form.sections || []).flatMap(section => section.questions || []);
+      setFormData({
+        ...data.form,
+        questions
+      });
       setResponseData(data.response);
       
       // Convert answers to form format
       const answerMap: {[key: string]: any} = {};
       data.response.answers.forEach((answer: any) => {
-        if (answer.selectedOptions && answer.selectedOptions.length > 0) {
+        if (answer.gridAnswers) {
+          // Grid answers (row -> columns)
+          answerMap[answer.questionId] = answer.gridAnswers;
+        } else if (answer.fileIds && answer.fileIds.length > 0) {
+          // File upload answers (uploaded file IDs)
+          answerMap[answer.questionId] = answer.fileIds;
+        } else if (answer.selectedOptions && answer.selectedOptions.length > 0) {
           // Multiple choice answers
           answerMap[answer.questionId] = answer.selectedOptions;
         } else if (answer.answerText) {
           // Text answers
           answerMap[answer.questionId] = answer.answerText;
         }
+
+        // "Other" text is stored separately from the regular choices
+        if (answer.otherText) {
+          const question = questions.find(q => q.id === answer.questionId);
+          answerMap[answer.questionId] = joinOtherAnswer(question?.type || '', answerMap[answer.questionId], answer.otherText);
+        }
       });
       
       setAnswers(answerMap);
@@ -75,6 +146,11 @@ export default function EditResponsePage() {
     }
   };
 
+  // The respondent keeps their own seat, so only options they didn't pick before can be full
+  const isOptionFull = (questionId: string, option: Question['options'][number]) =>
+    option.remaining === 0 &&
+    !responseData?.answers.some(answer => answer.questionId === questionId && answer.answerText === option.text);
+
   const handleAnswerChange = (questionId: string, value: any) => {
     setAnswers(prev => ({
       ...prev,
@@ -91,17 +167,27 @@ export default function EditResponsePage() {
     setError(null);
 
     try {
-      // Validate required fields
-      const requiredQuestions = formData.questions.filter(q => q.required);
-      for (const question of requiredQuestions) {
+      // Validate required fields and answer formats - questions skipped by conditional logic or branching don't count
+      const activeQuestions = getActiveQuestions(formData.sections, answers).questions;
+      for (const question of activeQuestions) {
         const answer = answers[question.id];
-        if (!answer || 
-            (typeof answer === 'string' && answer.trim() === '') ||
-            (Array.isArray(answer) && answer.length === 0)) {
+        const isMissing = isGridType(question.type)
+          ? getMissingGridRows(question, answer).length > 0
+          : !hasAnswer(cleanOtherAnswer(question, answer));
+        if (question.required && isMissing) {
           setError(`Question "${question.text}" is required`);
           setSaving(false);
           return;
         }
+
+        const answerError = validateDateAnswer(question, answer) ||
+          validateTextAnswer(question, answer) ||
+          (question.type === 'CHECKBOXES' ? validateSelectionCount(question, answer) : null);
+        if (answerError) {
+          setError(`Question "${question.text}": ${answerError}`);
+          setSaving(false);
+          return;
+        }
       }
 
       const updateResponse = await fetch(`/api/forms/${formId}/responses/${token}`, {
@@ -110,7 +196,8 @@ export default function EditResponsePage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          responses: answers
+          // Only answers to questions still shown on the form are sent back
+          responses: getActiveQuestions(formData.sections, answers).responses
         }),
       });
 
@@ -160,31 +247,52 @@ export default function EditResponsePage() {
         return (
           <div className="space-y-2">
             {question.options?.map((option: any) => (
-              <label key={option.id} className="flex items-center space-x-2">
+              <label key={option.id} className={`flex items-center space-x-2 ${isOptionFull(question.id, option) ? 'opacity-50' : ''}`}>
                 <input
                   type="radio"
                   name={question.id}
                   value={option.text}
                   checked={currentAnswer === option.text}
                   onChange={(e) => handleAnswerChange(question.id, e.target.value)}
+                  disabled={isOptionFull(question.id, option)}
                   className="text-blue-600 focus:ring-blue-500"
                 />
                 <span>{option.text}</span>
+                {isOptionFull(question.id, option) ? (
+                  <span className="text-sm text-gray-500">(Full)</span>
+                ) : option.remaining ? (
+                  <span className="text-sm text-gray-500">({describeRemaining(option.remaining)})</span>
+                ) : null}
               </label>
             ))}
+            {/* "Other" stays last */}
+            {question.hasOtherOption && (
+              <OtherOptionInput
+                name={question.id}
+                type={question.type}
+                value={currentAnswer}
+                onChange={(value) => handleAnswerChange(question.id, value)}
+              />
+            )}
           </div>
         );
 
       case 'CHECKBOXES':
         const selectedOptions = Array.isArray(currentAnswer) ? currentAnswer : [];
+        const { max: maxSelections } = getSelectionLimits(question);
+        const atSelectionLimit = maxSelections !== null && selectedOptions.length >= maxSelections;
         return (
           <div className="space-y-2">
+            {describeSelectionLimits(question) && (
+              <p className="text-sm text-gray-600">{describeSelectionLimits(question)}</p>
+            )}
             {question.options?.map((option: any) => (
               <label key={option.id} className="flex items-center space-x-2">
                 <input
                   type="checkbox"
                   value={option.text}
                   checked={selectedOptions.includes(option.text)}
+                  disabled={atSelectionLimit && !selectedOptions.includes(option.text)}
                   onChange={(e) => {
                     const newSelection = e.target.checked
                       ? [...selectedOptions, option.text]
@@ -196,6 +304,16 @@ export default function EditResponsePage() {
                 <span>{option.text}</span>
               </label>
             ))}
+            {/* "Other" stays last */}
+            {question.hasOtherOption && (
+              <OtherOptionInput
+                name={question.id}
+                type={question.type}
+                value={currentAnswer}
+                disabled={atSelectionLimit && getOtherValue(currentAnswer) === null}
+                onChange={(value) => handleAnswerChange(question.id, value)}
+              />
+            )}
           </div>
         );
 
@@ -208,13 +326,69 @@ export default function EditResponsePage() {
           >
             <option value="">Select an option...</option>
             {question.options?.map((option: any) => (
-              <option key={option.id} value={option.text}>
-                {option.text}
+              <option key={option.id} value={option.text} disabled={isOptionFull(question.id, option)}>
+                {isOptionFull(question.id, option)
+                  ? `${option.text} (Full)`
+                  : option.remaining ? `${option.text} (${describeRemaining(option.remaining)})` : option.text}
               </option>
             ))}
           </select>
         );
 
+      case 'LINEAR_SCALE':
+        return (
+          <LinearScaleInput
+            name={question.id}
+            scaleMin={question.scaleMin}
+            scaleMax={question.scaleMax}
+            scaleMinLabel={question.scaleMinLabel}
+            scaleMaxLabel={question.scaleMaxLabel}
+            value={currentAnswer}
+            onChange={(value) => handleAnswerChange(question.id, value)}
+          />
+        );
+
+      case 'MC_GRID':
+      case 'CHECKBOX_GRID':
+        return (
+          <GridInput
+            name={question.id}
+            type={question.type}
+            rows={question.gridRows || []}
+            columns={question.gridColumns || []}
+            value={currentAnswer}
+            onChange={(value) => handleAnswerChange(question.id, value)}
+          />
+        );
+
+      case 'DATE':
+      case 'TIME':
+      case 'DATETIME':
+        return (
+          <DateInput
+            type={question.type}
+            includeYear={question.includeYear}
+            dateMin={question.dateMin}
+            dateMax={question.dateMax}
+            value={currentAnswer}
+            onChange={(value) => handleAnswerChange(question.id, value)}
+          />
+        );
+
+      case 'FILE_UPLOAD':
+        return (
+          <FileUploadInput
+            formId={formId}
+            questionId={question.id}
+            allowedFileTypes={question.allowedFileTypes}
+            maxFiles={question.maxFiles}
+            maxFileSize={question.maxFileSize}
+            value={Array.isArray(currentAnswer) ? currentAnswer : []}
+            initialFiles={responseData?.files}
+            onChange={(fileIds) => handleAnswerChange(question.id, fileIds)}
+          />
+        );
+
       default:
         return <div>Unsupported question type</div>;
     }
@@ -8,19 +8,50 @@ import Link from 'next/link';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import QuestionCard from '@/components/QuestionCard';
 import RichTextEditor from '@/components/RichTextEditor';
+import VersionHistoryModal from '@/components/VersionHistoryModal';
 import { navbarEvents } from '@/components/Navbar';
+import type { GridAnswer, TextValidation, VisibilityRules } from '@/types/form';
+import { SUBMIT_SECTION } from '@/utils/sectionBranching';
+import { getScaleBounds, getScaleValues } from '@/utils/linearScale';
+import { formatGridAnswer, isGridType } from '@/utils/gridQuestions';
+import { formatDateAnswer, isDateType } from '@/utils/dateQuestions';
+import { formatFileSize, type UploadedFileInfo } from '@/utils/fileUploads';
+import { formatScheduleDate, fromLocalInputValue, getResponseStatus, toLocalInputValue } from '@/utils/formSchedule';
+import { DEFAULT_FULL_MESSAGE, parseMaxResponses } from '@/utils/responseLimit';
 
 interface Question {
   id: string;
   text: string;
   description?: string;
-  type: 'SHORT_ANSWER' | 'PARAGRAPH' | 'MULTIPLE_CHOICE' | 'CHECKBOXES' | 'DROPDOWN';
+  type: 'SHORT_ANSWER' | 'PARAGRAPH' | 'MULTIPLE_CHOICE' | 'CHECKBOXES' | 'DROPDOWN' | 'LINEAR_SCALE' | 'MC_GRID' | 'CHECKBOX_GRID' | 'DATE' | 'TIME' | 'DATETIME' | 'FILE_UPLOAD';
   required: boolean;
-  options: { id: string; text: string; imageUrl?: string; }[];
+  options: { id: string; text: string; imageUrl?: string; goToSection?: string | null; capacity?: number | null; }[];
   shuffleOptionsOrder?: boolean;
+  hasOtherOption?: boolean;
+  minSelections?: number | null;
+  maxSelections?: number | null;
   imageUrl?: string;
   points?: number;
   correctAnswers?: string[];
+  visibilityRules?: VisibilityRules | null;
+  textValidation?: TextValidation | null;
+  // Linear scale settings
+  scaleMin?: number | null;
+  scaleMax?: number | null;
+  scaleMinLabel?: string | null;
+  scaleMaxLabel?: string | null;
+  // Grid settings
+  gridRows?: string[];
+  gridColumns?: string[];
+  requireEachRow?: boolean;
+  // Date / time settings
+  dateMin?: string | null;
+  dateMax?: string | null;
+  includeYear?: boolean;
+  // File upload settings
+  allowedFileTypes?: string[];
+  maxFiles?: number | null;
+  maxFileSize?: number | null;
 }
 
 interface Section {
@@ -28,6 +59,7 @@ interface Section {
   title: string;
   description: string | null;
   order: number;
+  nextSection?: string | null;
   questions: Question[];
 }
 
@@ -40,6 +72,9 @@ interface FormData {
   shuffleQuestions?: boolean;
   collectEmail?: boolean;
   allowMultipleResponses?: boolean;
+  oneResponsePerAccount?: boolean;
+  requireSignIn?: boolean;
+  allowedRespondents?: string[];
   showProgress?: boolean;
   confirmationMessage?: string;
   restrictToOrganization?: boolean;
@@ -55,6 +90,9 @@ interface Answer {
   questionType: string;
   answerText: string | null;
   selectedOptions: string[];
+  gridAnswers?: GridAnswer | null;
+  files?: UploadedFileInfo[];
+  otherText?: string | null;
 }
 
 interface Response {
@@ -96,6 +134,7 @@ export default function Form() {
   const [expandedResponse, setExpandedResponse] = useState<string | null>(null);
   const [linkCopied, setLinkCopied] = useState(false);
   const [openMenuId, setOpenMenuId] = useState<string | null>(null);
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
   
   // Section deletion confirmation dialog
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -109,6 +148,16 @@ export default function Form() {
     shuffleQuestions: false,
     collectEmail: false,
     allowMultipleResponses: true,
+    oneResponsePerAccount: false,
+    requireSignIn: false,
+    allowedRespondents: [] as string[],
+    passwordProtected: false,
+    accessPassword: '', // New password to set - the current one is never sent back
+    opensAt: '', // ISO time - '' when the form isn't scheduled
+    closesAt: '',
+    maxResponses: null as number | null, // null for no limit
+    fullMessage: DEFAULT_FULL_MESSAGE,
+    closedMessage: '', // Rich text - '' shows the default closed message
     showProgress: true,
     confirmationMessage: 'Your response has been recorded.',
     defaultRequired: false,
@@ -129,6 +178,16 @@ export default function Form() {
     shuffleQuestions: false,
     collectEmail: false,
     allowMultipleResponses: true,
+    oneResponsePerAccount: false,
+    requireSignIn: false,
+    allowedRespondents: [] as string[],
+    passwordProtected: false,
+    accessPassword: '', // New password to set - the current one is never sent back
+    opensAt: '', // ISO time - '' when the form isn't scheduled
+    closesAt: '',
+    maxResponses: null as number | null, // null for no limit
+    fullMessage: DEFAULT_FULL_MESSAGE,
+    closedMessage: '', // Rich text - '' shows the default closed message
     showProgress: true,
     confirmationMessage: 'Your response has been recorded.',
     defaultRequired: false,
@@ -210,7 +269,8 @@ export default function Form() {
         descChanged: currentDesc !== originalDesc
       });
       
-      if (currentTitle !== originalTitle || currentDesc !== originalDesc) {
+      if (currentTitle !== originalTitle || currentDesc !== originalDesc ||
+          (currentSection.nextSection || null) !== (originalSection.nextSection || null)) {
         if (process.env.NODE_ENV === 'development') console.log('🔍 CHANGE DETECTION - Section change detected!');
         return true;
       }
@@ -244,6 +304,9 @@ export default function Form() {
       if (currentQ.type !== originalQ.type ||
           currentQ.required !== originalQ.required ||
           (currentQ.shuffleOptionsOrder || false) !== (originalQ.shuffleOptionsOrder || false) ||
+          (currentQ.hasOtherOption || false) !== (originalQ.hasOtherOption || false) ||
+          (currentQ.minSelections ?? null) !== (originalQ.minSelections ?? null) ||
+          (currentQ.maxSelections ?? null) !== (originalQ.maxSelections ?? null) ||
           (currentQ.imageUrl || '') !== (originalQ.imageUrl || '')) {
         return true;
       }
@@ -259,6 +322,46 @@ export default function Form() {
       if (currentCorrectAnswers !== originalCorrectAnswers) {
         return true;
       }
+
+      // Compare conditional logic
+      if (JSON.stringify(currentQ.visibilityRules || null) !== JSON.stringify(originalQ.visibilityRules || null)) {
+        return true;
+      }
+
+      // Compare response validation
+      if (JSON.stringify(currentQ.textValidation || null) !== JSON.stringify(originalQ.textValidation || null)) {
+        return true;
+      }
+
+      // Compare linear scale settings
+      if (currentQ.type === 'LINEAR_SCALE' &&
+          ((currentQ.scaleMin ?? null) !== (originalQ.scaleMin ?? null) ||
+           (currentQ.scaleMax ?? null) !== (originalQ.scaleMax ?? null) ||
+           (currentQ.scaleMinLabel || '') !== (originalQ.scaleMinLabel || '') ||
+           (currentQ.scaleMaxLabel || '') !== (originalQ.scaleMaxLabel || ''))) {
+        return true;
+      }
+
+      // Compare grid settings
+      if (JSON.stringify(currentQ.gridRows || []) !== JSON.stringify(originalQ.gridRows || []) ||
+          JSON.stringify(currentQ.gridColumns || []) !== JSON.stringify(originalQ.gridColumns || []) ||
+          (currentQ.requireEachRow || false) !== (originalQ.requireEachRow || false)) {
+        return true;
+      }
+
+      // Compare date / time settings
+      if ((currentQ.dateMin || '') !== (originalQ.dateMin || '') ||
+          (currentQ.dateMax || '') !== (originalQ.dateMax || '') ||
+          (currentQ.includeYear ?? true) !== (originalQ.includeYear ?? true)) {
+        return true;
+      }
+
+      // Compare file upload settings
+      if (JSON.stringify(currentQ.allowedFileTypes || []) !== JSON.stringify(originalQ.allowedFileTypes || []) ||
+          (currentQ.maxFiles ?? null) !== (originalQ.maxFiles ?? null) ||
+          (currentQ.maxFileSize ?? null) !== (originalQ.maxFileSize ?? null)) {
+        return true;
+      }
       
       // Compare options for questions that have them
       const currentOptions = currentQ.options?.filter((opt: any) => opt.text.trim() !== "") || [];
@@ -270,7 +373,9 @@ export default function Form() {
       
       for (let j = 0; j < currentOptions.length; j++) {
         if (currentOptions[j].text !== originalOptions[j].text ||
-            (currentOptions[j].imageUrl || '') !== (originalOptions[j].imageUrl || '')) {
+            (currentOptions[j].imageUrl || '') !== (originalOptions[j].imageUrl || '') ||
+            (currentOptions[j].goToSection || null) !== (originalOptions[j].goToSection || null) ||
+            (currentOptions[j].capacity ?? null) !== (originalOptions[j].capacity ?? null)) {
           return true;
         }
       }
@@ -342,6 +447,23 @@ export default function Form() {
     return sections.flatMap(section => section.questions || []);
   };
 
+  // Questions before the given one - the only ones its visibility rules may depend on
+  const getRuleSourceQuestions = (questionId: string) => {
+    const allQuestions = getAllQuestions(formData.sections || []);
+    const questionIndex = allQuestions.findIndex(q => q.id === questionId);
+    return allQuestions.slice(0, Math.max(0, questionIndex)).map(q => ({
+      id: q.id,
+      text: q.text,
+      type: q.type,
+      // Scale values act as the options when a rule depends on a linear scale
+      options: q.type === 'LINEAR_SCALE'
+        ? getScaleValues(q).map(String)
+        : isGridType(q.type)
+          ? q.gridColumns || []
+          : (q.options || []).map(opt => opt.text).filter(text => text.trim() !== '')
+    }));
+  };
+
   // Helper function to update a question in sections
   const updateQuestionInSections = (sections: Section[], questionId: string, updateFn: (question: Question) => Question): Section[] => {
     return sections.map(section => ({
@@ -534,6 +656,11 @@ export default function Form() {
       navbarEvents.emit('formStatusUpdate', {
         published: formData.published,
         acceptingResponses: formData.acceptingResponses,
+        // Saved schedule and limit - unsaved edits don't change the form's status yet
+        opensAt: originalSettings.opensAt,
+        closesAt: originalSettings.closesAt,
+        maxResponses: originalSettings.maxResponses,
+        responseCount,
         formId: formData.id,
         title: formData.title,
         hasChanges: hasChanges,
@@ -541,7 +668,7 @@ export default function Form() {
         justSaved: justSaved
       });
     }
-  }, [formData.published, formData.acceptingResponses, formData.id, formData.title, isExistingForm, loading, saving, justSaved, formData, formSettings]);
+  }, [formData.published, formData.acceptingResponses, formData.id, formData.title, isExistingForm, loading, saving, justSaved, formData, formSettings, originalSettings, responseCount]);
 
   // Sync formData with formSettings changes for components that rely on formData
   useEffect(() => {
@@ -551,6 +678,9 @@ export default function Form() {
       shuffleQuestions: formSettings.shuffleQuestions,
       collectEmail: formSettings.collectEmail,
       allowMultipleResponses: formSettings.allowMultipleResponses,
+      oneResponsePerAccount: formSettings.oneResponsePerAccount,
+      requireSignIn: formSettings.requireSignIn,
+      allowedRespondents: formSettings.allowedRespondents,
       showProgress: formSettings.showProgress,
       confirmationMessage: formSettings.confirmationMessage,
       defaultRequired: formSettings.defaultRequired,
@@ -648,6 +778,36 @@ export default function Form() {
     return <LoadingSpinner message="Redirecting to sign in..." />;
   }
 
+  // Editor settings from a form as the API returns it
+  const settingsFromForm = (form: Partial<typeof formSettings>) => ({
+    shuffleQuestions: form.shuffleQuestions || false,
+    collectEmail: form.collectEmail || false,
+    allowMultipleResponses: form.allowMultipleResponses ?? true,
+    oneResponsePerAccount: form.oneResponsePerAccount || false,
+    requireSignIn: form.requireSignIn || false,
+    allowedRespondents: form.allowedRespondents || [],
+    passwordProtected: form.passwordProtected || false,
+    accessPassword: '',
+    opensAt: form.opensAt || '',
+    closesAt: form.closesAt || '',
+    maxResponses: form.maxResponses ?? null,
+    fullMessage: form.fullMessage || DEFAULT_FULL_MESSAGE,
+    closedMessage: form.closedMessage || '',
+    showProgress: form.showProgress ?? true,
+    confirmationMessage: form.confirmationMessage || 'Your response has been recorded.',
+    defaultRequired: form.defaultRequired || false,
+    // Quiz settings
+    isQuiz: form.isQuiz || false,
+    showCorrectAnswers: form.showCorrectAnswers ?? true,
+    releaseGrades: form.releaseGrades ?? true,
+    // Response editing settings
+    allowResponseEditing: form.allowResponseEditing || false,
+    editTimeLimit: form.editTimeLimit || '24h',
+    // Theme settings
+    themeColor: form.themeColor || '#4285F4',
+    themeBackground: form.themeBackground || 'rgba(66, 133, 244, 0.1)'
+  });
+
   // Fetch form data function
   const fetchFormData = async (shouldUpdateOriginal = true) => {
     try {
@@ -682,24 +842,7 @@ export default function Form() {
         }
         
         // Load form settings from the fetched data
-        const loadedSettings = {
-          shuffleQuestions: data.form.shuffleQuestions || false,
-          collectEmail: data.form.collectEmail || false,
-          allowMultipleResponses: data.form.allowMultipleResponses ?? true,
-          showProgress: data.form.showProgress ?? true,
-          confirmationMessage: data.form.confirmationMessage || 'Your response has been recorded.',
-          defaultRequired: data.form.defaultRequired || false,
-          // Quiz settings
-          isQuiz: data.form.isQuiz || false,
-          showCorrectAnswers: data.form.showCorrectAnswers ?? true,
-          releaseGrades: data.form.releaseGrades ?? true,
-          // Response editing settings
-          allowResponseEditing: data.form.allowResponseEditing || false,
-          editTimeLimit: data.form.editTimeLimit || '24h',
-          // Theme settings
-          themeColor: data.form.themeColor || '#4285F4',
-          themeBackground: data.form.themeBackground || 'rgba(66, 133, 244, 0.1)'
-        };
+        const loadedSettings = settingsFromForm(data.form);
         if (process.env.NODE_ENV === 'development') console.log('🎨 LOADED THEME SETTINGS:', { 
           themeColor: loadedSettings.themeColor, 
           themeBackground: loadedSettings.themeBackground 
@@ -1089,11 +1232,14 @@ export default function Form() {
       // Process sections to filter out temporary IDs and structure data properly
       const processedSections = (formData.sections || []).map(section => ({
         id: section.id && !section.id.startsWith('temp_') ? section.id : undefined, // Remove temp IDs
+        clientId: section.id, // Lets the API resolve branch targets that point at new sections
         title: section.title || 'Untitled Section',
         description: section.description || null,
         order: section.order,
+        nextSection: section.nextSection || null,
         questions: (section.questions || []).map((q: any) => ({
           id: q.id && !q.id.startsWith('temp_') ? q.id : undefined, // Remove temp IDs
+          clientId: q.id, // Lets the API resolve visibility rules that point at new questions
           text: q.text,
           description: q.description,
           type: q.type,
@@ -1101,13 +1247,39 @@ export default function Form() {
           options: (q.options || []).map((opt: any) => ({
             id: opt.id && !opt.id.startsWith('temp_') ? opt.id : undefined, // Remove temp IDs
             text: opt.text,
-            imageUrl: opt.imageUrl || null
+            imageUrl: opt.imageUrl || null,
+            goToSection: opt.goToSection || null,
+            capacity: opt.capacity ?? null
           })),
           shuffleOptionsOrder: q.shuffleOptionsOrder || false,
+          hasOtherOption: q.hasOtherOption || false,
+          minSelections: q.minSelections ?? null,
+          maxSelections: q.maxSelections ?? null,
           imageUrl: q.imageUrl || null,
           // Quiz fields
           points: q.points || 1,
-          correctAnswers: q.correctAnswers || []
+          correctAnswers: q.correctAnswers || [],
+          // Conditional logic
+          visibilityRules: q.visibilityRules || null,
+          // Response validation
+          textValidation: q.textValidation || null,
+          // Linear scale settings
+          scaleMin: q.scaleMin,
+          scaleMax: q.scaleMax,
+          scaleMinLabel: q.scaleMinLabel,
+          scaleMaxLabel: q.scaleMaxLabel,
+          // Grid settings
+          gridRows: q.gridRows || [],
+          gridColumns: q.gridColumns || [],
+          requireEachRow: q.requireEachRow || false,
+          // Date / time settings
+          dateMin: q.dateMin || null,
+          dateMax: q.dateMax || null,
+          includeYear: q.includeYear ?? true,
+          // File upload settings
+          allowedFileTypes: q.allowedFileTypes || [],
+          maxFiles: q.maxFiles,
+          maxFileSize: q.maxFileSize
         }))
       }));
       
@@ -1119,6 +1291,7 @@ export default function Form() {
         // Legacy support - also include flattened questions
         questions: allQuestions.map((q: any) => ({
           id: q.id && !q.id.startsWith('temp_') ? q.id : undefined, // Remove temp IDs
+          clientId: q.id,
           question: q.text, // API expects 'question' field
           text: q.text, // Also send as 'text' for compatibility
           description: q.description, // Add description to the payload
@@ -1127,13 +1300,39 @@ export default function Form() {
           options: (q.options || []).map((opt: any) => ({
             id: opt.id && !opt.id.startsWith('temp_') ? opt.id : undefined, // Remove temp IDs
             text: opt.text,
-            imageUrl: opt.imageUrl || null
+            imageUrl: opt.imageUrl || null,
+            goToSection: opt.goToSection || null,
+            capacity: opt.capacity ?? null
           })),
           shuffleOptionsOrder: q.shuffleOptionsOrder || false,
+          hasOtherOption: q.hasOtherOption || false,
+          minSelections: q.minSelections ?? null,
+          maxSelections: q.maxSelections ?? null,
           imageUrl: q.imageUrl, // Add image URL to the payload
           // Quiz fields
           points: q.points || 1,
-          correctAnswers: q.correctAnswers || []
+          correctAnswers: q.correctAnswers || [],
+          // Conditional logic
+          visibilityRules: q.visibilityRules || null,
+          // Response validation
+          textValidation: q.textValidation || null,
+          // Linear scale settings
+          scaleMin: q.scaleMin,
+          scaleMax: q.scaleMax,
+          scaleMinLabel: q.scaleMinLabel,
+          scaleMaxLabel: q.scaleMaxLabel,
+          // Grid settings
+          gridRows: q.gridRows || [],
+          gridColumns: q.gridColumns || [],
+          requireEachRow: q.requireEachRow || false,
+          // Date / time settings
+          dateMin: q.dateMin || null,
+          dateMax: q.dateMax || null,
+          includeYear: q.includeYear ?? true,
+          // File upload settings
+          allowedFileTypes: q.allowedFileTypes || [],
+          maxFiles: q.maxFiles,
+          maxFileSize: q.maxFileSize
         })),
         settings: validateSettings(formSettings)
       };
@@ -1279,6 +1478,10 @@ export default function Form() {
         navbarEvents.emit('formStatusUpdate', {
           published: newPublishedStatus,
           acceptingResponses: formData.acceptingResponses,
+          opensAt: originalSettings.opensAt,
+          closesAt: originalSettings.closesAt,
+          maxResponses: originalSettings.maxResponses,
+          responseCount,
           formId: formData.id || formId, // Use formId from URL if formData.id is empty
           title: formData.title
         });
@@ -1324,6 +1527,10 @@ export default function Form() {
         navbarEvents.emit('formStatusUpdate', {
           published: formData.published,
           acceptingResponses: newAcceptingStatus,
+          opensAt: originalSettings.opensAt,
+          closesAt: originalSettings.closesAt,
+          maxResponses: originalSettings.maxResponses,
+          responseCount,
           formId: formData.id || formId,
           title: formData.title
         });
@@ -1338,6 +1545,30 @@ export default function Form() {
     }
   };
 
+  // Load an older revision as an unsaved draft - it only replaces the form once saved
+  const handleRestoreRevision = async (revisionId: string) => {
+    if (hasUnsavedChanges() && !confirm('Restoring this version will discard your unsaved changes. Continue?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/forms/${formId}/revisions/${revisionId}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setFormData(data.form);
+        setFormSettings(settingsFromForm(data.form));
+        setShowVersionHistory(false);
+        setActiveTab('questions');
+        alert('Version restored as a draft. Save the form to keep it.');
+      } else {
+        alert(data.error || 'Failed to restore version');
+      }
+    } catch (error) {
+      alert('Failed to restore version');
+    }
+  };
+
   // Response functions
   const handleTabChange = (tab: 'questions' | 'responses' | 'settings') => {
     setActiveTab(tab);
@@ -1357,6 +1588,51 @@ export default function Form() {
   };
 
   const renderAnswer = (answer: Answer) => {
+    // File uploads - download links, served only to the form owner
+    if (answer.files && answer.files.length > 0) {
+      return (
+        <ul className="space-y-1">
+          {answer.files.map(file => (
+            <li key={file.id}>
+              <a
+                href={`/api/forms/${formId}/files/${file.id}`}
+                download={file.fileName}
+                className="text-blue-600 hover:underline break-all"
+              >
+                {file.fileName}
+              </a>
+              <span className="ml-2 text-gray-500">{formatFileSize(file.size)}</span>
+            </li>
+          ))}
+        </ul>
+      );
+    }
+
+    // Grids - one "row: column" entry per answered row, in the question's row order
+    if (answer.gridAnswers) {
+      const question = getAllQuestions(formData.sections || []).find(q => q.id === answer.questionId);
+      return formatGridAnswer(answer.gridAnswers, question?.gridRows).join('; ');
+    }
+
+    // Linear scale - show the value against the scale, with the endpoint label if it has one
+    if (answer.questionType === 'LINEAR_SCALE' && answer.answerText) {
+      const question = getAllQuestions(formData.sections || []).find(q => q.id === answer.questionId);
+      const { min, max } = getScaleBounds(question || {});
+      const value = parseInt(answer.answerText, 10);
+      const label = value === min ? question?.scaleMinLabel : value === max ? question?.scaleMaxLabel : null;
+      return `${answer.answerText} / ${max}${label ? ` (${label})` : ''}`;
+    }
+
+    // Dates and times - stored as ISO values, shown in a readable format
+    if (isDateType(answer.questionType) && answer.answerText) {
+      return formatDateAnswer({ type: answer.questionType }, answer.answerText);
+    }
+
+    // "Other" text is listed after the regular choices
+    if (answer.otherText) {
+      return [...(answer.selectedOptions || []), `Other: ${answer.otherText}`].join(', ');
+    }
+
     if (answer.selectedOptions && answer.selectedOptions.length > 0) {
       return answer.selectedOptions.join(', ');
     }
@@ -1382,6 +1658,9 @@ export default function Form() {
     );
   }
 
+  // Open, scheduled, closed or full according to the saved schedule and response limit
+  const scheduleStatus = getResponseStatus({ ...originalSettings, acceptingResponses: formData.acceptingResponses, responseCount });
+
   return (
     <div 
       className="min-h-screen" 
@@ -1435,12 +1714,27 @@ export default function Form() {
               </button>
             </div>
             
-            {/* Total Points Display */}
-            {formSettings.isQuiz && getAllQuestions(formData.sections || []).length > 0 && (
-              <div className="text-xs sm:text-sm text-gray-600 px-3 sm:px-4 lg:px-6 whitespace-nowrap">
-                Total points: {getAllQuestions(formData.sections || []).reduce((total: number, q: any) => total + (q.points || 1), 0)}
-              </div>
-            )}
+            <div className="flex items-center">
+              {/* Total Points Display */}
+              {formSettings.isQuiz && getAllQuestions(formData.sections || []).length > 0 && (
+                <div className="text-xs sm:text-sm text-gray-600 px-3 sm:px-4 lg:px-6 whitespace-nowrap">
+                  Total points: {getAllQuestions(formData.sections || []).reduce((total: number, q: any) => total + (q.points || 1), 0)}
+                </div>
+              )}
+
+              {isExistingForm && (
+                <button
+                  onClick={() => setShowVersionHistory(true)}
+                  className="px-3 sm:px-4 lg:px-6 py-3 sm:py-4 text-xs sm:text-sm font-semibold text-gray-500 hover:text-gray-700 transition-colors flex items-center gap-1.5 sm:gap-2 whitespace-nowrap"
+                  title="Version history"
+                >
+                  <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  History
+                </button>
+              )}
+            </div>
           </div>
         </div>
 
@@ -1592,6 +1886,31 @@ export default function Form() {
                               style={{ minHeight: '24px' }}
                             />
                           </div>
+
+                          {/* After this section - default branch when no answer picks a section */}
+                          <div className="mt-3 pt-3 border-t border-gray-100 flex flex-col sm:flex-row sm:items-center gap-2 px-2 sm:px-3">
+                            <span className="text-xs sm:text-sm text-gray-600">After section {sectionIndex + 1}</span>
+                            <select
+                              value={section.nextSection || ''}
+                              onChange={(e) => {
+                                const updatedSections = formData.sections.map((sec, idx) => 
+                                  idx === sectionIndex 
+                                    ? { ...sec, nextSection: e.target.value || null }
+                                    : sec
+                                );
+                                setFormData({ ...formData, sections: updatedSections });
+                              }}
+                              className="text-xs sm:text-sm text-gray-700 border border-gray-300 rounded-md bg-white px-2 py-1 outline-none focus:border-blue-500"
+                            >
+                              <option value="">Continue to next section</option>
+                              {formData.sections.map((sec, idx) => (
+                                <option key={sec.id} value={sec.id}>
+                                  Go to section {idx + 1}{sec.title ? ` (${sec.title})` : ''}
+                                </option>
+                              ))}
+                              <option value={SUBMIT_SECTION}>Submit form</option>
+                            </select>
+                          </div>
                         </div>
                       </div>
                     )}
@@ -1607,11 +1926,36 @@ export default function Form() {
                         initialRequired={question.required}
                         initialOptions={question.options || []}
                         initialShuffleOptionsOrder={question.shuffleOptionsOrder || false}
+                        initialHasOtherOption={question.hasOtherOption || false}
+                        initialMinSelections={question.minSelections ?? null}
+                        initialMaxSelections={question.maxSelections ?? null}
                         initialImageUrl={question.imageUrl || ""}
                         // Quiz props
                         isQuiz={formSettings.isQuiz}
                         initialPoints={question.points || 1}
                         initialCorrectAnswers={question.correctAnswers || []}
+                        // Conditional logic props
+                        initialVisibilityRules={question.visibilityRules || null}
+                        initialTextValidation={question.textValidation || null}
+                        // Linear scale props
+                        initialScaleMin={question.scaleMin ?? undefined}
+                        initialScaleMax={question.scaleMax ?? undefined}
+                        initialScaleMinLabel={question.scaleMinLabel || ""}
+                        initialScaleMaxLabel={question.scaleMaxLabel || ""}
+                        // Grid props
+                        initialGridRows={question.gridRows || []}
+                        initialGridColumns={question.gridColumns || []}
+                        initialRequireEachRow={question.requireEachRow || false}
+                        // Date / time props
+                        initialDateMin={question.dateMin || ""}
+                        initialDateMax={question.dateMax || ""}
+                        initialIncludeYear={question.includeYear ?? true}
+                        // File upload props
+                        initialAllowedFileTypes={question.allowedFileTypes || []}
+                        initialMaxFiles={question.maxFiles ?? undefined}
+                        initialMaxFileSize={question.maxFileSize ?? undefined}
+                        ruleSourceQuestions={getRuleSourceQuestions(question.id)}
+                        sectionTargets={formData.sections.map(sec => ({ id: sec.id, title: sec.title }))}
                         // Theme prop
                         themeColor={formSettings.themeColor}
                         onDelete={() => deleteQuestion(question.id)}
@@ -1630,15 +1974,41 @@ export default function Form() {
                                     type: data.type,
                                     required: data.required,
                                     shuffleOptionsOrder: data.shuffleOptionsOrder,
+                                    hasOtherOption: data.hasOtherOption,
+                                    minSelections: data.minSelections,
+                                    maxSelections: data.maxSelections,
                                     imageUrl: data.imageUrl,
                                     options: data.options.map((opt: any, idx: number) => ({
                                       id: question.options[idx]?.id || `temp_${Date.now()}_${idx}`,
                                       text: opt.text,
-                                      imageUrl: opt.imageUrl
+                                      imageUrl: opt.imageUrl,
+                                      goToSection: opt.goToSection,
+                                      capacity: opt.capacity
                                     })),
                                     // Quiz fields
                                     points: data.points,
-                                    correctAnswers: data.correctAnswers
+                                    correctAnswers: data.correctAnswers,
+                                    // Conditional logic
+                                    visibilityRules: data.visibilityRules,
+                                    // Response validation
+                                    textValidation: data.textValidation,
+                                    // Linear scale settings
+                                    scaleMin: data.scaleMin,
+                                    scaleMax: data.scaleMax,
+                                    scaleMinLabel: data.scaleMinLabel,
+                                    scaleMaxLabel: data.scaleMaxLabel,
+                                    // Grid settings
+                                    gridRows: data.gridRows,
+                                    gridColumns: data.gridColumns,
+                                    requireEachRow: data.requireEachRow,
+                                    // Date / time settings
+                                    dateMin: data.dateMin,
+                                    dateMax: data.dateMax,
+                                    includeYear: data.includeYear,
+                                    // File upload settings
+                                    allowedFileTypes: data.allowedFileTypes,
+                                    maxFiles: data.maxFiles,
+                                    maxFileSize: data.maxFileSize
                                   }
                                 : q
                             )
@@ -1750,6 +2120,18 @@ export default function Form() {
                     }`}>
                       {formData.acceptingResponses ? 'On' : 'Off'}
                     </span>
+                    {/* The saved schedule and response limit can still keep the form closed while the toggle is on */}
+                    {formData.acceptingResponses && scheduleStatus === 'scheduled' && (
+                      <span className="text-xs sm:text-sm text-amber-600">· Opens {formatScheduleDate(originalSettings.opensAt)}</span>
+                    )}
+                    {formData.acceptingResponses && scheduleStatus === 'full' && (
+                      <span className="text-xs sm:text-sm text-rose-600">· Full</span>
+                    )}
+                    {formData.acceptingResponses && originalSettings.closesAt && (scheduleStatus === 'open' || scheduleStatus === 'closed') && (
+                      <span className="text-xs sm:text-sm text-gray-500">
+                        · {scheduleStatus === 'closed' ? 'Closed' : 'Closes'} {formatScheduleDate(originalSettings.closesAt)}
+                      </span>
+                    )}
                   </div>
                 )}
                 
@@ -1763,7 +2145,9 @@ export default function Form() {
                       )}
                     </div>
                     <div className="text-sm sm:text-base lg:text-lg font-medium text-gray-700 truncate">
-                      Response{responseCount === 1 ? '' : 's'}
+                      {originalSettings.maxResponses !== null
+                        ? `of ${originalSettings.maxResponses} response${originalSettings.maxResponses === 1 ? '' : 's'}`
+                        : `Response${responseCount === 1 ? '' : 's'}`}
                     </div>
                   </div>
                   
@@ -1825,6 +2209,16 @@ export default function Form() {
                     </div>
                   )}
                 </div>
+
+                {/* Progress toward the response limit */}
+                {originalSettings.maxResponses !== null && (
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full transition-all ${scheduleStatus === 'full' ? 'bg-rose-500' : 'bg-blue-600'}`}
+                      style={{ width: `${Math.min(100, (responseCount / originalSettings.maxResponses) * 100)}%` }}
+                    />
+                  </div>
+                )}
               </div>
             </div>
 
@@ -2264,6 +2658,183 @@ export default function Form() {
                     </button>
                   </div>
 
+                  {/* One response per account - only when multiple responses are off */}
+                  {!formSettings.allowMultipleResponses && (
+                    <div className="flex items-start sm:items-center justify-between gap-3">
+                      <div className="flex-1 min-w-0 pr-2">
+                        <label className="text-xs sm:text-sm font-medium text-gray-700">Limit to 1 Response per Account</label>
+                        <p className="text-xs sm:text-sm text-gray-500 mt-0.5 sm:mt-1">
+                          Respondents must sign in, so clearing the browser doesn&apos;t let them respond again
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => setFormSettings(prev => ({ ...prev, oneResponsePerAccount: !prev.oneResponsePerAccount }))}
+                        className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+                          formSettings.oneResponsePerAccount ? 'bg-blue-600' : 'bg-gray-300'
+                        }`}
+                      >
+                        <span
+                          className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                            formSettings.oneResponsePerAccount ? 'translate-x-6' : 'translate-x-1'
+                          }`}
+                        />
+                      </button>
+                    </div>
+                  )}
+
+                  {/* Require sign-in */}
+                  <div className="flex items-start sm:items-center justify-between gap-3">
+                    <div className="flex-1 min-w-0 pr-2">
+                      <label className="text-xs sm:text-sm font-medium text-gray-700">Require Sign-in</label>
+                      <p className="text-xs sm:text-sm text-gray-500 mt-0.5 sm:mt-1">
+                        Only signed-in users can respond
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setFormSettings(prev => ({ ...prev, requireSignIn: !prev.requireSignIn }))}
+                      className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+                        formSettings.requireSignIn ? 'bg-blue-600' : 'bg-gray-300'
+                      }`}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          formSettings.requireSignIn ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  </div>
+
+                  {/* Allowed respondents - checked against the signed-in user's verified emails */}
+                  {formSettings.requireSignIn && (
+                    <div>
+                      <label className="text-xs sm:text-sm font-medium text-gray-700">Allowed Emails or Domains</label>
+                      <p className="text-xs sm:text-sm text-gray-500 mt-0.5 sm:mt-1 mb-2">
+                        One per line, e.g. example.com or jane@example.com. Leave empty to allow anyone who signs in.
+                      </p>
+                      <textarea
+                        value={formSettings.allowedRespondents.join('\n')}
+                        onChange={(e) => setFormSettings(prev => ({ ...prev, allowedRespondents: e.target.value.split('\n') }))}
+                        className="w-full px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                        rows={3}
+                        placeholder="example.com"
+                      />
+                    </div>
+                  )}
+
+                  {/* Password protection */}
+                  <div className="flex items-start sm:items-center justify-between gap-3">
+                    <div className="flex-1 min-w-0 pr-2">
+                      <label className="text-xs sm:text-sm font-medium text-gray-700">Password Protection</label>
+                      <p className="text-xs sm:text-sm text-gray-500 mt-0.5 sm:mt-1">
+                        Respondents enter a password before they can see the form
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setFormSettings(prev => ({ ...prev, passwordProtected: !prev.passwordProtected }))}
+                      className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+                        formSettings.passwordProtected ? 'bg-blue-600' : 'bg-gray-300'
+                      }`}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          formSettings.passwordProtected ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  </div>
+
+                  {formSettings.passwordProtected && (
+                    <div>
+                      <input
+                        type="password"
+                        value={formSettings.accessPassword}
+                        onChange={(e) => setFormSettings(prev => ({ ...prev, accessPassword: e.target.value }))}
+                        className="w-full px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                        placeholder={originalSettings.passwordProtected ? 'Enter a new password' : 'Password'}
+                        autoComplete="new-password"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        {originalSettings.passwordProtected
+                          ? 'Leave blank to keep the current password'
+                          : 'The form stays open until a password is set'}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Schedule - entered in the browser's timezone, stored as UTC */}
+                  <div>
+                    <label className="text-xs sm:text-sm font-medium text-gray-700">Schedule</label>
+                    <p className="text-xs sm:text-sm text-gray-500 mt-0.5 sm:mt-1 mb-2">
+                      Only accept responses between these times. Leave either blank for no limit.
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Opens</label>
+                        <input
+                          type="datetime-local"
+                          value={toLocalInputValue(formSettings.opensAt)}
+                          onChange={(e) => setFormSettings(prev => ({ ...prev, opensAt: fromLocalInputValue(e.target.value) }))}
+                          className="w-full px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Closes</label>
+                        <input
+                          type="datetime-local"
+                          value={toLocalInputValue(formSettings.closesAt)}
+                          onChange={(e) => setFormSettings(prev => ({ ...prev, closesAt: fromLocalInputValue(e.target.value) }))}
+                          className="w-full px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                        />
+                      </div>
+                    </div>
+                    {formSettings.opensAt && formSettings.closesAt && formSettings.closesAt <= formSettings.opensAt && (
+                      <p className="text-xs text-red-600 mt-1">The close time should be after the open time</p>
+                    )}
+                  </div>
+
+                  {/* Response limit - e.g. a fixed number of seats */}
+                  <div>
+                    <label className="text-xs sm:text-sm font-medium text-gray-700">Response Limit</label>
+                    <p className="text-xs sm:text-sm text-gray-500 mt-0.5 sm:mt-1 mb-2">
+                      Stop accepting responses after this many. Leave blank for no limit.
+                    </p>
+                    <input
+                      type="number"
+                      min={1}
+                      value={formSettings.maxResponses ?? ''}
+                      onChange={(e) => setFormSettings(prev => ({ ...prev, maxResponses: parseMaxResponses(e.target.value) }))}
+                      className="w-full sm:w-40 px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                      placeholder="No limit"
+                    />
+                    {formSettings.maxResponses !== null && (
+                      <div className="mt-3">
+                        <label className="block text-xs text-gray-500 mb-1">Message when the form is full</label>
+                        <textarea
+                          value={formSettings.fullMessage}
+                          onChange={(e) => setFormSettings(prev => ({ ...prev, fullMessage: e.target.value }))}
+                          className="w-full px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                          rows={2}
+                          placeholder={DEFAULT_FULL_MESSAGE}
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Closed message - shown once the form stops accepting responses */}
+                  <div>
+                    <label className="text-xs sm:text-sm font-medium text-gray-700">Closed Message</label>
+                    <p className="text-xs sm:text-sm text-gray-500 mt-0.5 sm:mt-1 mb-2">
+                      Shown to respondents when the form is closed. Leave blank for the default message.
+                    </p>
+                    <RichTextEditor
+                      value={formSettings.closedMessage}
+                      onChange={(value) => setFormSettings(prev => ({ ...prev, closedMessage: value }))}
+                      placeholder="This form is no longer accepting responses"
+                      className="w-full border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                      style={{ minHeight: '60px', padding: '8px 12px' }}
+                    />
+                  </div>
+
                   {/* Response Editing - Only show if NOT a quiz */}
                   {!formSettings.isQuiz && (
                     <>
@@ -2482,6 +3053,13 @@ export default function Form() {
 
       </div>
 
+      <VersionHistoryModal
+        isOpen={showVersionHistory}
+        formId={formId}
+        onClose={() => setShowVersionHistory(false)}
+        onRestore={handleRestoreRevision}
+      />
+
       {/* Delete Section Confirmation Dialog */}
       {showDeleteDialog && sectionToDelete && (
         <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-50 transition-all duration-200 px-4">
@@ -4,27 +4,69 @@ import { useState, useEffect } from 'react';
 import { useParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import FormClosedPage from '@/components/FormClosedPage';
+import LinearScaleInput from '@/components/LinearScaleInput';
+import GridInput from '@/components/GridInput';
+import DateInput from '@/components/DateInput';
+import FileUploadInput from '@/components/FileUploadInput';
+import OtherOptionInput from '@/components/OtherOptionInput';
 import { formatTimeRemaining } from '@/lib/editToken';
+import { useConditionalLogic } from '@/hooks/useConditionalLogic';
+import { getActiveQuestions, getNextSectionId, getSectionPath, sortSections } from '@/utils/sectionBranching';
+import { hasAnswer } from '@/utils/conditionalLogic';
+import { getMissingGridRows, isGridType } from '@/utils/gridQuestions';
+import { isDateType, validateDateAnswer } from '@/utils/dateQuestions';
+import { cleanOtherAnswer, formatChoice, getOtherValue } from '@/utils/otherOption';
+import { validateTextAnswer } from '@/utils/textValidation';
+import { describeSelectionLimits, getSelectionLimits, validateSelectionCount } from '@/utils/selectionLimits';
+import { getResponseStatus, type ResponseStatus } from '@/utils/formSchedule';
+import { describeRemaining } from '@/utils/optionCapacity';
+import type { AnswerValue, FormResponses, TextValidation, VisibilityRules } from '@/types/form';
 
 
 interface Option {
   id: string;
   text: string;
   imageUrl?: string;
+  goToSection?: string | null; // Section branching target
+  remaining?: number | null;   // Seats left on a limited option - null for unlimited
 }
 
 interface Question {
   id: string;
   text: string;
   description?: string; // Add description field for helper text
-  type: 'SHORT_ANSWER' | 'PARAGRAPH' | 'MULTIPLE_CHOICE' | 'CHECKBOXES' | 'DROPDOWN';
+  type: 'SHORT_ANSWER' | 'PARAGRAPH' | 'MULTIPLE_CHOICE' | 'CHECKBOXES' | 'DROPDOWN' | 'LINEAR_SCALE' | 'MC_GRID' | 'CHECKBOX_GRID' | 'DATE' | 'TIME' | 'DATETIME' | 'FILE_UPLOAD';
   required: boolean;
   options: Option[];
   shuffleOptionsOrder?: boolean;
+  hasOtherOption?: boolean;
+  minSelections?: number | null;
+  maxSelections?: number | null;
   imageUrl?: string; // Add image URL field
   // Quiz fields
   points?: number;
-  correctAnswers?: string[];
+  // Linear scale settings
+  scaleMin?: number | null;
+  scaleMax?: number | null;
+  scaleMinLabel?: string | null;
+  scaleMaxLabel?: string | null;
+  // Grid settings
+  gridRows?: string[];
+  gridColumns?: string[];
+  requireEachRow?: boolean;
+  // Date / time settings
+  dateMin?: string | null;
+  dateMax?: string | null;
+  includeYear?: boolean;
+  // File upload settings
+  allowedFileTypes?: string[];
+  maxFiles?: number | null;
+  maxFileSize?: number | null;
+  // Response validation
+  textValidation?: TextValidation | null;
+  // Conditional logic
+  visibilityRules?: VisibilityRules | null;
 }
 
 interface Section {
@@ -32,6 +74,7 @@ interface Section {
   title: string;
   description?: string;
   order: number;
+  nextSection?: string | null; // Where to go after this section (section ID or SUBMIT)
   questions: Question[];
 }
 
@@ -40,9 +83,16 @@ interface FormData {
   title: string;
   description: string;
   acceptingResponses: boolean;
+  opensAt?: string | null;
+  closesAt?: string | null;
+  responseStatus?: ResponseStatus;  // Worked out by the server from acceptingResponses, the schedule and the response limit
+  fullMessage?: string;             // Shown once the response limit is reached
+  closedMessage?: string | null;    // Owner's rich text for the closed page - null for the default message
   shuffleQuestions?: boolean;
   collectEmail?: boolean;
   allowMultipleResponses?: boolean;
+  oneResponsePerAccount?: boolean;  // Respondents sign in and each account responds once
+  hasResponded?: boolean;           // Server-side check for forms that don't allow multiple responses
   showProgress?: boolean;
   confirmationMessage?: string;
   // Quiz fields
@@ -55,10 +105,6 @@ interface FormData {
   sections: Section[];
 }
 
-// Response data type
-interface FormResponse {
-  [questionId: string]: string | string[]; // string for single answer, string[] for checkboxes
-}
 
 // Helper function to get all questions from sections
 const getAllQuestionsFromSections = (sections: Section[]): Question[] => {
@@ -73,9 +119,17 @@ export default function PublicFormView() {
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
-  const [responses, setResponses] = useState<FormResponse>({});
+  const [responses, setResponses] = useState<FormResponses>({});
   const [errors, setErrors] = useState<{[key: string]: string}>({});
   const [notFound, setNotFound] = useState(false);
+  // Set when the form requires sign-in or the signed-in user isn't on its allowlist
+  const [accessDenied, setAccessDenied] = useState<'sign_in' | 'denied' | 'password' | null>(null);
+
+  // Password prompt for password-protected forms - only the title is known until it's unlocked
+  const [lockedFormTitle, setLockedFormTitle] = useState('');
+  const [accessPassword, setAccessPassword] = useState('');
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
   const [email, setEmail] = useState('');
   const [hasSubmittedBefore, setHasSubmittedBefore] = useState(false);
   
@@ -84,7 +138,7 @@ export default function PublicFormView() {
     totalScore: number;
     maxScore: number;
     percentage: number;
-    results: { [questionId: string]: { isCorrect: boolean; pointsEarned: number } };
+    results: { [questionId: string]: { isCorrect: boolean; pointsEarned: number; correctAnswers?: string[] } };
   } | null>(null);
 
   // Check if this is preview mode
@@ -92,6 +146,11 @@ export default function PublicFormView() {
   
   // Shuffled questions for randomization
   const [shuffledQuestions, setShuffledQuestions] = useState<any[]>([]);
+
+  // Questions in authored order - conditional rules are evaluated in this order
+  const [orderedQuestions, setOrderedQuestions] = useState<Question[]>([]);
+  const [orderedSections, setOrderedSections] = useState<Section[]>([]);
+  const { isQuestionVisible } = useConditionalLogic(orderedQuestions, responses);
   
   // Custom confirmation message from form settings
   const [confirmationMessage, setConfirmationMessage] = useState('Your response has been recorded.');
@@ -103,10 +162,6 @@ export default function PublicFormView() {
 
   // 🆕 Section Navigation States (Safe Addition - No Impact on Existing Code)
   const [currentSectionIndex, setCurrentSectionIndex] = useState(0);
-  const [sectionProgress, setSectionProgress] = useState({
-    current: 1,
-    total: 0
-  });
 
   // 🆕 Section Navigation Helper Functions (Safe - Inside Component)
   const getCurrentSection = (): Section | null => {
@@ -114,32 +169,55 @@ export default function PublicFormView() {
     return formData.sections[currentSectionIndex] || null;
   };
 
-  const isFirstSection = currentSectionIndex === 0;
-  const isLastSection = formData ? currentSectionIndex === (formData.sections.length - 1) : false;
+  // Sections visited before the current one - Back retraces this path
+  const [sectionHistory, setSectionHistory] = useState<string[]>([]);
+
+  // Branching follows the respondent's answers (unshuffled order, hidden questions ignored)
+  const getBranchingResponses = () => getActiveQuestions(orderedSections, responses).responses;
+
+  const getNextSection = (): string | null => {
+    const currentSection = getCurrentSection();
+    if (!currentSection) return null;
+
+    const nextSectionId = getNextSectionId(orderedSections, currentSection.id, getBranchingResponses());
+    // A branch back to a section already visited ends the form
+    return nextSectionId && !sectionHistory.includes(nextSectionId) ? nextSectionId : null;
+  };
+
+  // Full path for this respondent - sections visited so far plus where their answers lead
+  const getBranchPath = (): string[] => {
+    const currentSection = getCurrentSection();
+    if (!currentSection) return [];
+
+    const remaining = getSectionPath(orderedSections, getBranchingResponses(), currentSection.id);
+    const loopIndex = remaining.findIndex(id => sectionHistory.includes(id));
+    return [...sectionHistory, ...(loopIndex === -1 ? remaining : remaining.slice(0, loopIndex))];
+  };
+
+  const isFirstSection = sectionHistory.length === 0;
+  const isLastSection = formData ? getNextSection() === null : false;
 
   const goToNextSection = () => {
-    if (formData && currentSectionIndex < formData.sections.length - 1) {
-      setCurrentSectionIndex(prev => prev + 1);
-      updateProgress(currentSectionIndex + 2, formData.sections.length);
-    }
+    const currentSection = getCurrentSection();
+    const nextSectionId = getNextSection();
+    if (!formData || !currentSection || !nextSectionId) return;
+
+    setSectionHistory(prev => [...prev, currentSection.id]);
+    setCurrentSectionIndex(formData.sections.findIndex(section => section.id === nextSectionId));
   };
 
   const goToPreviousSection = () => {
-    if (currentSectionIndex > 0) {
-      setCurrentSectionIndex(prev => prev - 1);
-      if (formData) {
-        updateProgress(currentSectionIndex, formData.sections.length);
-      }
-    }
-  };
+    if (!formData || sectionHistory.length === 0) return;
 
-  const updateProgress = (current: number, total: number) => {
-    setSectionProgress({ current, total });
+    const previousSectionId = sectionHistory[sectionHistory.length - 1];
+    setSectionHistory(prev => prev.slice(0, -1));
+    setCurrentSectionIndex(formData.sections.findIndex(section => section.id === previousSectionId));
   };
 
   const getProgressPercentage = () => {
-    if (!formData?.sections.length) return 0;
-    return Math.round(((currentSectionIndex + 1) / formData.sections.length) * 100);
+    const path = getBranchPath();
+    if (!path.length) return 0;
+    return Math.round(((sectionHistory.length + 1) / path.length) * 100);
   };
 
   const shouldUseSectionView = () => {
@@ -168,174 +246,14 @@ export default function PublicFormView() {
     }
   };
 
-  // Smart text scoring function
-  const calculateTextScore = (userAnswer: string, correctAnswers: string[], maxPoints: number, questionType: string) => {
-    if (!userAnswer || !correctAnswers.length) {
-      return { points: 0, percentage: 0 };
-    }
-
-    const userText = userAnswer.toLowerCase().trim().replace(/\s+/g, ' ');
-    let bestMatch = 0;
-
-    for (const correctAnswer of correctAnswers) {
-      const correctText = correctAnswer.toLowerCase().trim().replace(/\s+/g, ' ');
-      
-      // Remove common punctuation for comparison
-      const cleanUser = userText.replace(/[.,!?;:"'\-()]/g, ' ').replace(/\s+/g, ' ').trim();
-      const cleanCorrect = correctText.replace(/[.,!?;:"'\-()]/g, ' ').replace(/\s+/g, ' ').trim();
-      
-      let matchPercentage = 0;
-      
-      // Exact match (100%)
-      if (cleanUser === cleanCorrect) {
-        matchPercentage = 100;
-      } else {
-        // Word-based matching for partial credit
-        let userWords = cleanUser.split(' ').filter(w => w.length > 1);
-        let correctWords = cleanCorrect.split(' ').filter(w => w.length > 1);
-        
-        if (correctWords.length === 0) continue;
-        
-        // Remove common question words that don't affect the core answer
-        const questionWords = ['what', 'is', 'are', 'define', 'explain', 'describe', 'how', 'why', 'when', 'where', 'which', 'who'];
-        const filteredCorrectWords = correctWords.filter(word => !questionWords.includes(word.toLowerCase()));
-        
-        // If we removed question words, use filtered list for scoring
-        const wordsToMatch = filteredCorrectWords.length > 0 ? filteredCorrectWords : correctWords;
-        
-        // Count matching words
-        const matchingWords = wordsToMatch.filter(word => 
-          userWords.some(userWord => 
-            userWord === word || 
-            (word.length > 3 && userWord.includes(word)) ||
-            (userWord.length > 3 && word.includes(userWord))
-          )
-        );
-        
-        // Calculate percentage based on matching words (using filtered words for scoring)
-        const wordMatchPercentage = (matchingWords.length / wordsToMatch.length) * 100;
-        
-        // Different scoring logic based on question type
-        if (questionType === 'SHORT_ANSWER') {
-          // SHORT_ANSWER: Strict - Must match ALL important words to get any points
-          if (matchingWords.length === wordsToMatch.length && wordsToMatch.length > 0) {
-            matchPercentage = 100; // Only give points if complete answer
-          } else {
-            matchPercentage = 0; // No partial credit for short answers
-          }
-        } else {
-          // PARAGRAPH: Flexible scoring with partial credit
-          if (wordMatchPercentage >= 80) {
-            matchPercentage = 100; // Excellent match
-          } else if (wordMatchPercentage >= 60) {
-            matchPercentage = 80; // Good match  
-          } else if (wordMatchPercentage >= 40) {
-            matchPercentage = 60; // Fair match
-          } else if (wordMatchPercentage >= 20) {
-            matchPercentage = 30; // Poor match
-          } else {
-            matchPercentage = 0; // Too few matching words
-          }
-        }
-      }
-      
-      bestMatch = Math.max(bestMatch, matchPercentage);
-    }
-    
-    // Calculate points based on percentage
-    const earnedPoints = Math.round((bestMatch / 100) * maxPoints * 100) / 100; // Round to 2 decimals
-    
-    return {
-      points: earnedPoints,
-      percentage: Math.round(bestMatch)
-    };
-  };
-
-  // Calculate quiz score
-  const calculateQuizScore = () => {
-    if (!formData?.isQuiz || !shuffledQuestions.length) return null;
-    
-    if (process.env.NODE_ENV === 'development') console.log('Calculating quiz score for questions:', shuffledQuestions);
-    if (process.env.NODE_ENV === 'development') console.log('User responses:', responses);
-    
-    let totalScore = 0;
-    let maxScore = 0;
-    const results: { [questionId: string]: { isCorrect: boolean; pointsEarned: number } } = {};
-    
-    shuffledQuestions.forEach(question => {
-      const userResponse = responses[question.id];
-      const questionPoints = question.points || 1;
-      maxScore += questionPoints;
-      
-      if (process.env.NODE_ENV === 'development') console.log(`Question ${question.id}:`, {
-        text: question.text,
-        type: question.type,
-        correctAnswers: question.correctAnswers,
-        userResponse,
-        points: questionPoints
-      });
-      
-      let isCorrect = false;
-      let pointsEarned = 0;
-      
-      if (question.type === 'MULTIPLE_CHOICE') {
-        // Single correct answer
-        isCorrect = question.correctAnswers?.includes(userResponse as string) || false;
-        pointsEarned = isCorrect ? questionPoints : 0;
-        if (process.env.NODE_ENV === 'development') console.log(`Multiple choice result: isCorrect=${isCorrect}, pointsEarned=${pointsEarned}`);
-      } else if (question.type === 'CHECKBOXES') {
-        // Multiple correct answers
-        const userAnswers = userResponse as string[] || [];
-        const correctAnswers = question.correctAnswers || [];
-        
-        // Check if user selected exactly the correct answers
-        isCorrect = userAnswers.length === correctAnswers.length && 
-                   userAnswers.every((ans: string) => correctAnswers.includes(ans)) &&
-                   correctAnswers.every((ans: string) => userAnswers.includes(ans));
-        pointsEarned = isCorrect ? questionPoints : 0;
-      } else if (question.type === 'SHORT_ANSWER' || question.type === 'PARAGRAPH') {
-        // Smart text matching with partial scoring
-        const result = calculateTextScore(userResponse as string, question.correctAnswers || [], questionPoints, question.type);
-        isCorrect = result.percentage >= 100;
-        pointsEarned = result.points;
-        if (process.env.NODE_ENV === 'development') console.log(`Text question result: ${result.percentage}% match, ${result.points}/${questionPoints} points`);
-      } else {
-        // Other question types - no scoring yet
-        isCorrect = false;
-        pointsEarned = 0;
-      }
-      
-      totalScore += pointsEarned;
-      results[question.id] = { isCorrect, pointsEarned };
-    });
-    
-    const percentage = maxScore > 0 ? Math.round((totalScore / maxScore) * 100) : 0;
-    
-    return {
-      totalScore,
-      maxScore,
-      percentage,
-      results
-    };
-  };
-
   // Calculate form completion progress
   const calculateProgress = () => {
-    if (!shuffledQuestions.length) return 0;
+    const visibleQuestions = shuffledQuestions.filter(question => isQuestionVisible(question.id));
+    if (!visibleQuestions.length) return 0;
     
-    const answeredQuestions = shuffledQuestions.filter(question => {
-      const response = responses[question.id];
-      if (!response) return false;
-      
-      if (typeof response === 'string') {
-        return response.trim() !== '';
-      } else if (Array.isArray(response)) {
-        return response.length > 0;
-      }
-      return false;
-    });
+    const answeredQuestions = visibleQuestions.filter(question => hasAnswer(responses[question.id]));
     
-    return Math.round((answeredQuestions.length / shuffledQuestions.length) * 100);
+    return Math.round((answeredQuestions.length / visibleQuestions.length) * 100);
   };
 
   // Fisher-Yates shuffle algorithm
@@ -370,10 +288,13 @@ export default function PublicFormView() {
       
       if (data.success) {
         setFormData(data.form);
-        
-        // 🆕 Initialize section progress (Safe Addition)
-        if (data.form.sections && data.form.sections.length > 0) {
-          updateProgress(1, data.form.sections.length);
+
+        // The server also recognizes earlier responses - by account when sign-in is required,
+        // where another account's submission in this browser doesn't count
+        if (data.form.oneResponsePerAccount) {
+          setHasSubmittedBefore(!!data.form.hasResponded);
+        } else if (data.form.hasResponded) {
+          setHasSubmittedBefore(true);
         }
         
         if (process.env.NODE_ENV === 'development') console.log('📋 Form loaded:', {
@@ -386,7 +307,8 @@ export default function PublicFormView() {
         // Process sections and questions.
         // - Shuffle options per-question when enabled
         // - If `shuffleQuestions` is enabled, shuffle question order WITHIN each section (preserves sections)
-        const processedSections = (data.form.sections || []).map((section: Section) => {
+        const sortedSections: Section[] = sortSections(data.form.sections || []);
+        const processedSections = sortedSections.map((section: Section) => {
           const processedQuestions = (section.questions || []).map((question: Question) => {
             // For preview mode, don't shuffle anything
             if (isPreview) return question;
@@ -432,6 +354,11 @@ export default function PublicFormView() {
 
         // Also set flattened questions used for quiz/progress logic
         setShuffledQuestions(allQuestionsFlat);
+        setOrderedQuestions(sortedSections.flatMap((s: Section) => s.questions || []));
+        setOrderedSections(sortedSections);
+      } else if (data.access) {
+        setAccessDenied(data.access);
+        setLockedFormTitle(data.form?.title || '');
       } else {
         // Form is either not published or doesn't exist
         setNotFound(true);
@@ -444,7 +371,37 @@ export default function PublicFormView() {
     }
   };
 
-  const handleInputChange = (questionId: string, value: string | string[]) => {
+  // Unlock a password-protected form, then load it
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    try {
+      const response = await fetch(`/api/forms/${formId}/password`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ password: accessPassword })
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setAccessDenied(null);
+        setAccessPassword('');
+        setLoading(true);
+        await fetchFormData(isPreviewMode);
+      } else {
+        setPasswordError(result.error || 'Incorrect password');
+      }
+    } catch (error) {
+      console.error('Error unlocking form:', error);
+      setPasswordError('Something went wrong. Please try again.');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleInputChange = (questionId: string, value: AnswerValue) => {
     setResponses(prev => ({
       ...prev,
       [questionId]: value
@@ -474,35 +431,69 @@ export default function PublicFormView() {
     
     // Check if user has provided any responses at all
     const hasAnyResponses = Object.keys(responses).length > 0 && 
-                           Object.values(responses).some(response => {
-                             if (typeof response === 'string') {
-                               return response.trim() !== '';
-                             } else if (Array.isArray(response)) {
-                               return response.length > 0;
-                             }
-                             return false;
-                           });
+                           Object.values(responses).some(hasAnswer);
 
     if (!hasAnyResponses) {
       return false;
     }
     
-    // Check required fields
+    // Check required fields - questions hidden by conditional logic or in skipped sections are ignored
+    const activeQuestionIds = new Set(getActiveQuestions(orderedSections, responses).questions.map(q => q.id));
     shuffledQuestions.forEach(question => {
-      if (question.required) {
+      if (question.required && activeQuestionIds.has(question.id)) {
         const response = responses[question.id];
-        if (!response || 
-            (typeof response === 'string' && response.trim() === '') ||
-            (Array.isArray(response) && response.length === 0)) {
+        if (isGridType(question.type)) {
+          // Grids are answered per row
+          if (getMissingGridRows(question, response).length > 0) {
+            newErrors[question.id] = question.requireEachRow ? 'This question requires one response per row' : 'This field is required';
+          }
+        } else if (!hasAnswer(cleanOtherAnswer(question, response))) {
+          // An "Other" pick with nothing typed doesn't count
           newErrors[question.id] = 'This field is required';
         }
       }
+
+      // Dates and times must be valid and within the question's range, even when optional
+      if (isDateType(question.type) && activeQuestionIds.has(question.id) && !newErrors[question.id]) {
+        const dateError = validateDateAnswer(question, responses[question.id]);
+        if (dateError) newErrors[question.id] = dateError;
+      }
+
+      // Checkboxes must select an allowed number of options
+      if (question.type === 'CHECKBOXES' && activeQuestionIds.has(question.id) && !newErrors[question.id]) {
+        const selectionError = validateSelectionCount(question, responses[question.id]);
+        if (selectionError) newErrors[question.id] = selectionError;
+      }
+
+      // Short answers and paragraphs must pass the question's validation rule
+      if (activeQuestionIds.has(question.id) && !newErrors[question.id]) {
+        const validationError = validateTextAnswer(question, responses[question.id]);
+        if (validationError) newErrors[question.id] = validationError;
+      }
     });
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  const fetchQuizResults = async (responseId: string) => {
+    try {
+      const response = await fetch(`/api/forms/${formId}/results/${responseId}`);
+      const data = await response.json();
+
+      if (data.success && data.released) {
+        setQuizResults({
+          totalScore: data.totalScore,
+          maxScore: data.maxScore,
+          percentage: data.percentage,
+          results: data.results
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching quiz results:', error);
+    }
+  };
+
   const handleSubmit = async () => {
     // Check if multiple responses are allowed
     if (!formData?.allowMultipleResponses && hasSubmittedBefore) {
@@ -511,14 +502,7 @@ export default function PublicFormView() {
 
     // Check if user has provided any responses at all before validation
     const hasAnyResponses = Object.keys(responses).length > 0 && 
-                           Object.values(responses).some(response => {
-                             if (typeof response === 'string') {
-                               return response.trim() !== '';
-                             } else if (Array.isArray(response)) {
-                               return response.length > 0;
-                             }
-                             return false;
-                           });
+                           Object.values(responses).some(hasAnswer);
 
     if (!hasAnyResponses) {
       alert('Please answer at least one question before submitting.');
@@ -531,40 +515,23 @@ export default function PublicFormView() {
 
     setSubmitting(true);
     try {
-      // Calculate quiz score if this is a quiz
-      const quizScore = formData?.isQuiz ? calculateQuizScore() : null;
-      
-      // Set quiz results if available
-      if (quizScore) {
-        setQuizResults(quizScore);
-      }
-      
-      // Submit responses to API
+      // Submit responses to API - quizzes are graded on the server
       const response = await fetch(`/api/forms/${formId}/submit`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          responses: responses,
-          email: formData?.collectEmail ? email : undefined,
-          ...(quizScore && {
-            totalScore: quizScore.totalScore,
-            maxScore: quizScore.maxScore,
-            quizResults: quizScore.results
-          })
+          // Answers to hidden questions and skipped sections are discarded (the server does this too)
+          responses: getActiveQuestions(orderedSections, responses).responses,
+          email: formData?.collectEmail ? email : undefined
         })
       });
 
       if (process.env.NODE_ENV === 'development') console.log('🔄 Submitting form data:', {
         responses,
         responseKeys: Object.keys(responses),
-        responseValues: Object.values(responses),
-        quizScore: quizScore ? {
-          totalScore: quizScore.totalScore,
-          maxScore: quizScore.maxScore,
-          resultsKeys: Object.keys(quizScore.results)
-        } : 'No quiz score'
+        responseValues: Object.values(responses)
       });
 
       const result = await response.json();
@@ -574,6 +541,12 @@ export default function PublicFormView() {
         if (result.confirmationMessage) {
           setConfirmationMessage(result.confirmationMessage);
         }
+
+        // Quiz results come from the results endpoint, which only
+        // includes answer keys when the form owner allows it
+        if (formData?.isQuiz && formData.releaseGrades && result.responseId) {
+          await fetchQuizResults(result.responseId);
+        }
         
         // Handle edit link if response editing is enabled
         if (result.editLink) {
@@ -588,6 +561,38 @@ export default function PublicFormView() {
         setSubmitted(true);
       } else {
         console.error('Submission error:', result.error);
+        // Signed out meanwhile, or not allowed to respond
+        if (result.access) {
+          setAccessDenied(result.access);
+        }
+        // Closed, filled up (or not opened yet) while the form was being filled in
+        if (result.responseStatus) {
+          setFormData(prev => prev ? { ...prev, responseStatus: result.responseStatus } : prev);
+        }
+        // Already responded from this account or browser
+        if (response.status === 409) {
+          markFormAsSubmitted();
+          setHasSubmittedBefore(true);
+        }
+        // Someone else took the last seat on an option
+        if (result.fullOption) {
+          setFormData(prev => prev ? {
+            ...prev,
+            sections: prev.sections.map(section => ({
+              ...section,
+              questions: section.questions.map(question => ({
+                ...question,
+                options: question.options.map(option => option.id === result.fullOption ? { ...option, remaining: 0 } : option)
+              }))
+            }))
+          } : prev);
+        }
+        // Show the server's per-question errors next to their questions
+        if (Array.isArray(result.errors)) {
+          setErrors(Object.fromEntries(
+            result.errors.map((error: { questionId: string; message: string }) => [error.questionId, error.message])
+          ));
+        }
       }
     } catch (error) {
       console.error('Error submitting form:', error);
@@ -599,14 +604,7 @@ export default function PublicFormView() {
   const handleClearForm = () => {
     // Check if there are any responses to clear
     const hasResponses = Object.keys(responses).length > 0 && 
-                        Object.values(responses).some(response => {
-                          if (typeof response === 'string') {
-                            return response.trim() !== '';
-                          } else if (Array.isArray(response)) {
-                            return response.length > 0;
-                          }
-                          return false;
-                        });
+                        Object.values(responses).some(hasAnswer);
 
     if (!hasResponses) {
       return;
@@ -615,6 +613,9 @@ export default function PublicFormView() {
     if (confirm('Are you sure you want to clear all responses?')) {
       setResponses({});
       setErrors({});
+      // Branches depended on the cleared answers - start again from the first section
+      setSectionHistory([]);
+      setCurrentSectionIndex(0);
     }
   };
 
@@ -622,6 +623,9 @@ export default function PublicFormView() {
   const renderQuestion = (question: Question) => {
     const response = responses[question.id];
     const hasError = errors[question.id];
+    // Checkboxes stop accepting new picks once the maximum is reached
+    const { max: maxSelections } = getSelectionLimits(question);
+    const atSelectionLimit = maxSelections !== null && Array.isArray(response) && response.length >= maxSelections;
 
     switch (question.type) {
       case 'SHORT_ANSWER':
@@ -671,13 +675,16 @@ export default function PublicFormView() {
             {question.options
               .filter((option) => option.text?.trim() || option.imageUrl) // Only show options with text or image
               .map((option) => (
-              <label key={option.id} className="flex items-start space-x-3 cursor-pointer p-3 rounded-lg border border-gray-200 hover:border-gray-300 hover:bg-gray-50 transition-colors">
+              <label key={option.id} className={`flex items-start space-x-3 p-3 rounded-lg border border-gray-200 transition-colors ${
+                option.remaining === 0 ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-gray-300 hover:bg-gray-50'
+              }`}>
                 <input
                   type="radio"
                   name={question.id}
                   value={option.text || `image-option-${option.id}`} // Use unique value for image-only options
                   checked={response === (option.text || `image-option-${option.id}`)}
                   onChange={(e) => handleInputChange(question.id, e.target.value)}
+                  disabled={option.remaining === 0}
                   className="w-4 h-4 mt-1"
                   style={{
                     accentColor: formData?.themeColor || '#4285F4'
@@ -699,15 +706,31 @@ export default function PublicFormView() {
                   {option.text?.trim() && (
                     <span className="text-gray-900">{option.text}</span>
                   )}
+                  {describeRemaining(option.remaining) && (
+                    <span className="ml-2 text-xs sm:text-sm text-gray-500">({describeRemaining(option.remaining)})</span>
+                  )}
                 </div>
               </label>
             ))}
+            {/* "Other" stays last, even when options are shuffled */}
+            {question.hasOtherOption && (
+              <OtherOptionInput
+                name={question.id}
+                type={question.type}
+                value={response}
+                themeColor={formData?.themeColor}
+                onChange={(value) => handleInputChange(question.id, value)}
+              />
+            )}
           </div>
         );
 
       case 'CHECKBOXES':
         return (
           <div className="space-y-2 sm:space-y-3">
+            {describeSelectionLimits(question) && (
+              <p className="text-xs sm:text-sm text-gray-600">{describeSelectionLimits(question)}</p>
+            )}
             {question.options
               .filter((option) => option.text?.trim() || option.imageUrl) // Only show options with text or image
               .map((option) => {
@@ -717,6 +740,7 @@ export default function PublicFormView() {
                   <input
                     type="checkbox"
                     checked={(response as string[] || []).includes(optionValue)}
+                    disabled={atSelectionLimit && !(response as string[]).includes(optionValue)}
                     onChange={(e) => {
                       const currentResponses = response as string[] || [];
                       if (e.target.checked) {
@@ -749,6 +773,17 @@ export default function PublicFormView() {
                   </div>
                 </label>
               )})}
+            {/* "Other" stays last, even when options are shuffled */}
+            {question.hasOtherOption && (
+              <OtherOptionInput
+                name={question.id}
+                type={question.type}
+                value={response}
+                themeColor={formData?.themeColor}
+                disabled={atSelectionLimit && getOtherValue(response) === null}
+                onChange={(value) => handleInputChange(question.id, value)}
+              />
+            )}
           </div>
         );
 
@@ -773,9 +808,10 @@ export default function PublicFormView() {
                   const displayText = option.text?.trim() 
                     ? option.text 
                     : (option.imageUrl ? "Image Option" : "");
+                  const remainingText = describeRemaining(option.remaining);
                   return (
-                    <option key={option.id} value={optionValue} className="text-gray-900">
-                      {displayText}
+                    <option key={option.id} value={optionValue} disabled={option.remaining === 0} className="text-gray-900">
+                      {remainingText ? `${displayText} (${remainingText})` : displayText}
                     </option>
                   );
                 })}
@@ -789,6 +825,66 @@ export default function PublicFormView() {
           </div>
         );
 
+      case 'LINEAR_SCALE':
+        return (
+          <LinearScaleInput
+            name={question.id}
+            scaleMin={question.scaleMin}
+            scaleMax={question.scaleMax}
+            scaleMinLabel={question.scaleMinLabel}
+            scaleMaxLabel={question.scaleMaxLabel}
+            value={response as string || ''}
+            themeColor={formData?.themeColor}
+            onChange={(value) => handleInputChange(question.id, value)}
+          />
+        );
+
+      case 'MC_GRID':
+      case 'CHECKBOX_GRID':
+        return (
+          <GridInput
+            name={question.id}
+            type={question.type}
+            rows={question.gridRows || []}
+            columns={question.gridColumns || []}
+            value={response}
+            themeColor={formData?.themeColor}
+            missingRows={hasError && question.requireEachRow ? getMissingGridRows(question, response) : []}
+            onChange={(value) => handleInputChange(question.id, value)}
+          />
+        );
+
+      case 'DATE':
+      case 'TIME':
+      case 'DATETIME':
+        return (
+          <DateInput
+            type={question.type}
+            includeYear={question.includeYear}
+            dateMin={question.dateMin}
+            dateMax={question.dateMax}
+            value={response as string || ''}
+            hasError={!!hasError}
+            themeColor={formData?.themeColor}
+            onChange={(value) => handleInputChange(question.id, value)}
+          />
+        );
+
+      case 'FILE_UPLOAD':
+        return (
+          <FileUploadInput
+            formId={formId}
+            questionId={question.id}
+            allowedFileTypes={question.allowedFileTypes}
+            maxFiles={question.maxFiles}
+            maxFileSize={question.maxFileSize}
+            value={Array.isArray(response) ? response : []}
+            hasError={!!hasError}
+            themeColor={formData?.themeColor}
+            onChange={(fileIds) => handleInputChange(question.id, fileIds)}
+          />
+        );
+
       default:
         return null;
     }
@@ -799,6 +895,76 @@ export default function PublicFormView() {
     return <LoadingSpinner message="Loading form..." />;
   }
 
+  // Password-protected form
+  if (accessDenied === 'password') {
+    return (
+      <div className="min-h-screen bg-blue-50 flex items-center justify-center px-4">
+        <form
+          onSubmit={handleUnlock}
+          className="w-full max-w-md mx-auto bg-white p-4 sm:p-6 lg:p-8 rounded-lg shadow-sm border border-gray-200"
+        >
+          <h1
+            className="text-lg sm:text-xl font-semibold text-gray-900 mb-2 break-words"
+            dangerouslySetInnerHTML={{ __html: lockedFormTitle || 'Untitled Form' }}
+          />
+          <p className="text-sm sm:text-base text-gray-600 mb-4 break-words">This form is password protected.</p>
+          <input
+            type="password"
+            value={accessPassword}
+            onChange={(e) => {
+              setAccessPassword(e.target.value);
+              setPasswordError(null);
+            }}
+            placeholder="Password"
+            autoFocus
+            className={`w-full px-3 py-2 text-sm sm:text-base border rounded-md outline-none focus:ring-2 focus:ring-blue-500 ${
+              passwordError ? 'border-red-500' : 'border-gray-300'
+            }`}
+          />
+          {passwordError && (
+            <p className="mt-2 text-sm text-red-600">{passwordError}</p>
+          )}
+          <Button type="submit" disabled={unlocking || !accessPassword} className="mt-4 w-full">
+            {unlocking ? 'Checking...' : 'Continue'}
+          </Button>
+        </form>
+      </div>
+    );
+  }
+
+  // Restricted form - sign in, or signed in with an account that isn't allowed
+  if (accessDenied) {
+    return (
+      <div className="min-h-screen bg-blue-50 flex items-center justify-center px-4">
+        <div className="max-w-md mx-auto text-center bg-white p-4 sm:p-6 lg:p-8 rounded-lg shadow-sm border border-gray-200">
+          <div className="w-16 h-16 mx-auto mb-4 bg-gray-100 rounded-full flex items-center justify-center">
+            <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+          </div>
+          {accessDenied === 'sign_in' ? (
+            <>
+              <h1 className="text-lg sm:text-xl font-semibold text-gray-900 mb-2 break-words">Sign in to continue</h1>
+              <p className="text-sm sm:text-base text-gray-600 mb-4 break-words">You need to sign in to respond to this form.</p>
+              <a
+                href={`/sign-in?redirect_url=${encodeURIComponent(`/forms/${formId}/view`)}`}
+                className="inline-block px-5 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Sign in
+              </a>
+            </>
+          ) : (
+            <>
+              <h1 className="text-lg sm:text-xl font-semibold text-gray-900 mb-2 break-words">Access Denied</h1>
+              <p className="text-sm sm:text-base text-gray-600 mb-3 sm:mb-4 break-words">You don&apos;t have permission to respond to this form.</p>
+              <p className="text-xs sm:text-sm text-gray-500 break-words">Try signing in with a different account, or contact the form owner.</p>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   // Form not found or not published
   if (notFound || !formData) {
     return (
@@ -892,7 +1058,7 @@ export default function PublicFormView() {
                   {formData.showCorrectAnswers && (
                     <div className="space-y-3 sm:space-y-4">
                       <h3 className="text-base sm:text-lg font-semibold text-gray-800">Answer Review</h3>
-                      {shuffledQuestions.map((question) => {
+                      {shuffledQuestions.filter(question => quizResults.results[question.id]).map((question) => {
                         const result = quizResults.results[question.id];
                         const userResponse = responses[question.id];
                         
@@ -950,20 +1116,18 @@ export default function PublicFormView() {
                                     : "text-orange-700"
                                 }>
                                   {Array.isArray(userResponse) 
-                                    ? userResponse.join(', ') 
-                                    : userResponse || 'No answer'}
+                                    ? userResponse.map(formatChoice).join(', ') 
+                                    : (typeof userResponse === 'string' && formatChoice(userResponse)) || 'No answer'}
                                 </span>
                               </div>
                               
-                              {!result.isCorrect && question.correctAnswers && (
+                              {!result.isCorrect && result.correctAnswers && (
                                 <div>
                                   <span className="font-medium text-gray-700">
                                     {result.pointsEarned > 0 ? 'Complete answer: ' : 'Correct answer: '}
                                   </span>
                                   <span className="text-green-700">
-                                    {Array.isArray(question.correctAnswers) 
-                                      ? question.correctAnswers.join(', ') 
-                                      : question.correctAnswers}
+                                    {result.correctAnswers.join(', ')}
                                   </span>
                                 </div>
                               )}
@@ -1045,6 +1209,14 @@ export default function PublicFormView() {
     );
   }
 
+  // Preview loads the owner's copy of the form, which has no responseStatus
+  const responseStatus = formData.responseStatus ?? getResponseStatus(formData);
+
+  // Closed, full, or scheduled to open later - the closed page keeps the form's theme
+  if (responseStatus !== 'open' && !isPreviewMode) {
+    return <FormClosedPage form={formData} responseStatus={responseStatus} />;
+  }
+
   // Main form view
   return (
     <div 
@@ -1085,367 +1257,359 @@ export default function PublicFormView() {
           </div>
         )}
 
-        {/* Not Accepting Responses Message */}
-        {!formData.acceptingResponses && !isPreviewMode ? (
-          <div className="bg-white rounded-lg shadow-sm mb-4 sm:mb-6 overflow-hidden">
-            <div className="h-2" style={{ backgroundColor: formData.themeColor || '#4285F4' }}></div>
-            <div className="p-4 sm:p-6 text-center">
-              <h1 className="text-xl sm:text-2xl font-bold text-gray-800 mb-3 sm:mb-4 break-words">{formData.title}</h1>
-              <div className="w-16 h-16 mx-auto mb-4 bg-blue-100 rounded-full flex items-center justify-center">
-                <svg className="w-8 h-8 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.732-.833-2.5 0L4.268 18.5c-.77.833.192 2.5 1.732 2.5z" />
-                </svg>
-              </div>
-              <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2 break-words">This form is no longer accepting responses</h2>
-              <p className="text-sm sm:text-base text-gray-600 break-words">Try contacting the owner of the form if you think this is a mistake.</p>
+        {/* Multiple Response Warning */}
+        {!formData.allowMultipleResponses && hasSubmittedBefore && !isPreviewMode && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 sm:p-4 mb-4 sm:mb-6">
+            <div className="flex items-center gap-2">
+              <svg className="w-5 h-5 text-yellow-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.732-.833-2.5 0L4.268 18.5c-.77.833.192 2.5 1.732 2.5z" />
+              </svg>
+              <span className="text-yellow-800 font-medium text-xs sm:text-sm">Already Submitted</span>
             </div>
+            <p className="text-yellow-700 text-xs sm:text-sm mt-2 break-words">
+              You have already submitted a response to this form. Multiple responses are not allowed.
+            </p>
           </div>
-        ) : (
-          <>
-            {/* Multiple Response Warning */}
-            {!formData.allowMultipleResponses && hasSubmittedBefore && !isPreviewMode && (
-              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 sm:p-4 mb-4 sm:mb-6">
-                <div className="flex items-center gap-2">
-                  <svg className="w-5 h-5 text-yellow-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.732-.833-2.5 0L4.268 18.5c-.77.833.192 2.5 1.732 2.5z" />
-                  </svg>
-                  <span className="text-yellow-800 font-medium text-xs sm:text-sm">Already Submitted</span>
-                </div>
-                <p className="text-yellow-700 text-xs sm:text-sm mt-2 break-words">
-                  You have already submitted a response to this form. Multiple responses are not allowed.
-                </p>
-              </div>
+        )}
+
+        {/* Form Header */}
+        <div className="bg-white rounded-lg shadow-sm mb-4 sm:mb-6 overflow-hidden">
+          {/* Theme colored top line */}
+          <div className="h-2" style={{ backgroundColor: formData.themeColor || '#4285F4' }}></div>
+          <div className="p-4 sm:p-6">
+            <h1 
+              className="text-xl sm:text-2xl font-bold text-gray-800 mb-2 break-words [&_a]:text-blue-600 [&_a]:underline [&_a]:cursor-pointer"
+              dangerouslySetInnerHTML={{ __html: formData.title || 'Untitled Form' }}
+              onClick={(e) => {
+                const target = e.target as HTMLElement;
+                if (target.tagName === 'A') {
+                  e.preventDefault();
+                  window.open((target as HTMLAnchorElement).href, '_blank', 'noopener,noreferrer');
+                }
+              }}
+            />
+            {formData.description && (
+              <div 
+                className="text-sm sm:text-base text-gray-600 break-words [&_a]:text-blue-600 [&_a]:underline [&_a]:cursor-pointer"
+                dangerouslySetInnerHTML={{ __html: formData.description }}
+                onClick={(e) => {
+                  const target = e.target as HTMLElement;
+                  if (target.tagName === 'A') {
+                    e.preventDefault();
+                    window.open((target as HTMLAnchorElement).href, '_blank', 'noopener,noreferrer');
+                  }
+                }}
+              />
             )}
+          </div>
+        </div>
 
-            {/* Form Header */}
-            <div className="bg-white rounded-lg shadow-sm mb-4 sm:mb-6 overflow-hidden">
-              {/* Theme colored top line */}
-              <div className="h-2" style={{ backgroundColor: formData.themeColor || '#4285F4' }}></div>
-              <div className="p-4 sm:p-6">
-                <h1 
-                  className="text-xl sm:text-2xl font-bold text-gray-800 mb-2 break-words [&_a]:text-blue-600 [&_a]:underline [&_a]:cursor-pointer"
-                  dangerouslySetInnerHTML={{ __html: formData.title || 'Untitled Form' }}
-                  onClick={(e) => {
-                    const target = e.target as HTMLElement;
-                    if (target.tagName === 'A') {
-                      e.preventDefault();
-                      window.open((target as HTMLAnchorElement).href, '_blank', 'noopener,noreferrer');
-                    }
-                  }}
-                />
-                {formData.description && (
-                  <div 
-                    className="text-sm sm:text-base text-gray-600 break-words [&_a]:text-blue-600 [&_a]:underline [&_a]:cursor-pointer"
-                    dangerouslySetInnerHTML={{ __html: formData.description }}
-                    onClick={(e) => {
-                      const target = e.target as HTMLElement;
-                      if (target.tagName === 'A') {
-                        e.preventDefault();
-                        window.open((target as HTMLAnchorElement).href, '_blank', 'noopener,noreferrer');
-                      }
+        {/* 🆕 Section Progress Indicator (Only show for multi-section forms) */}
+        {shouldUseSectionView() && formData.sections.length > 1 && (
+          <div className="bg-white rounded-lg shadow-sm mb-3 sm:mb-4 p-3 sm:p-4">
+            <div className="flex items-center justify-center gap-2 sm:gap-3">
+              <span className="text-xs sm:text-sm text-gray-600 font-medium">
+                Section {sectionHistory.length + 1} of {getBranchPath().length}
+              </span>
+              {formData?.showProgress && (
+                <div className="w-16 sm:w-24 bg-gray-200 rounded-full h-2">
+                  <div
+                    className="h-2 rounded-full transition-all duration-300 ease-out"
+                    style={{
+                      width: `${getProgressPercentage()}%`,
+                      backgroundColor: formData?.themeColor || '#4285F4'
                     }}
-                  />
-                )}
-              </div>
-            </div>
-
-            {/* 🆕 Section Progress Indicator (Only show for multi-section forms) */}
-            {shouldUseSectionView() && formData.sections.length > 1 && (
-              <div className="bg-white rounded-lg shadow-sm mb-3 sm:mb-4 p-3 sm:p-4">
-                <div className="flex items-center justify-center">
-                  <span className="text-xs sm:text-sm text-gray-600 font-medium">
-                    Section {currentSectionIndex + 1} of {formData.sections.length}
-                  </span>
+                  ></div>
                 </div>
-              </div>
-            )}
+              )}
+            </div>
+          </div>
+        )}
 
-            {/* Email Field */}
-            {formData?.collectEmail && (
-              <div className="bg-white rounded-lg shadow-sm mb-4 sm:mb-6 p-4 sm:p-6">
-                <div className="mb-3 sm:mb-4">
-                  <h3 className="text-base sm:text-lg font-medium text-gray-800 mb-1">
-                    Email address <span className="text-red-500">*</span>
-                  </h3>
-                </div>
+        {/* Email Field */}
+        {formData?.collectEmail && (
+          <div className="bg-white rounded-lg shadow-sm mb-4 sm:mb-6 p-4 sm:p-6">
+            <div className="mb-3 sm:mb-4">
+              <h3 className="text-base sm:text-lg font-medium text-gray-800 mb-1">
+                Email address <span className="text-red-500">*</span>
+              </h3>
+            </div>
                 
-                <input
-                  type="email"
-                  value={email}
-                  onChange={(e) => {
-                    setEmail(e.target.value);
-                    // Clear email error when user starts typing
-                    if (errors['email']) {
-                      setErrors(prev => ({
-                        ...prev,
-                        email: ''
-                      }));
-                    }
-                  }}
-                  className={`w-full px-2 sm:px-3 py-2 sm:py-3 border rounded-md focus:outline-none focus:ring-2 text-sm sm:text-base ${
-                    errors['email'] ? 'border-red-500' : 'border-gray-300'
-                  }`}
-                  style={{
-                    '--tw-ring-color': formData?.themeColor || '#4285F4'
-                  } as React.CSSProperties}
-                  placeholder="your.email@example.com"
-                />
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                // Clear email error when user starts typing
+                if (errors['email']) {
+                  setErrors(prev => ({
+                    ...prev,
+                    email: ''
+                  }));
+                }
+              }}
+              className={`w-full px-2 sm:px-3 py-2 sm:py-3 border rounded-md focus:outline-none focus:ring-2 text-sm sm:text-base ${
+                errors['email'] ? 'border-red-500' : 'border-gray-300'
+              }`}
+              style={{
+                '--tw-ring-color': formData?.themeColor || '#4285F4'
+              } as React.CSSProperties}
+              placeholder="your.email@example.com"
+            />
                 
-                {/* Error message */}
-                {errors['email'] && (
-                  <p className="mt-2 text-sm text-red-600">{errors['email']}</p>
-                )}
-              </div>
+            {/* Error message */}
+            {errors['email'] && (
+              <p className="mt-2 text-sm text-red-600">{errors['email']}</p>
             )}
+          </div>
+        )}
 
-            {/* Questions */}
-            {shouldUseSectionView() ? (
-              // 🆕 Section-Based Rendering (Google Forms Style)
-              <>
-                {getCurrentSection() && (
-                  <div className="bg-white rounded-lg shadow-sm mb-4 sm:mb-6 p-4 sm:p-6">
-                    {/* Section Header - Only show when multiple sections exist OR custom title/description */}
-                    {(formData.sections.length > 1 && (getCurrentSection()!.title !== 'Section 1' || getCurrentSection()!.description)) && (
-                      <div className="mb-4 sm:mb-6 border-b border-gray-200 pb-3 sm:pb-4">
-                        <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2 break-words">
-                          {getCurrentSection()!.title}
-                        </h2>
-                        {getCurrentSection()!.description && (
-                          <p className="text-sm sm:text-base text-gray-600 break-words">
-                            {getCurrentSection()!.description}
-                          </p>
-                        )}
-                      </div>
+        {/* Questions */}
+        {shouldUseSectionView() ? (
+          // 🆕 Section-Based Rendering (Google Forms Style)
+          <>
+            {getCurrentSection() && (
+              <div className="bg-white rounded-lg shadow-sm mb-4 sm:mb-6 p-4 sm:p-6">
+                {/* Section Header - Only show when multiple sections exist OR custom title/description */}
+                {(formData.sections.length > 1 && (getCurrentSection()!.title !== 'Section 1' || getCurrentSection()!.description)) && (
+                  <div className="mb-4 sm:mb-6 border-b border-gray-200 pb-3 sm:pb-4">
+                    <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2 break-words">
+                      {getCurrentSection()!.title}
+                    </h2>
+                    {getCurrentSection()!.description && (
+                      <p className="text-sm sm:text-base text-gray-600 break-words">
+                        {getCurrentSection()!.description}
+                      </p>
                     )}
+                  </div>
+                )}
 
-                    {/* Section Questions */}
-                    <div className="space-y-4 sm:space-y-6">
-                      {getCurrentSection()!.questions.map((question, index) => {
-                        // Find the question index across all sections for proper numbering
-                        const allQuestions = getAllQuestionsFromSections(formData.sections);
-                        const globalIndex = allQuestions.findIndex(q => q.id === question.id);
+                {/* Section Questions */}
+                <div className="space-y-4 sm:space-y-6">
+                  {getCurrentSection()!.questions.filter(question => isQuestionVisible(question.id)).map((question, index) => {
+                    // Find the question index across all visible questions for proper numbering
+                    const allQuestions = getAllQuestionsFromSections(formData.sections).filter(q => isQuestionVisible(q.id));
+                    const globalIndex = allQuestions.findIndex(q => q.id === question.id);
                         
-                        return (
-                          <div key={question.id}>
-                            <div className="mb-3 sm:mb-4">
-                              <h3 className="text-base sm:text-lg font-medium text-gray-800 mb-1 break-words">
-                                {globalIndex + 1}. <span 
-                                  className="[&_a]:text-blue-600 [&_a]:underline [&_a]:cursor-pointer"
-                                  dangerouslySetInnerHTML={{ __html: question.text }}
-                                  onClick={(e) => {
-                                    const target = e.target as HTMLElement;
-                                    if (target.tagName === 'A') {
-                                      e.preventDefault();
-                                      window.open((target as HTMLAnchorElement).href, '_blank', 'noopener,noreferrer');
-                                    }
-                                  }}
-                                />
-                                {question.required && <span className="text-red-500 ml-1">*</span>}
-                              </h3>
+                    return (
+                      <div key={question.id}>
+                        <div className="mb-3 sm:mb-4">
+                          <h3 className="text-base sm:text-lg font-medium text-gray-800 mb-1 break-words">
+                            {globalIndex + 1}. <span 
+                              className="[&_a]:text-blue-600 [&_a]:underline [&_a]:cursor-pointer"
+                              dangerouslySetInnerHTML={{ __html: question.text }}
+                              onClick={(e) => {
+                                const target = e.target as HTMLElement;
+                                if (target.tagName === 'A') {
+                                  e.preventDefault();
+                                  window.open((target as HTMLAnchorElement).href, '_blank', 'noopener,noreferrer');
+                                }
+                              }}
+                            />
+                            {question.required && <span className="text-red-500 ml-1">*</span>}
+                          </h3>
                               
-                              {/* Question Description */}
-                              {question.description && (
-                                <p className="text-xs sm:text-sm text-gray-600 mt-1.5 sm:mt-2 mb-2 sm:mb-3 break-words">{question.description}</p>
-                              )}
+                          {/* Question Description */}
+                          {question.description && (
+                            <p className="text-xs sm:text-sm text-gray-600 mt-1.5 sm:mt-2 mb-2 sm:mb-3 break-words">{question.description}</p>
+                          )}
                               
-                              {/* Question Image */}
-                              {question.imageUrl && (
-                                <div className="mt-2 sm:mt-3 mb-3 sm:mb-4">
-                                  <img 
-                                    src={question.imageUrl} 
-                                    alt="Question image" 
-                                    className="max-w-full w-full h-auto rounded-lg border border-gray-200"
-                                    onError={(e) => {
-                                      e.currentTarget.style.display = 'none';
-                                    }}
-                                  />
-                                </div>
-                              )}
+                          {/* Question Image */}
+                          {question.imageUrl && (
+                            <div className="mt-2 sm:mt-3 mb-3 sm:mb-4">
+                              <img 
+                                src={question.imageUrl} 
+                                alt="Question image" 
+                                className="max-w-full w-full h-auto rounded-lg border border-gray-200"
+                                onError={(e) => {
+                                  e.currentTarget.style.display = 'none';
+                                }}
+                              />
                             </div>
+                          )}
+                        </div>
                             
-                            {renderQuestion(question)}
+                        {renderQuestion(question)}
                             
-                            {/* Error message */}
-                            {errors[question.id] && (
-                              <p className="mt-2 text-sm text-red-600">{errors[question.id]}</p>
-                            )}
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
-                )}
-              </>
-            ) : (
-              // 🔄 Original Rendering (Fallback for Single Section or Legacy Forms)
-              <div className="space-y-4 sm:space-y-6">
-                {shuffledQuestions.map((question, index) => (
-                  <div key={question.id} className="bg-white rounded-lg shadow-sm p-4 sm:p-6">
-                    <div className="mb-3 sm:mb-4">
-                      <h3 className="text-base sm:text-lg font-medium text-gray-800 mb-1 break-words">
-                        {index + 1}. <span 
-                          className="[&_a]:text-blue-600 [&_a]:underline [&_a]:cursor-pointer"
-                          dangerouslySetInnerHTML={{ __html: question.text }}
-                          onClick={(e) => {
-                            const target = e.target as HTMLElement;
-                            if (target.tagName === 'A') {
-                              e.preventDefault();
-                              window.open((target as HTMLAnchorElement).href, '_blank', 'noopener,noreferrer');
-                            }
-                          }}
-                        />
-                        {question.required && <span className="text-red-500 ml-1">*</span>}
-                      </h3>
+                        {/* Error message */}
+                        {errors[question.id] && (
+                          <p className="mt-2 text-sm text-red-600">{errors[question.id]}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </>
+        ) : (
+          // 🔄 Original Rendering (Fallback for Single Section or Legacy Forms)
+          <div className="space-y-4 sm:space-y-6">
+            {shuffledQuestions.filter(question => isQuestionVisible(question.id)).map((question, index) => (
+              <div key={question.id} className="bg-white rounded-lg shadow-sm p-4 sm:p-6">
+                <div className="mb-3 sm:mb-4">
+                  <h3 className="text-base sm:text-lg font-medium text-gray-800 mb-1 break-words">
+                    {index + 1}. <span 
+                      className="[&_a]:text-blue-600 [&_a]:underline [&_a]:cursor-pointer"
+                      dangerouslySetInnerHTML={{ __html: question.text }}
+                      onClick={(e) => {
+                        const target = e.target as HTMLElement;
+                        if (target.tagName === 'A') {
+                          e.preventDefault();
+                          window.open((target as HTMLAnchorElement).href, '_blank', 'noopener,noreferrer');
+                        }
+                      }}
+                    />
+                    {question.required && <span className="text-red-500 ml-1">*</span>}
+                  </h3>
                       
-                      {/* Display Question Description */}
-                      {question.description && (
-                        <p className="text-xs sm:text-sm text-gray-600 mt-1.5 sm:mt-2 mb-2 sm:mb-3 break-words">{question.description}</p>
-                      )}
+                  {/* Display Question Description */}
+                  {question.description && (
+                    <p className="text-xs sm:text-sm text-gray-600 mt-1.5 sm:mt-2 mb-2 sm:mb-3 break-words">{question.description}</p>
+                  )}
                       
-                      {/* Display Question Image */}
-                      {question.imageUrl && (
-                        <div className="mt-2 sm:mt-3 mb-3 sm:mb-4">
-                          <img 
-                            src={question.imageUrl} 
-                            alt="Question image" 
-                            className="max-w-full w-full h-auto rounded-lg border border-gray-200"
-                            onError={(e) => {
-                              e.currentTarget.style.display = 'none';
-                            }}
-                          />
-                        </div>
-                      )}
+                  {/* Display Question Image */}
+                  {question.imageUrl && (
+                    <div className="mt-2 sm:mt-3 mb-3 sm:mb-4">
+                      <img 
+                        src={question.imageUrl} 
+                        alt="Question image" 
+                        className="max-w-full w-full h-auto rounded-lg border border-gray-200"
+                        onError={(e) => {
+                          e.currentTarget.style.display = 'none';
+                        }}
+                      />
                     </div>
+                  )}
+                </div>
                     
-                    {renderQuestion(question)}
+                {renderQuestion(question)}
                     
-                    {/* Error message */}
-                    {errors[question.id] && (
-                      <p className="mt-2 text-sm text-red-600">{errors[question.id]}</p>
-                    )}
-                  </div>
-                ))}
+                {/* Error message */}
+                {errors[question.id] && (
+                  <p className="mt-2 text-sm text-red-600">{errors[question.id]}</p>
+                )}
               </div>
-            )}
+            ))}
+          </div>
+        )}
 
-            {/* Action Buttons with Integrated Progress */}
-            <div className="mt-6 sm:mt-8 flex justify-between items-center">
-              {shouldUseSectionView() && formData.sections.length > 1 ? (
-                // 🆕 Section Navigation Buttons (Google Forms Style) - For Multi-Section Forms
-                <div className="w-full flex flex-col sm:flex-row justify-between items-stretch sm:items-center gap-2 sm:gap-2">
-                  {/* Previous Button */}
-                  <Button
-                    onClick={goToPreviousSection}
-                    disabled={isFirstSection}
-                    className={`px-3 sm:px-5 py-2 text-xs sm:text-sm font-semibold rounded-lg bg-white shadow-sm transition-all duration-200 min-w-[100px] sm:min-w-[120px] ${isFirstSection ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    style={{
-                      color: formData?.themeColor || '#4285F4',
-                      background: '#fff',
-                      border: 'none',
-                    }}
-                  >
-                    ← Previous
-                  </Button>
-
-                  {/* Clear Form Button (Always Center) */}
-                  <Button
-                    onClick={isPreviewMode ? undefined : handleClearForm}
-                    variant="ghost"
-                    disabled={isPreviewMode || (!formData?.allowMultipleResponses && hasSubmittedBefore)}
-                    className={`px-3 sm:px-5 py-2 text-xs sm:text-sm font-semibold rounded-lg bg-white shadow-sm transition-all duration-200 order-3 sm:order-2 ${(isPreviewMode || (!formData?.allowMultipleResponses && hasSubmittedBefore)) ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    style={{
-                      color: formData?.themeColor || '#4285F4',
-                      background: '#fff',
-                      border: 'none',
-                    }}
-                  >
-                    Clear Form
-                  </Button>
-
-                  {/* Next/Submit Button (Always Right, Same Width) */}
-                  {isLastSection ? (
-                    <Button
-                      onClick={isPreviewMode ? undefined : handleSubmit}
-                      disabled={submitting || isPreviewMode || (!formData?.allowMultipleResponses && hasSubmittedBefore)}
-                      className="px-3 sm:px-5 py-2 text-xs sm:text-sm font-semibold rounded-lg bg-white shadow-sm transition-all duration-200 min-w-[100px] sm:min-w-[120px] disabled:opacity-50 disabled:cursor-not-allowed order-2 sm:order-3"
-                      style={{
-                        color: formData?.themeColor || '#4285F4',
-                        background: '#fff',
-                        border: 'none',
-                      }}
-                    >
-                      {isPreviewMode ? 'Submit' : 
-                        (!formData?.allowMultipleResponses && hasSubmittedBefore) ? 'Already Submitted' :
-                        (submitting ? 'Submitting...' : 'Submit')}
-                    </Button>
-                  ) : (
-                    <Button
-                      onClick={goToNextSection}
-                      className="px-3 sm:px-5 py-2 text-xs sm:text-sm font-semibold rounded-lg bg-white shadow-sm transition-all duration-200 min-w-[100px] sm:min-w-[120px] order-2 sm:order-3"
-                      style={{
-                        color: formData?.themeColor || '#4285F4',
-                        background: '#fff',
-                        border: 'none',
-                      }}
-                    >
-                      Next →
-                    </Button>
-                  )}
-                </div>
+        {/* Action Buttons with Integrated Progress */}
+        <div className="mt-6 sm:mt-8 flex justify-between items-center">
+          {shouldUseSectionView() && formData.sections.length > 1 ? (
+            // 🆕 Section Navigation Buttons (Google Forms Style) - For Multi-Section Forms
+            <div className="w-full flex flex-col sm:flex-row justify-between items-stretch sm:items-center gap-2 sm:gap-2">
+              {/* Previous Button */}
+              <Button
+                onClick={goToPreviousSection}
+                disabled={isFirstSection}
+                className={`px-3 sm:px-5 py-2 text-xs sm:text-sm font-semibold rounded-lg bg-white shadow-sm transition-all duration-200 min-w-[100px] sm:min-w-[120px] ${isFirstSection ? 'opacity-50 cursor-not-allowed' : ''}`}
+                style={{
+                  color: formData?.themeColor || '#4285F4',
+                  background: '#fff',
+                  border: 'none',
+                }}
+              >
+                ← Previous
+              </Button>
+
+              {/* Clear Form Button (Always Center) */}
+              <Button
+                onClick={isPreviewMode ? undefined : handleClearForm}
+                variant="ghost"
+                disabled={isPreviewMode || (!formData?.allowMultipleResponses && hasSubmittedBefore)}
+                className={`px-3 sm:px-5 py-2 text-xs sm:text-sm font-semibold rounded-lg bg-white shadow-sm transition-all duration-200 order-3 sm:order-2 ${(isPreviewMode || (!formData?.allowMultipleResponses && hasSubmittedBefore)) ? 'opacity-50 cursor-not-allowed' : ''}`}
+                style={{
+                  color: formData?.themeColor || '#4285F4',
+                  background: '#fff',
+                  border: 'none',
+                }}
+              >
+                Clear Form
+              </Button>
+
+              {/* Next/Submit Button (Always Right, Same Width) */}
+              {isLastSection ? (
+                <Button
+                  onClick={isPreviewMode ? undefined : handleSubmit}
+                  disabled={submitting || isPreviewMode || (!formData?.allowMultipleResponses && hasSubmittedBefore)}
+                  className="px-3 sm:px-5 py-2 text-xs sm:text-sm font-semibold rounded-lg bg-white shadow-sm transition-all duration-200 min-w-[100px] sm:min-w-[120px] disabled:opacity-50 disabled:cursor-not-allowed order-2 sm:order-3"
+                  style={{
+                    color: formData?.themeColor || '#4285F4',
+                    background: '#fff',
+                    border: 'none',
+                  }}
+                >
+                  {isPreviewMode ? 'Submit' : 
+                    (!formData?.allowMultipleResponses && hasSubmittedBefore) ? 'Already Submitted' :
+                    (submitting ? 'Submitting...' : 'Submit')}
+                </Button>
               ) : (
-                // 🔄 Standard Submit Buttons (For Single Section or Legacy Forms)
-                <>
-                  {/* Clear Form Button */}
-                  <Button
-                    onClick={isPreviewMode ? undefined : handleClearForm}
-                    variant="ghost"
-                    disabled={isPreviewMode || (!formData?.allowMultipleResponses && hasSubmittedBefore)}
-                    className={`px-3 sm:px-5 py-2 text-xs sm:text-sm font-semibold rounded-lg bg-white shadow-sm transition-all duration-200 ml-0 sm:ml-2 ${(isPreviewMode || (!formData?.allowMultipleResponses && hasSubmittedBefore)) ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    style={{
-                      color: formData?.themeColor || '#4285F4',
-                      background: '#fff',
-                      border: 'none',
-                    }}
-                  >
-                    Clear Form
-                  </Button>
-                  
-                  {/* Progress Bar in Center */}
-                  {formData?.showProgress && (
-                    <div className="flex items-center gap-2 sm:gap-3">
-                      <div className="w-16 sm:w-24 bg-gray-200 rounded-full h-2">
-                        <div 
-                          className="h-2 rounded-full transition-all duration-300 ease-out"
-                          style={{ 
-                            width: `${calculateProgress()}%`,
-                            backgroundColor: formData?.themeColor || '#4285F4'
-                          }}
-                        ></div>
-                      </div>
-                      <span className="text-xs sm:text-sm text-gray-600 font-medium">{calculateProgress()}%</span>
-                    </div>
-                  )}
-                  
-                  {/* Submit Button */}
-                  <Button
-                    onClick={isPreviewMode ? undefined : handleSubmit}
-                    disabled={submitting || isPreviewMode || (!formData?.allowMultipleResponses && hasSubmittedBefore)}
-                    className="px-3 sm:px-5 py-2 text-xs sm:text-sm font-semibold rounded-lg bg-white shadow-sm transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                    style={{
-                      color: formData?.themeColor || '#4285F4',
-                      background: '#fff',
-                      border: 'none',
-                    }}
-                  >
-                    {isPreviewMode ? 'Submit' : 
-                     (!formData?.allowMultipleResponses && hasSubmittedBefore) ? 'Already Submitted' :
-                     (submitting ? 'Submitting...' : 'Submit')}
-                  </Button>
-                </>
+                <Button
+                  onClick={goToNextSection}
+                  className="px-3 sm:px-5 py-2 text-xs sm:text-sm font-semibold rounded-lg bg-white shadow-sm transition-all duration-200 min-w-[100px] sm:min-w-[120px] order-2 sm:order-3"
+                  style={{
+                    color: formData?.themeColor || '#4285F4',
+                    background: '#fff',
+                    border: 'none',
+                  }}
+                >
+                  Next →
+                </Button>
               )}
             </div>
-          </>
-        )}
+          ) : (
+            // 🔄 Standard Submit Buttons (For Single Section or Legacy Forms)
+            <>
+              {/* Clear Form Button */}
+              <Button
+                onClick={isPreviewMode ? undefined : handleClearForm}
+                variant="ghost"
+                disabled={isPreviewMode || (!formData?.allowMultipleResponses && hasSubmittedBefore)}
+                className={`px-3 sm:px-5 py-2 text-xs sm:text-sm font-semibold rounded-lg bg-white shadow-sm transition-all duration-200 ml-0 sm:ml-2 ${(isPreviewMode || (!formData?.allowMultipleResponses && hasSubmittedBefore)) ? 'opacity-50 cursor-not-allowed' : ''}`}
+                style={{
+                  color: formData?.themeColor || '#4285F4',
+                  background: '#fff',
+                  border: 'none',
+                }}
+              >
+                Clear Form
+              </Button>
+                  
+              {/* Progress Bar in Center */}
+              {formData?.showProgress && (
+                <div className="flex items-center gap-2 sm:gap-3">
+                  <div className="w-16 sm:w-24 bg-gray-200 rounded-full h-2">
+                    <div 
+                      className="h-2 rounded-full transition-all duration-300 ease-out"
+                      style={{ 
+                        width: `${calculateProgress()}%`,
+                        backgroundColor: formData?.themeColor || '#4285F4'
+                      }}
+                    ></div>
+                  </div>
+                  <span className="text-xs sm:text-sm text-gray-600 font-medium">{calculateProgress()}%</span>
+                </div>
+              )}
+                  
+              {/* Submit Button */}
+              <Button
+                onClick={isPreviewMode ? undefined : handleSubmit}
+                disabled={submitting || isPreviewMode || (!formData?.allowMultipleResponses && hasSubmittedBefore)}
+                className="px-3 sm:px-5 py-2 text-xs sm:text-sm font-semibold rounded-lg bg-white shadow-sm transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                style={{
+                  color: formData?.themeColor || '#4285F4',
+                  background: '#fff',
+                  border: 'none',
+                }}
+              >
+                {isPreviewMode ? 'Submit' : 
+                 (!formData?.allowMultipleResponses && hasSubmittedBefore) ? 'Already Submitted' :
+                 (submitting ? 'Submitting...' : 'Submit')}
+              </Button>
+            </>
+          )}
+        </div>
       </div>
     </div>
   );
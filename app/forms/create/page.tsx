@@ -6,14 +6,21 @@ import { useState, useEffect } from "react";
 import { useAuth } from "@clerk/nextjs";
 import { useRouter } from "next/navigation";
 import QuestionCard from "@/components/QuestionCard";
+import RichTextEditor from "@/components/RichTextEditor";
 import { navbarEvents } from "@/components/Navbar";
 import LoadingSpinner from "@/components/LoadingSpinner";
+import type { TextValidation, VisibilityRules } from "@/types/form";
+import { getScaleValues } from "@/utils/linearScale";
+import { isGridType } from "@/utils/gridQuestions";
+import { fromLocalInputValue, toLocalInputValue } from "@/utils/formSchedule";
+import { DEFAULT_FULL_MESSAGE, parseMaxResponses } from "@/utils/responseLimit";
 
-type QuestionType = "SHORT_ANSWER" | "PARAGRAPH" | "MULTIPLE_CHOICE" | "CHECKBOXES" | "DROPDOWN";
+type QuestionType = "SHORT_ANSWER" | "PARAGRAPH" | "MULTIPLE_CHOICE" | "CHECKBOXES" | "DROPDOWN" | "LINEAR_SCALE" | "MC_GRID" | "CHECKBOX_GRID" | "DATE" | "TIME" | "DATETIME" | "FILE_UPLOAD";
 
 interface OptionWithImage {
   text: string;
   imageUrl?: string;
+  capacity?: number | null; // Seats for sign-ups - null for unlimited
 }
 
 interface Question {
@@ -24,10 +31,32 @@ interface Question {
   required: boolean;
   options?: OptionWithImage[];
   shuffleOptionsOrder?: boolean;
+  hasOtherOption?: boolean;
+  minSelections?: number | null;
+  maxSelections?: number | null;
   imageUrl?: string; // Add image URL field
   // Quiz fields
   points?: number;
   correctAnswers?: string[];
+  visibilityRules?: VisibilityRules | null;
+  textValidation?: TextValidation | null;
+  // Linear scale settings
+  scaleMin?: number;
+  scaleMax?: number;
+  scaleMinLabel?: string;
+  scaleMaxLabel?: string;
+  // Grid settings
+  gridRows?: string[];
+  gridColumns?: string[];
+  requireEachRow?: boolean;
+  // Date / time settings
+  dateMin?: string;
+  dateMax?: string;
+  includeYear?: boolean;
+  // File upload settings
+  allowedFileTypes?: string[];
+  maxFiles?: number;
+  maxFileSize?: number;
 }
 
 export default function CreateFormPage() {
@@ -64,6 +93,16 @@ export default function CreateFormPage() {
     shuffleQuestions: false,
     collectEmail: false,
     allowMultipleResponses: true,
+    oneResponsePerAccount: false,
+    requireSignIn: false,
+    allowedRespondents: [] as string[],
+    passwordProtected: false,
+    accessPassword: '',
+    opensAt: '', // ISO time - '' when the form isn't scheduled
+    closesAt: '',
+    maxResponses: null as number | null, // null for no limit
+    fullMessage: DEFAULT_FULL_MESSAGE,
+    closedMessage: '', // Rich text - '' shows the default closed message
     showProgress: true,
     confirmationMessage: 'Your response has been recorded.',
     defaultRequired: false,
@@ -104,7 +143,22 @@ export default function CreateFormPage() {
         type: q.type,
         required: q.required,
         options: q.options || [],
-        imageUrl: q.imageUrl // Add image URL to preview data
+        hasOtherOption: q.hasOtherOption,
+        minSelections: q.minSelections,
+        maxSelections: q.maxSelections,
+        imageUrl: q.imageUrl, // Add image URL to preview data
+        scaleMin: q.scaleMin,
+        scaleMax: q.scaleMax,
+        scaleMinLabel: q.scaleMinLabel,
+        scaleMaxLabel: q.scaleMaxLabel,
+        gridRows: q.gridRows,
+        gridColumns: q.gridColumns,
+        dateMin: q.dateMin,
+        dateMax: q.dateMax,
+        includeYear: q.includeYear,
+        allowedFileTypes: q.allowedFileTypes,
+        maxFiles: q.maxFiles,
+        maxFileSize: q.maxFileSize
       }))
     };
     
@@ -313,9 +367,27 @@ export default function CreateFormPage() {
     required: boolean;
     options: OptionWithImage[];
     shuffleOptionsOrder?: boolean;
+  hasOtherOption?: boolean;
+  minSelections?: number | null;
+  maxSelections?: number | null;
     imageUrl?: string; // Add image URL field
     points?: number;
     correctAnswers?: string[];
+    visibilityRules?: VisibilityRules | null;
+  textValidation?: TextValidation | null;
+    scaleMin?: number;
+    scaleMax?: number;
+    scaleMinLabel?: string;
+    scaleMaxLabel?: string;
+    gridRows?: string[];
+    gridColumns?: string[];
+    requireEachRow?: boolean;
+    dateMin?: string;
+    dateMax?: string;
+    includeYear?: boolean;
+    allowedFileTypes?: string[];
+    maxFiles?: number;
+    maxFileSize?: number;
   }) => {
     setQuestions((prevQuestions) => {
       const updatedQuestions = prevQuestions.map((q) =>
@@ -328,9 +400,27 @@ export default function CreateFormPage() {
               required: updatedData.required,
               options: updatedData.options,
               shuffleOptionsOrder: updatedData.shuffleOptionsOrder,
+              hasOtherOption: updatedData.hasOtherOption,
+              minSelections: updatedData.minSelections,
+              maxSelections: updatedData.maxSelections,
               imageUrl: updatedData.imageUrl,
               points: updatedData.points,
               correctAnswers: updatedData.correctAnswers,
+              visibilityRules: updatedData.visibilityRules,
+              textValidation: updatedData.textValidation,
+              scaleMin: updatedData.scaleMin,
+              scaleMax: updatedData.scaleMax,
+              scaleMinLabel: updatedData.scaleMinLabel,
+              scaleMaxLabel: updatedData.scaleMaxLabel,
+              gridRows: updatedData.gridRows,
+              gridColumns: updatedData.gridColumns,
+              requireEachRow: updatedData.requireEachRow,
+              dateMin: updatedData.dateMin,
+              dateMax: updatedData.dateMax,
+              includeYear: updatedData.includeYear,
+              allowedFileTypes: updatedData.allowedFileTypes,
+              maxFiles: updatedData.maxFiles,
+              maxFileSize: updatedData.maxFileSize,
             }
           : q
       );
@@ -413,7 +503,7 @@ export default function CreateFormPage() {
           <>
                 {/* Questions Section */}
             <div className="space-y-6">
-              {questions.map((q) => (
+              {questions.map((q, index) => (
                 <QuestionCard 
                   key={q.id}
                   id={q.id}
@@ -423,11 +513,44 @@ export default function CreateFormPage() {
                   initialRequired={q.required}
                   initialOptions={q.options}
                   initialShuffleOptionsOrder={q.shuffleOptionsOrder}
+                  initialHasOtherOption={q.hasOtherOption}
+                  initialMinSelections={q.minSelections}
+                  initialMaxSelections={q.maxSelections}
                   initialImageUrl={q.imageUrl || ""}
                   // Quiz props
                   isQuiz={formSettings.isQuiz}
                   initialPoints={q.points || 1}
                   initialCorrectAnswers={q.correctAnswers || []}
+                  // Conditional logic props
+                  initialVisibilityRules={q.visibilityRules || null}
+                  initialTextValidation={q.textValidation || null}
+                  // Linear scale props
+                  initialScaleMin={q.scaleMin}
+                  initialScaleMax={q.scaleMax}
+                  initialScaleMinLabel={q.scaleMinLabel || ""}
+                  initialScaleMaxLabel={q.scaleMaxLabel || ""}
+                  // Grid props
+                  initialGridRows={q.gridRows || []}
+                  initialGridColumns={q.gridColumns || []}
+                  initialRequireEachRow={q.requireEachRow || false}
+                  // Date / time props
+                  initialDateMin={q.dateMin || ""}
+                  initialDateMax={q.dateMax || ""}
+                  initialIncludeYear={q.includeYear ?? true}
+                  // File upload props
+                  initialAllowedFileTypes={q.allowedFileTypes || []}
+                  initialMaxFiles={q.maxFiles}
+                  initialMaxFileSize={q.maxFileSize}
+                  ruleSourceQuestions={questions.slice(0, index).map(prev => ({
+                    id: prev.id,
+                    text: prev.question,
+                    type: prev.type,
+                    options: prev.type === "LINEAR_SCALE"
+                      ? getScaleValues(prev).map(String)
+                      : isGridType(prev.type)
+                        ? prev.gridColumns || []
+                        : (prev.options || []).map(opt => opt.text).filter(text => text.trim() !== '')
+                  }))}
                   onDelete={() => handleDeleteQuestion(q.id)}
                   onDuplicate={() => handleDuplicateQuestion(q.id)}
                   onUpdate={handleUpdateQuestion}
@@ -578,6 +701,181 @@ export default function CreateFormPage() {
                     />
                   </button>
                 </div>
+
+                {/* One response per account - only when multiple responses are off */}
+                {!formSettings.allowMultipleResponses && (
+                  <div className="flex items-start sm:items-center justify-between gap-2 sm:gap-4">
+                    <div className="flex-1 min-w-0 pr-2">
+                      <label className="text-xs sm:text-sm font-medium text-gray-700">Limit to 1 Response per Account</label>
+                      <p className="text-xs sm:text-sm text-gray-500 mt-1">
+                        Respondents must sign in, so clearing the browser doesn&apos;t let them respond again
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setFormSettings(prev => ({ ...prev, oneResponsePerAccount: !prev.oneResponsePerAccount }))}
+                      className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+                        formSettings.oneResponsePerAccount ? 'bg-blue-600' : 'bg-gray-300'
+                      }`}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          formSettings.oneResponsePerAccount ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  </div>
+                )}
+
+                {/* Require sign-in */}
+                <div className="flex items-start sm:items-center justify-between gap-2 sm:gap-4">
+                  <div className="flex-1 min-w-0 pr-2">
+                    <label className="text-xs sm:text-sm font-medium text-gray-700">Require Sign-in</label>
+                    <p className="text-xs sm:text-sm text-gray-500 mt-1">
+                      Only signed-in users can respond
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setFormSettings(prev => ({ ...prev, requireSignIn: !prev.requireSignIn }))}
+                    className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+                      formSettings.requireSignIn ? 'bg-blue-600' : 'bg-gray-300'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        formSettings.requireSignIn ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                </div>
+
+                {/* Allowed respondents - checked against the signed-in user's verified emails */}
+                {formSettings.requireSignIn && (
+                  <div>
+                    <label className="text-xs sm:text-sm font-medium text-gray-700">Allowed Emails or Domains</label>
+                    <p className="text-xs sm:text-sm text-gray-500 mt-1 mb-2">
+                      One per line, e.g. example.com or jane@example.com. Leave empty to allow anyone who signs in.
+                    </p>
+                    <textarea
+                      value={formSettings.allowedRespondents.join('\n')}
+                      onChange={(e) => setFormSettings(prev => ({ ...prev, allowedRespondents: e.target.value.split('\n') }))}
+                      className="w-full px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                      rows={3}
+                      placeholder="example.com"
+                    />
+                  </div>
+                )}
+
+                {/* Password protection */}
+                <div className="flex items-start sm:items-center justify-between gap-2 sm:gap-4">
+                  <div className="flex-1 min-w-0 pr-2">
+                    <label className="text-xs sm:text-sm font-medium text-gray-700">Password Protection</label>
+                    <p className="text-xs sm:text-sm text-gray-500 mt-1">
+                      Respondents enter a password before they can see the form
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setFormSettings(prev => ({ ...prev, passwordProtected: !prev.passwordProtected }))}
+                    className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+                      formSettings.passwordProtected ? 'bg-blue-600' : 'bg-gray-300'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        formSettings.passwordProtected ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                </div>
+
+                {formSettings.passwordProtected && (
+                  <div>
+                    <input
+                      type="password"
+                      value={formSettings.accessPassword}
+                      onChange={(e) => setFormSettings(prev => ({ ...prev, accessPassword: e.target.value }))}
+                      className="w-full px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                      placeholder="Password"
+                      autoComplete="new-password"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      The form stays open until a password is set
+                    </p>
+                  </div>
+                )}
+
+                {/* Schedule - entered in the browser's timezone, stored as UTC */}
+                <div>
+                  <label className="text-xs sm:text-sm font-medium text-gray-700">Schedule</label>
+                  <p className="text-xs sm:text-sm text-gray-500 mt-1 mb-2">
+                    Only accept responses between these times. Leave either blank for no limit.
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Opens</label>
+                      <input
+                        type="datetime-local"
+                        value={toLocalInputValue(formSettings.opensAt)}
+                        onChange={(e) => setFormSettings(prev => ({ ...prev, opensAt: fromLocalInputValue(e.target.value) }))}
+                        className="w-full px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Closes</label>
+                      <input
+                        type="datetime-local"
+                        value={toLocalInputValue(formSettings.closesAt)}
+                        onChange={(e) => setFormSettings(prev => ({ ...prev, closesAt: fromLocalInputValue(e.target.value) }))}
+                        className="w-full px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                      />
+                    </div>
+                  </div>
+                  {formSettings.opensAt && formSettings.closesAt && formSettings.closesAt <= formSettings.opensAt && (
+                    <p className="text-xs text-red-600 mt-1">The close time should be after the open time</p>
+                  )}
+                </div>
+
+                {/* Response limit - e.g. a fixed number of seats */}
+                <div>
+                  <label className="text-xs sm:text-sm font-medium text-gray-700">Response Limit</label>
+                  <p className="text-xs sm:text-sm text-gray-500 mt-1 mb-2">
+                    Stop accepting responses after this many. Leave blank for no limit.
+                  </p>
+                  <input
+                    type="number"
+                    min={1}
+                    value={formSettings.maxResponses ?? ''}
+                    onChange={(e) => setFormSettings(prev => ({ ...prev, maxResponses: parseMaxResponses(e.target.value) }))}
+                    className="w-full sm:w-40 px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                    placeholder="No limit"
+                  />
+                  {formSettings.maxResponses !== null && (
+                    <div className="mt-3">
+                      <label className="block text-xs text-gray-500 mb-1">Message when the form is full</label>
+                      <textarea
+                        value={formSettings.fullMessage}
+                        onChange={(e) => setFormSettings(prev => ({ ...prev, fullMessage: e.target.value }))}
+                        className="w-full px-2 sm:px-3 py-1.5 sm:py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                        rows={2}
+                        placeholder={DEFAULT_FULL_MESSAGE}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* Closed message - shown once the form stops accepting responses */}
+                <div>
+                  <label className="text-xs sm:text-sm font-medium text-gray-700">Closed Message</label>
+                  <p className="text-xs sm:text-sm text-gray-500 mt-1 mb-2">
+                    Shown to respondents when the form is closed. Leave blank for the default message.
+                  </p>
+                  <RichTextEditor
+                    value={formSettings.closedMessage}
+                    onChange={(value) => setFormSettings(prev => ({ ...prev, closedMessage: value }))}
+                    placeholder="This form is no longer accepting responses"
+                    className="w-full border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs sm:text-sm"
+                    style={{ minHeight: '60px', padding: '8px 12px' }}
+                  />
+                </div>
               </div>
 
               {/* Quiz Settings */}
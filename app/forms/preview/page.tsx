@@ -3,6 +3,12 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import LinearScaleInput from '@/components/LinearScaleInput';
+import GridInput from '@/components/GridInput';
+import DateInput from '@/components/DateInput';
+import FileUploadInput from '@/components/FileUploadInput';
+import OtherOptionInput from '@/components/OtherOptionInput';
+import type { AnswerValue, FormResponses } from '@/types/form';
 
 interface Option {
   id: string;
@@ -15,7 +21,24 @@ interface Question {
   type: string;
   required: boolean;
   options: Option[];
+  hasOtherOption?: boolean;
   imageUrl?: string; // Add image URL field
+  // Linear scale settings
+  scaleMin?: number;
+  scaleMax?: number;
+  scaleMinLabel?: string;
+  scaleMaxLabel?: string;
+  // Grid settings
+  gridRows?: string[];
+  gridColumns?: string[];
+  // Date / time settings
+  dateMin?: string;
+  dateMax?: string;
+  includeYear?: boolean;
+  // File upload settings
+  allowedFileTypes?: string[];
+  maxFiles?: number;
+  maxFileSize?: number;
 }
 
 interface PreviewFormData {
@@ -24,14 +47,11 @@ interface PreviewFormData {
   questions: Question[];
 }
 
-interface FormResponse {
-  [questionId: string]: string | string[];
-}
 
 export default function FormPreview() {
   const [formData, setFormData] = useState<PreviewFormData | null>(null);
   const [loading, setLoading] = useState(true);
-  const [responses, setResponses] = useState<FormResponse>({});
+  const [responses, setResponses] = useState<FormResponses>({});
   const [errors, setErrors] = useState<{[key: string]: string}>({});
 
   useEffect(() => {
@@ -47,7 +67,7 @@ export default function FormPreview() {
   }, []);
 
   // Handle input changes
-  const handleInputChange = (questionId: string, value: string | string[]) => {
+  const handleInputChange = (questionId: string, value: AnswerValue) => {
     setResponses(prev => ({
       ...prev,
       [questionId]: value
@@ -110,6 +130,14 @@ export default function FormPreview() {
                 <span className="text-gray-700 text-sm sm:text-base break-words flex-1 min-w-0">{option.text}</span>
               </label>
             ))}
+            {question.hasOtherOption && (
+              <OtherOptionInput
+                name={question.id}
+                type={question.type}
+                value={response}
+                onChange={(value) => handleInputChange(question.id, value)}
+              />
+            )}
           </div>
         );
 
@@ -135,6 +163,14 @@ export default function FormPreview() {
                 <span className="text-gray-700 text-sm sm:text-base break-words flex-1 min-w-0">{option.text}</span>
               </label>
             ))}
+            {question.hasOtherOption && (
+              <OtherOptionInput
+                name={question.id}
+                type={question.type}
+                value={response}
+                onChange={(value) => handleInputChange(question.id, value)}
+              />
+            )}
           </div>
         );
 
@@ -156,6 +192,60 @@ export default function FormPreview() {
           </select>
         );
 
+      case 'LINEAR_SCALE':
+        return (
+          <LinearScaleInput
+            name={question.id}
+            scaleMin={question.scaleMin}
+            scaleMax={question.scaleMax}
+            scaleMinLabel={question.scaleMinLabel}
+            scaleMaxLabel={question.scaleMaxLabel}
+            value={response as string || ''}
+            onChange={(value) => handleInputChange(question.id, value)}
+          />
+        );
+
+      case 'MC_GRID':
+      case 'CHECKBOX_GRID':
+        return (
+          <GridInput
+            name={question.id}
+            type={question.type}
+            rows={question.gridRows || []}
+            columns={question.gridColumns || []}
+            value={response}
+            onChange={(value) => handleInputChange(question.id, value)}
+          />
+        );
+
+      case 'DATE':
+      case 'TIME':
+      case 'DATETIME':
+        return (
+          <DateInput
+            type={question.type}
+            includeYear={question.includeYear}
+            dateMin={question.dateMin}
+            dateMax={question.dateMax}
+            value={response as string || ''}
+            onChange={(value) => handleInputChange(question.id, value)}
+          />
+        );
+
+      case 'FILE_UPLOAD':
+        // The form isn't saved yet, so there's nowhere to upload to
+        return (
+          <FileUploadInput
+            formId=""
+            questionId={question.id}
+            allowedFileTypes={question.allowedFileTypes}
+            maxFiles={question.maxFiles}
+            maxFileSize={question.maxFileSize}
+            disabled
+            onChange={() => {}}
+          />
+        );
+
       default:
         return <p className="text-gray-500 italic">Question type not supported in preview</p>;
     }
@@ -0,0 +1,163 @@
+"use client";
+
+import Link from "next/link";
+import { useState, useEffect } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import LoadingSpinner from "@/components/LoadingSpinner";
+
+interface TemplateSummary {
+  id: string;
+  title: string;
+  description: string | null;
+  questionCount: number;
+  createdAt?: string; // Personal templates only
+}
+
+export default function TemplateGallery() {
+  const { isSignedIn, isLoaded } = useAuth();
+  const router = useRouter();
+  const [starterTemplates, setStarterTemplates] = useState<TemplateSummary[]>([]);
+  const [personalTemplates, setPersonalTemplates] = useState<TemplateSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creatingId, setCreatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isLoaded) {
+      if (isSignedIn) {
+        fetchTemplates();
+      } else {
+        setLoading(false);
+      }
+    }
+  }, [isSignedIn, isLoaded]);
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch('/api/forms/templates');
+      const data = await response.json();
+
+      if (data.success) {
+        setStarterTemplates(data.starter);
+        setPersonalTemplates(data.personal);
+      }
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUseTemplate = async (templateId: string) => {
+    setCreatingId(templateId);
+
+    try {
+      const response = await fetch(`/api/forms/templates/${templateId}/use`, {
+        method: 'POST'
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        // Open the new draft in the editor
+        router.push(`/forms/${data.formId}`);
+        return;
+      }
+      alert(data.error || 'Failed to create form from template');
+    } catch (error) {
+      console.error('Error using template:', error);
+      alert('Failed to create form from template');
+    }
+    setCreatingId(null);
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    if (!confirm('Are you sure you want to delete this template? Forms created from it are kept.')) return;
+
+    try {
+      const response = await fetch(`/api/forms/templates/${templateId}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        setPersonalTemplates(personalTemplates.filter(template => template.id !== templateId));
+      }
+    } catch (error) {
+      console.error('Error deleting template:', error);
+    }
+  };
+
+  const renderTemplateCard = (template: TemplateSummary, canDelete: boolean) => (
+    <div
+      key={template.id}
+      className="bg-white rounded-lg border border-gray-200 p-4 sm:p-5 flex flex-col hover:shadow-md transition-shadow"
+    >
+      <h3 className="text-sm sm:text-base font-medium text-gray-900 truncate">{template.title || 'Untitled Form'}</h3>
+      {template.description && (
+        <p className="text-xs sm:text-sm text-gray-600 mt-1 line-clamp-2 break-words">{template.description}</p>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        {template.questionCount} question{template.questionCount === 1 ? '' : 's'}
+      </p>
+      <div className="flex items-center gap-3 mt-4 pt-3 border-t border-gray-100">
+        <button
+          onClick={() => handleUseTemplate(template.id)}
+          disabled={creatingId !== null}
+          className="px-3 py-1.5 text-xs sm:text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-lg transition-colors"
+        >
+          {creatingId === template.id ? 'Creating...' : 'Use template'}
+        </button>
+        {canDelete && (
+          <button
+            onClick={() => handleDeleteTemplate(template.id)}
+            className="text-xs sm:text-sm font-medium text-red-600 hover:text-red-700"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-900 min-h-screen">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
+        <div className="flex items-center justify-between gap-3 mb-4 sm:mb-6">
+          <h2 className="text-base sm:text-lg font-medium text-gray-700">Start from a template</h2>
+          <Link href="/forms/create" className="text-sm font-medium text-blue-600 hover:text-blue-700">
+            Blank form
+          </Link>
+        </div>
+
+        {!isLoaded || loading ? (
+          <div className="py-6 sm:py-8">
+            <LoadingSpinner message="Loading templates..." size="md" fullScreen={false} />
+          </div>
+        ) : !isSignedIn ? (
+          <div className="text-center py-8 sm:py-12">
+            <p className="text-sm sm:text-base text-gray-500">Please sign in to use templates.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mb-8 sm:mb-10">
+              {starterTemplates.map(template => renderTemplateCard(template, false))}
+            </div>
+
+            <h2 className="text-base sm:text-lg font-medium text-gray-700 mb-4 sm:mb-6">Your templates</h2>
+            {personalTemplates.length > 0 ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+                {personalTemplates.map(template => renderTemplateCard(template, true))}
+              </div>
+            ) : (
+              <div className="text-center py-8 sm:py-12">
+                <p className="text-sm sm:text-base text-gray-500">
+                  You haven&apos;t saved any templates yet. Use &quot;Save as template&quot; in a form&apos;s menu on the dashboard.
+                </p>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
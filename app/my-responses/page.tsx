@@ -0,0 +1,121 @@
+"use client";
+
+import Link from "next/link";
+import { useState, useEffect } from "react";
+import { useAuth } from "@clerk/nextjs";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import { formatTimeRemaining } from "@/lib/editToken";
+
+interface MyResponse {
+  id: string;
+  formId: string;
+  formTitle: string;
+  submittedAt: string;
+  score: {
+    totalScore: number;
+    maxScore: number | null;
+  } | null;
+  editLink: string | null;
+  editExpiresAt: string | null;
+}
+
+export default function MyResponses() {
+  const { isSignedIn, isLoaded } = useAuth();
+  const [responses, setResponses] = useState<MyResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (isLoaded) {
+      if (isSignedIn) {
+        fetchResponses();
+      } else {
+        setLoading(false);
+      }
+    }
+  }, [isSignedIn, isLoaded]);
+
+  const fetchResponses = async () => {
+    try {
+      const response = await fetch('/api/forms/responded');
+      const data = await response.json();
+
+      if (data.success) {
+        setResponses(data.responses);
+      }
+    } catch (error) {
+      console.error('Error fetching responses:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 min-h-screen">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
+        <h2 className="text-base sm:text-lg font-medium text-gray-700 mb-4 sm:mb-6">My responses</h2>
+
+        {!isLoaded || loading ? (
+          <div className="py-6 sm:py-8">
+            <LoadingSpinner message="Loading your responses..." size="md" fullScreen={false} />
+          </div>
+        ) : !isSignedIn ? (
+          <div className="text-center py-8 sm:py-12">
+            <p className="text-sm sm:text-base text-gray-500">Please sign in to view your responses.</p>
+          </div>
+        ) : responses.length > 0 ? (
+          <div className="space-y-3">
+            {responses.map((response) => (
+              <div
+                key={response.id}
+                className="bg-white rounded-lg border border-gray-200 px-4 py-3 sm:px-5 sm:py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-2 sm:gap-4"
+              >
+                <div className="flex-1 min-w-0">
+                  <Link
+                    href={`/forms/${response.formId}/view`}
+                    className="text-sm sm:text-base font-medium text-gray-900 hover:text-blue-600 truncate block"
+                  >
+                    {response.formTitle || 'Untitled Form'}
+                  </Link>
+                  <p className="text-xs sm:text-sm text-gray-500 mt-0.5">
+                    Submitted {new Date(response.submittedAt).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit'
+                    })}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  {response.score && (
+                    <span className="px-2.5 py-1 rounded-full text-xs font-semibold bg-blue-50 text-blue-700 border border-blue-200">
+                      Score: {response.score.totalScore}/{response.score.maxScore ?? 0}
+                    </span>
+                  )}
+                  {response.editLink && (
+                    <div className="text-right">
+                      <Link
+                        href={response.editLink}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                      >
+                        Edit response
+                      </Link>
+                      <p className="text-xs text-gray-500">
+                        {formatTimeRemaining(response.editExpiresAt ? new Date(response.editExpiresAt) : null)}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 sm:py-12">
+            <p className="text-sm sm:text-base text-gray-500">You haven&apos;t responded to any forms while signed in.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
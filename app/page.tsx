@@ -6,12 +6,20 @@ import { useAuth } from "@clerk/nextjs";
 import { useRouter } from "next/navigation";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import FloatingActionButton from "@/components/FloatingActionButton";
+import ImportFormModal from "@/components/ImportFormModal";
+import TrashList from "@/components/TrashList";
+import { getResponseStatus, type ResponseStatus } from "@/utils/formSchedule";
 
 interface UserForm {
   id: string;
   title: string;
   description: string | null;
   published: boolean;
+  acceptingResponses: boolean;
+  opensAt: string | null;
+  closesAt: string | null;
+  maxResponses: number | null;
+  responseCount: number;
   createdAt: string;
   sections: {
     id: string;
@@ -27,6 +35,15 @@ interface UserForm {
   }[];
 }
 
+// Status badge - published forms show whether they're taking responses right now
+const STATUS_BADGES: Record<ResponseStatus | 'draft', { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-amber-100 text-amber-700 border border-amber-200' },
+  open: { label: 'Live', className: 'bg-emerald-100 text-emerald-700 border border-emerald-200' },
+  scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-700 border border-blue-200' },
+  closed: { label: 'Closed', className: 'bg-gray-100 text-gray-600 border border-gray-200' },
+  full: { label: 'Full', className: 'bg-rose-100 text-rose-700 border border-rose-200' }
+};
+
 export default function Dashboard() {
   const { isSignedIn, isLoaded } = useAuth();
   const router = useRouter();
@@ -36,6 +53,8 @@ export default function Dashboard() {
   const [renamingFormId, setRenamingFormId] = useState<string | null>(null);
   const [newTitle, setNewTitle] = useState<string>('');
   const [showFab, setShowFab] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
 
   useEffect(() => {
     if (isLoaded) {
@@ -92,8 +111,23 @@ export default function Dashboard() {
     router.push(`/forms/${formId}`);
   };
 
-  const handleDuplicateForm = (formId: string) => {
-    // Feature coming soon
+  const handleDuplicateForm = async (formId: string) => {
+    setOpenMenuId(null);
+
+    try {
+      const response = await fetch(`/api/forms/${formId}/duplicate`, {
+        method: 'POST'
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        // Open the copy in the editor
+        router.push(`/forms/${data.formId}`);
+      }
+    } catch (error) {
+      // Error duplicating form
+    }
   };
 
   const handleMenuToggle = (formId: string) => {
@@ -148,9 +182,39 @@ export default function Dashboard() {
     setOpenMenuId(null);
   };
 
+  const handleSaveAsTemplate = async (formId: string) => {
+    setOpenMenuId(null);
+
+    try {
+      const response = await fetch('/api/forms/templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ formId }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        alert('Saved to your templates. Find it under "From template".');
+      } else {
+        alert(data.error || 'Failed to save template');
+      }
+    } catch (error) {
+      alert('Failed to save template');
+    }
+  };
+
+  const handleExportForm = (formId: string) => {
+    // The route responds with a file download
+    window.location.href = `/api/forms/${formId}/export`;
+    setOpenMenuId(null);
+  };
+
   const handleDeleteForm = async (formId: string) => {
-    // Confirm before deleting
-    if (confirm('Are you sure you want to delete this form?')) {
+    // Confirm before moving to Trash
+    if (confirm('Move this form to Trash? You can restore it, with its responses, from Trash until it\'s deleted forever.')) {
       try {
         const response = await fetch(`/api/forms/delete/${formId}`, {
           method: 'DELETE'
@@ -173,34 +237,101 @@ export default function Dashboard() {
         {/* Start a new form section */}
         <div className="mb-8 sm:mb-10 lg:mb-12" id="new-form-section">
           <h2 className="text-base sm:text-lg font-medium text-gray-700 mb-3 sm:mb-4">Start a new form</h2>
-          <div className="w-full sm:w-48">
-            <button 
-              onClick={() => {
-                if (isSignedIn) {
-                  router.push('/forms/create');
-                } else {
-                  router.push('/sign-in');
-                }
-              }}
-              className="block w-full"
-            >
-              <div className="bg-white border-2 border-dashed border-gray-300 rounded-lg p-6 sm:p-8 hover:border-blue-400 hover:bg-blue-50 transition-colors cursor-pointer">
-                <div className="text-center">
-                  <div className="w-10 h-10 sm:w-12 sm:h-12 mx-auto mb-2 sm:mb-3 bg-blue-100 rounded-full flex items-center justify-center">
-                    <svg className="w-5 h-5 sm:w-6 sm:h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                    </svg>
+          <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
+            <div className="w-full sm:w-48">
+              <button 
+                onClick={() => {
+                  if (isSignedIn) {
+                    router.push('/forms/create');
+                  } else {
+                    router.push('/sign-in');
+                  }
+                }}
+                className="block w-full"
+              >
+                <div className="bg-white border-2 border-dashed border-gray-300 rounded-lg p-6 sm:p-8 hover:border-blue-400 hover:bg-blue-50 transition-colors cursor-pointer">
+                  <div className="text-center">
+                    <div className="w-10 h-10 sm:w-12 sm:h-12 mx-auto mb-2 sm:mb-3 bg-blue-100 rounded-full flex items-center justify-center">
+                      <svg className="w-5 h-5 sm:w-6 sm:h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                      </svg>
+                    </div>
+                    <p className="text-xs sm:text-sm font-medium text-gray-900">New form</p>
                   </div>
-                  <p className="text-xs sm:text-sm font-medium text-gray-900">New form</p>
                 </div>
-              </div>
-            </button>
+              </button>
+            </div>
+            <div className="w-full sm:w-48">
+              <button 
+                onClick={() => {
+                  if (isSignedIn) {
+                    router.push('/forms/templates');
+                  } else {
+                    router.push('/sign-in');
+                  }
+                }}
+                className="block w-full"
+              >
+                <div className="bg-white border-2 border-dashed border-gray-300 rounded-lg p-6 sm:p-8 hover:border-blue-400 hover:bg-blue-50 transition-colors cursor-pointer">
+                  <div className="text-center">
+                    <div className="w-10 h-10 sm:w-12 sm:h-12 mx-auto mb-2 sm:mb-3 bg-blue-100 rounded-full flex items-center justify-center">
+                      <svg className="w-5 h-5 sm:w-6 sm:h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v2a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM4 13a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H5a1 1 0 01-1-1v-6zM16 13a1 1 0 011-1h2a1 1 0 011 1v6a1 1 0 01-1 1h-2a1 1 0 01-1-1v-6z" />
+                      </svg>
+                    </div>
+                    <p className="text-xs sm:text-sm font-medium text-gray-900">From template</p>
+                  </div>
+                </div>
+              </button>
+            </div>
+            <div className="w-full sm:w-48">
+              <button 
+                onClick={() => {
+                  if (isSignedIn) {
+                    setShowImportModal(true);
+                  } else {
+                    router.push('/sign-in');
+                  }
+                }}
+                className="block w-full"
+              >
+                <div className="bg-white border-2 border-dashed border-gray-300 rounded-lg p-6 sm:p-8 hover:border-blue-400 hover:bg-blue-50 transition-colors cursor-pointer">
+                  <div className="text-center">
+                    <div className="w-10 h-10 sm:w-12 sm:h-12 mx-auto mb-2 sm:mb-3 bg-blue-100 rounded-full flex items-center justify-center">
+                      <svg className="w-5 h-5 sm:w-6 sm:h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                      </svg>
+                    </div>
+                    <p className="text-xs sm:text-sm font-medium text-gray-900">Import form</p>
+                  </div>
+                </div>
+              </button>
+            </div>
           </div>
         </div>
 
         {/* Owned by you section */}
         <div>
-          <h2 className="text-base sm:text-lg font-medium text-gray-700 mb-4 sm:mb-6">Owned by you</h2>
+          <div className="flex items-center justify-between gap-3 mb-4 sm:mb-6">
+            <h2 className="text-base sm:text-lg font-medium text-gray-700">{showTrash ? 'Trash' : 'Owned by you'}</h2>
+            {isSignedIn && (
+              <button
+                onClick={() => setShowTrash(!showTrash)}
+                className="flex items-center gap-1.5 text-sm font-medium text-gray-600 hover:text-gray-900"
+              >
+                {showTrash ? (
+                  <span>Back to forms</span>
+                ) : (
+                  <>
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                    <span>Trash</span>
+                  </>
+                )}
+              </button>
+            )}
+          </div>
           
           {/* Forms grid - responsive */}
           {!isLoaded || loading ? (
@@ -211,6 +342,8 @@ export default function Dashboard() {
             <div className="text-center py-8 sm:py-12">
               <p className="text-sm sm:text-base text-gray-500">Please sign in to view your forms.</p>
             </div>
+          ) : showTrash ? (
+            <TrashList onRestored={fetchUserForms} />
           ) : userForms.length > 0 ? (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4 sm:gap-5 lg:gap-6">
               {userForms.map((form) => (
@@ -319,11 +452,9 @@ export default function Dashboard() {
                       {/* Right Side - Status + Menu (All in one line) */}
                       <div className="flex items-center space-x-1.5 sm:space-x-2 flex-shrink-0">
                         <span className={`px-2 sm:px-2.5 py-0.5 sm:py-1 rounded-full text-xs font-semibold shadow-sm ${
-                          form.published 
-                            ? 'bg-emerald-100 text-emerald-700 border border-emerald-200' 
-                            : 'bg-amber-100 text-amber-700 border border-amber-200'
+                          STATUS_BADGES[form.published ? getResponseStatus(form) : 'draft'].className
                         }`}>
-                          {form.published ? 'Live' : 'Draft'}
+                          {STATUS_BADGES[form.published ? getResponseStatus(form) : 'draft'].label}
                         </span>
                         
                         <div className="relative">
@@ -365,6 +496,42 @@ export default function Dashboard() {
                                 </svg>
                                 <span>Open in new tab</span>
                               </button>
+
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDuplicateForm(form.id);
+                                }}
+                                className="flex items-center space-x-2 w-full px-3 sm:px-4 py-2 text-xs sm:text-sm text-gray-700 hover:bg-gray-100 text-left">
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                                </svg>
+                                <span>Make a copy</span>
+                              </button>
+
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleExportForm(form.id);
+                                }}
+                                className="flex items-center space-x-2 w-full px-3 sm:px-4 py-2 text-xs sm:text-sm text-gray-700 hover:bg-gray-100 text-left">
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                                </svg>
+                                <span>Export</span>
+                              </button>
+
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleSaveAsTemplate(form.id);
+                                }}
+                                className="flex items-center space-x-2 w-full px-3 sm:px-4 py-2 text-xs sm:text-sm text-gray-700 hover:bg-gray-100 text-left">
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                                </svg>
+                                <span>Save as template</span>
+                              </button>
                               
                               <hr className="my-1" />
                               
@@ -461,6 +628,13 @@ export default function Dashboard() {
         </div>
       )}
 
+      {/* Import form dialog */}
+      <ImportFormModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={(formId) => router.push(`/forms/${formId}`)}
+      />
+
       {/* Floating Action Button for Create New Form */}
       {showFab && <FloatingActionButton />}
     </div>
@@ -0,0 +1,190 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { CONDITION_OPERATORS } from "@/utils/conditionalLogic";
+import type { ConditionOperator, VisibilityCondition, VisibilityRules } from "@/types/form";
+
+export interface RuleSourceQuestion {
+  id: string;
+  text: string;
+  type: string;
+  options: string[];
+}
+
+interface ConditionalLogicEditorProps {
+  rules: VisibilityRules;
+  sourceQuestions: RuleSourceQuestion[]; // Questions that come before this one
+  themeColor?: string;
+  onChange: (rules: VisibilityRules) => void;
+}
+
+// Question text is rich text - show plain text in the pickers
+const plainText = (html: string) => html.replace(/<[^>]*>/g, '').trim() || 'Untitled question';
+
+export default function ConditionalLogicEditor({
+  rules,
+  sourceQuestions,
+  themeColor = "#4285F4",
+  onChange
+}: ConditionalLogicEditorProps) {
+  const updateCondition = (index: number, changes: Partial<VisibilityCondition>) => {
+    const conditions = rules.conditions.map((condition, i) =>
+      i === index ? { ...condition, ...changes } : condition
+    );
+    onChange({ ...rules, conditions });
+  };
+
+  const addCondition = () => {
+    onChange({
+      ...rules,
+      conditions: [
+        ...rules.conditions,
+        { questionId: sourceQuestions[0]?.id || '', operator: 'equals', value: '' }
+      ]
+    });
+  };
+
+  const removeCondition = (index: number) => {
+    onChange({ ...rules, conditions: rules.conditions.filter((_, i) => i !== index) });
+  };
+
+  const renderValueInput = (condition: VisibilityCondition, index: number) => {
+    const source = sourceQuestions.find(q => q.id === condition.questionId);
+    const operator = CONDITION_OPERATORS.find(op => op.value === condition.operator);
+
+    if (!operator || operator.input === 'none') return null;
+
+    // Choice questions - pick from the options
+    if (source && source.options.length > 0 && condition.operator !== 'contains') {
+      if (operator.input === 'single') {
+        return (
+          <select
+            value={condition.value || ''}
+            onChange={(e) => updateCondition(index, { value: e.target.value })}
+            className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white outline-none focus:border-blue-500"
+          >
+            <option value="">Select an option</option>
+            {source.options.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      }
+
+      return (
+        <div className="flex-1 flex flex-wrap gap-x-4 gap-y-1">
+          {source.options.map(option => (
+            <label key={option} className="flex items-center space-x-1.5 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={(condition.values || []).includes(option)}
+                onChange={(e) => {
+                  const values = condition.values || [];
+                  updateCondition(index, {
+                    values: e.target.checked ? [...values, option] : values.filter(v => v !== option)
+                  });
+                }}
+                className="w-4 h-4"
+                style={{ accentColor: themeColor }}
+              />
+              <span>{option}</span>
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    // Text questions - free text (comma separated for "any of" / "all of")
+    return (
+      <input
+        type="text"
+        value={operator.input === 'multiple' ? (condition.values || []).join(', ') : (condition.value || '')}
+        onChange={(e) => {
+          if (operator.input === 'multiple') {
+            updateCondition(index, {
+              values: e.target.value.split(',').map(v => v.trim()).filter(Boolean)
+            });
+          } else {
+            updateCondition(index, { value: e.target.value });
+          }
+        }}
+        placeholder={operator.input === 'multiple' ? 'Values, separated by commas' : 'Value'}
+        className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-md outline-none focus:border-blue-500"
+      />
+    );
+  };
+
+  if (sourceQuestions.length === 0) {
+    return (
+      <div className="mt-6 p-4 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-600">
+        Conditional logic can only depend on questions that come before this one. Add a question above to set up a rule.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-gray-800">Show this question if</h4>
+        {rules.conditions.length > 1 && (
+          <select
+            value={rules.logic}
+            onChange={(e) => onChange({ ...rules, logic: e.target.value as VisibilityRules['logic'] })}
+            className="px-2 py-1 text-xs border border-gray-300 rounded-md bg-white outline-none"
+          >
+            <option value="AND">All conditions match</option>
+            <option value="OR">Any condition matches</option>
+          </select>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {rules.conditions.map((condition, index) => (
+          <div key={index} className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <select
+              value={condition.questionId}
+              onChange={(e) => updateCondition(index, { questionId: e.target.value, value: '', values: [] })}
+              className="sm:w-56 px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white outline-none focus:border-blue-500"
+            >
+              {!sourceQuestions.some(q => q.id === condition.questionId) && (
+                <option value={condition.questionId}>Deleted question</option>
+              )}
+              {sourceQuestions.map(question => (
+                <option key={question.id} value={question.id}>{plainText(question.text)}</option>
+              ))}
+            </select>
+
+            <select
+              value={condition.operator}
+              onChange={(e) => updateCondition(index, { operator: e.target.value as ConditionOperator })}
+              className="sm:w-40 px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white outline-none focus:border-blue-500"
+            >
+              {CONDITION_OPERATORS.map(op => (
+                <option key={op.value} value={op.value}>{op.label}</option>
+              ))}
+            </select>
+
+            {renderValueInput(condition, index)}
+
+            <button
+              onClick={() => removeCondition(index)}
+              className="self-end sm:self-auto p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+              title="Remove condition"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={addCondition}
+        className="mt-3 flex items-center space-x-1.5 text-sm font-medium hover:opacity-80"
+        style={{ color: themeColor }}
+      >
+        <Plus className="w-4 h-4" />
+        <span>Add condition</span>
+      </button>
+    </div>
+  );
+}
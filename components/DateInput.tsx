@@ -0,0 +1,119 @@
+'use client';
+
+interface DateInputProps {
+  type: string; // DATE, TIME or DATETIME
+  includeYear?: boolean;
+  dateMin?: string | null;
+  dateMax?: string | null;
+  value?: string;
+  hasError?: boolean;
+  themeColor?: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export default function DateInput({
+  type,
+  includeYear = true,
+  dateMin,
+  dateMax,
+  value = '',
+  hasError = false,
+  themeColor = '#4285F4',
+  disabled = false,
+  onChange
+}: DateInputProps) {
+  const inputClass = `px-2 sm:px-3 py-2 sm:py-3 border rounded-md focus:outline-none focus:ring-2 bg-white text-sm sm:text-base ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  }`;
+  const ringStyle = { '--tw-ring-color': themeColor } as React.CSSProperties;
+
+  if (type === 'TIME') {
+    return (
+      <input
+        type="time"
+        value={value}
+        min={dateMin || undefined}
+        max={dateMax || undefined}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClass}
+        style={ringStyle}
+      />
+    );
+  }
+
+  if (includeYear) {
+    return (
+      <input
+        type={type === 'DATETIME' ? 'datetime-local' : 'date'}
+        value={value}
+        min={dateMin || undefined}
+        max={dateMax || undefined}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClass}
+        style={ringStyle}
+      />
+    );
+  }
+
+  // No year - month and day pickers, stored as --MM-DD (plus THH:mm for date-time)
+  const [datePart = '', timePart = ''] = value.split('T');
+  const [, month = '', day = ''] = datePart.match(/^--(\d{2}|)-(\d{2}|)$/) || [];
+
+  const update = (nextMonth: string, nextDay: string, nextTime: string) => {
+    if (!nextMonth && !nextDay && !nextTime) {
+      onChange('');
+      return;
+    }
+    const date = `--${nextMonth}-${nextDay}`;
+    onChange(type === 'DATETIME' ? `${date}T${nextTime}` : date);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={month}
+        disabled={disabled}
+        onChange={(e) => update(e.target.value, day, timePart)}
+        className={inputClass}
+        style={ringStyle}
+      >
+        <option value="">Month</option>
+        {MONTH_NAMES.map((name, index) => (
+          <option key={name} value={pad(index + 1)}>{name}</option>
+        ))}
+      </select>
+      <select
+        value={day}
+        disabled={disabled}
+        onChange={(e) => update(month, e.target.value, timePart)}
+        className={inputClass}
+        style={ringStyle}
+      >
+        <option value="">Day</option>
+        {Array.from({ length: 31 }, (_, i) => pad(i + 1)).map(dayValue => (
+          <option key={dayValue} value={dayValue}>{Number(dayValue)}</option>
+        ))}
+      </select>
+      {type === 'DATETIME' && (
+        <input
+          type="time"
+          value={timePart}
+          disabled={disabled}
+          onChange={(e) => update(month, day, e.target.value)}
+          className={inputClass}
+          style={ringStyle}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Paperclip, X } from 'lucide-react';
+import {
+  formatFileSize,
+  getAcceptAttribute,
+  getFileLimits,
+  validateUpload,
+  type UploadedFileInfo
+} from '@/utils/fileUploads';
+
+interface FileUploadInputProps {
+  formId: string;
+  questionId: string;
+  allowedFileTypes?: string[];
+  maxFiles?: number | null;
+  maxFileSize?: number | null;
+  value?: string[]; // Uploaded file IDs - the question's answer
+  initialFiles?: UploadedFileInfo[]; // Names for files uploaded before this page load
+  themeColor?: string;
+  disabled?: boolean;
+  hasError?: boolean;
+  onChange: (fileIds: string[]) => void;
+}
+
+export default function FileUploadInput({
+  formId,
+  questionId,
+  allowedFileTypes = [],
+  maxFiles,
+  maxFileSize,
+  value = [],
+  initialFiles = [],
+  themeColor = '#4285F4',
+  disabled = false,
+  hasError = false,
+  onChange
+}: FileUploadInputProps) {
+  const [files, setFiles] = useState<UploadedFileInfo[]>(initialFiles);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const limits = getFileLimits({ maxFiles, maxFileSize });
+  const remaining = limits.maxFiles - value.length;
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    event.target.value = ''; // Allow picking the same file again after removing it
+    if (selected.length === 0) return;
+
+    setUploadError(null);
+
+    if (selected.length > remaining) {
+      setUploadError(`You can upload at most ${limits.maxFiles} file${limits.maxFiles === 1 ? '' : 's'}`);
+      return;
+    }
+
+    // Check type and size before sending anything - the upload route checks again
+    for (const file of selected) {
+      const error = validateUpload({ allowedFileTypes, ...limits }, file);
+      if (error) {
+        setUploadError(error);
+        return;
+      }
+    }
+
+    setUploading(true);
+    const uploaded: UploadedFileInfo[] = [];
+
+    try {
+      for (const file of selected) {
+        const body = new FormData();
+        body.append('questionId', questionId);
+        body.append('file', file);
+
+        const response = await fetch(`/api/forms/${formId}/upload`, { method: 'POST', body });
+        const data = await response.json();
+
+        if (!data.success) {
+          setUploadError(data.error || `Failed to upload "${file.name}"`);
+          break;
+        }
+        uploaded.push(data.file);
+      }
+    } catch (error) {
+      console.error('Error uploading file:', error);
+      setUploadError('Failed to upload file. Please try again.');
+    } finally {
+      setUploading(false);
+    }
+
+    if (uploaded.length > 0) {
+      setFiles(prev => [...prev, ...uploaded]);
+      onChange([...value, ...uploaded.map(file => file.id)]);
+    }
+  };
+
+  const removeFile = (fileId: string) => {
+    onChange(value.filter(id => id !== fileId));
+  };
+
+  return (
+    <div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={getAcceptAttribute(allowedFileTypes)}
+        multiple={remaining > 1}
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+
+      {value.length > 0 && (
+        <ul className="mb-3 space-y-2">
+          {value.map(fileId => {
+            const file = files.find(f => f.id === fileId);
+            return (
+              <li
+                key={fileId}
+                className="flex items-center justify-between gap-2 px-3 py-2 border border-gray-200 rounded-md bg-gray-50 text-sm"
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  <Paperclip className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                  <span className="truncate text-gray-900">{file?.fileName || 'Uploaded file'}</span>
+                  {file && <span className="text-gray-500 flex-shrink-0">{formatFileSize(file.size)}</span>}
+                </span>
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() => removeFile(fileId)}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    aria-label={`Remove ${file?.fileName || 'file'}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {remaining > 0 && (
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || uploading}
+          className={`px-4 py-2 border rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            hasError ? 'border-red-500' : 'border-gray-300 hover:bg-gray-50'
+          }`}
+          style={{ color: themeColor }}
+        >
+          {uploading ? 'Uploading...' : 'Add file'}
+        </button>
+      )}
+
+      <p className="mt-2 text-xs text-gray-500">
+        Up to {limits.maxFiles} file{limits.maxFiles === 1 ? '' : 's'}, {limits.maxFileSize} MB each
+      </p>
+
+      {uploadError && (
+        <p className="mt-1 text-sm text-red-600">{uploadError}</p>
+      )}
+    </div>
+  );
+}
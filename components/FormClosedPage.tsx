@@ -0,0 +1,99 @@
+"use client";
+
+import { formatScheduleDate, type ResponseStatus } from '@/utils/formSchedule';
+
+interface ClosedForm {
+  title: string;
+  acceptingResponses: boolean;
+  opensAt?: string | null;
+  closesAt?: string | null;
+  fullMessage?: string;
+  closedMessage?: string | null; // Owner's rich text - null for the default message
+  themeColor?: string;
+  themeBackground?: string;
+}
+
+interface FormClosedPageProps {
+  form: ClosedForm;
+  responseStatus: Exclude<ResponseStatus, 'open'>;
+}
+
+// Links in the owner's message open in a new tab, like the rest of the form's rich text
+const openLinkInNewTab = (e: React.MouseEvent<HTMLElement>) => {
+  const target = e.target as HTMLElement;
+  if (target.tagName === 'A') {
+    e.preventDefault();
+    window.open((target as HTMLAnchorElement).href, '_blank', 'noopener,noreferrer');
+  }
+};
+
+/**
+ * Page shown instead of the form when it isn't taking responses - closed by the owner or its
+ * close time, not open yet, or full
+ */
+export default function FormClosedPage({ form, responseStatus }: FormClosedPageProps) {
+  const themeColor = form.themeColor || '#4285F4';
+  // A form that is still switched on but closed has passed its close time
+  const closedOn = responseStatus === 'closed' && form.acceptingResponses ? form.closesAt : null;
+
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center px-4 py-8"
+      style={{ backgroundColor: form.themeBackground || 'rgba(66, 133, 244, 0.1)' }}
+    >
+      <div className="w-full max-w-2xl bg-white rounded-lg shadow-sm overflow-hidden">
+        <div className="h-2" style={{ backgroundColor: themeColor }}></div>
+        <div className="p-4 sm:p-6 lg:p-8 text-center">
+          <h1
+            className="text-xl sm:text-2xl font-bold text-gray-800 mb-4 sm:mb-6 break-words [&_a]:text-blue-600 [&_a]:underline [&_a]:cursor-pointer"
+            dangerouslySetInnerHTML={{ __html: form.title || 'Untitled Form' }}
+            onClick={openLinkInNewTab}
+          />
+          <div
+            className="w-16 h-16 mx-auto mb-4 rounded-full flex items-center justify-center"
+            style={{ backgroundColor: `${themeColor}1a`, color: themeColor }}
+          >
+            {responseStatus === 'scheduled' ? (
+              <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            ) : (
+              <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+              </svg>
+            )}
+          </div>
+
+          {responseStatus === 'full' ? (
+            <>
+              <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2 break-words">This form is full</h2>
+              <p className="text-sm sm:text-base text-gray-600 break-words whitespace-pre-wrap">{form.fullMessage}</p>
+            </>
+          ) : responseStatus === 'scheduled' ? (
+            <>
+              <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2 break-words">This form isn&apos;t accepting responses yet</h2>
+              <p className="text-sm sm:text-base text-gray-600 break-words">
+                {form.opensAt ? `It opens on ${formatScheduleDate(form.opensAt)}.` : 'Check back later.'}
+              </p>
+            </>
+          ) : (
+            <>
+              <h2 className="text-lg sm:text-xl font-semibold text-gray-800 mb-2 break-words">
+                {closedOn ? `This form closed on ${formatScheduleDate(closedOn)}` : 'This form is no longer accepting responses'}
+              </h2>
+              {form.closedMessage ? (
+                <div
+                  className="text-sm sm:text-base text-gray-600 break-words [&_a]:text-blue-600 [&_a]:underline [&_a]:cursor-pointer"
+                  dangerouslySetInnerHTML={{ __html: form.closedMessage }}
+                  onClick={openLinkInNewTab}
+                />
+              ) : (
+                <p className="text-sm sm:text-base text-gray-600 break-words">Try contacting the owner of the form if you think this is a mistake.</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
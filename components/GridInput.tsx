@@ -0,0 +1,71 @@
+'use client';
+
+import type { AnswerValue, GridAnswer } from '@/types/form';
+import { parseGridAnswer, toggleGridCell } from '@/utils/gridQuestions';
+
+interface GridInputProps {
+  name: string; // Radio group prefix - use the question ID
+  type: string; // MC_GRID or CHECKBOX_GRID
+  rows: string[];
+  columns: string[];
+  value?: AnswerValue;
+  themeColor?: string;
+  disabled?: boolean;
+  missingRows?: string[]; // Rows to highlight as needing a response
+  onChange: (value: GridAnswer) => void;
+}
+
+export default function GridInput({
+  name,
+  type,
+  rows,
+  columns,
+  value,
+  themeColor = '#4285F4',
+  disabled = false,
+  missingRows = [],
+  onChange
+}: GridInputProps) {
+  const grid = parseGridAnswer({ type, gridRows: rows, gridColumns: columns }, value);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr>
+            <th className="p-2"></th>
+            {columns.map(column => (
+              <th key={column} className="p-2 text-center font-normal text-gray-700 break-words min-w-[64px]">
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, rowIndex) => (
+            <tr
+              key={row}
+              className={missingRows.includes(row) ? 'bg-red-50' : rowIndex % 2 === 0 ? 'bg-gray-50' : 'bg-white'}
+            >
+              <td className="p-2 sm:p-3 text-gray-800 break-words max-w-[160px]">{row}</td>
+              {columns.map(column => (
+                <td key={column} className="p-2 text-center">
+                  <input
+                    type={type === 'MC_GRID' ? 'radio' : 'checkbox'}
+                    name={`${name}-${rowIndex}`}
+                    checked={(grid[row] || []).includes(column)}
+                    disabled={disabled}
+                    onChange={() => onChange(toggleGridCell(type, grid, row, column))}
+                    aria-label={`${row}: ${column}`}
+                    className="w-4 h-4 cursor-pointer"
+                    style={{ accentColor: themeColor }}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from 'react';
+import type { DefinitionError } from '@/types/formDefinition';
+
+interface ImportFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (formId: string) => void;
+}
+
+export default function ImportFormModal({ isOpen, onClose, onImported }: ImportFormModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<DefinitionError[]>([]);
+
+  const resetErrors = () => {
+    setError(null);
+    setFieldErrors([]);
+  };
+
+  const handleClose = () => {
+    setFile(null);
+    resetErrors();
+    onClose();
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setImporting(true);
+    resetErrors();
+
+    try {
+      const response = await fetch('/api/forms/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: await file.text(),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setFile(null);
+        onImported(data.formId);
+      } else {
+        setError(data.error || 'Failed to import form');
+        setFieldErrors(data.errors || []);
+      }
+    } catch (error) {
+      console.error('Error importing form:', error);
+      setError('Failed to import form');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-50 transition-all duration-200"
+      onClick={handleClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-md w-full mx-4 transform transition-all duration-200 scale-100"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-5 border-b border-gray-100 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Import form
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+            Upload a form file exported from Forms4U. It&apos;s added to your forms as a draft.
+          </p>
+        </div>
+
+        {/* File */}
+        <div className="px-6 py-5">
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] || null);
+              resetErrors();
+            }}
+            className="block w-full text-sm text-gray-700 dark:text-gray-300 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+          />
+
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm font-medium text-red-700">{error}</p>
+              {fieldErrors.length > 0 && (
+                <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+                  {fieldErrors.map((fieldError, index) => (
+                    <li key={index} className="text-xs text-red-600 break-words">
+                      {fieldError.field && <code className="font-mono">{fieldError.field}</code>}
+                      {fieldError.field && ': '}
+                      {fieldError.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Buttons */}
+        <div className="px-6 py-4 border-t border-gray-100 dark:border-gray-700 flex justify-end space-x-3 bg-gray-50 dark:bg-gray-800 rounded-b-xl">
+          <button
+            onClick={handleClose}
+            className="px-5 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 border border-gray-200 dark:border-gray-600 rounded-lg transition-all duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!file || importing}
+            className="px-5 py-2.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-lg transition-all duration-200 shadow-sm hover:shadow-md"
+          >
+            {importing ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
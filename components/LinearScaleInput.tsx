@@ -0,0 +1,63 @@
+'use client';
+
+import { getScaleValues } from '@/utils/linearScale';
+
+interface LinearScaleInputProps {
+  name: string; // Radio group name - use the question ID
+  scaleMin?: number | null;
+  scaleMax?: number | null;
+  scaleMinLabel?: string | null;
+  scaleMaxLabel?: string | null;
+  value?: string;
+  themeColor?: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}
+
+export default function LinearScaleInput({
+  name,
+  scaleMin,
+  scaleMax,
+  scaleMinLabel,
+  scaleMaxLabel,
+  value = '',
+  themeColor = '#4285F4',
+  disabled = false,
+  onChange
+}: LinearScaleInputProps) {
+  const values = getScaleValues({ scaleMin, scaleMax });
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex items-end justify-center gap-2 sm:gap-4 min-w-max mx-auto py-2">
+        {scaleMinLabel && (
+          <span className="pb-1 text-xs sm:text-sm text-gray-600 text-right max-w-[90px] sm:max-w-[140px] break-words">
+            {scaleMinLabel}
+          </span>
+        )}
+
+        {values.map(scaleValue => (
+          <label key={scaleValue} className="flex flex-col items-center gap-1.5 cursor-pointer">
+            <span className="text-xs sm:text-sm text-gray-700">{scaleValue}</span>
+            <input
+              type="radio"
+              name={name}
+              value={scaleValue}
+              checked={value === String(scaleValue)}
+              disabled={disabled}
+              onChange={(e) => onChange(e.target.value)}
+              className="w-4 h-4 sm:w-5 sm:h-5"
+              style={{ accentColor: themeColor }}
+            />
+          </label>
+        ))}
+
+        {scaleMaxLabel && (
+          <span className="pb-1 text-xs sm:text-sm text-gray-600 max-w-[90px] sm:max-w-[140px] break-words">
+            {scaleMaxLabel}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,17 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { useAuth, UserButton, SignInButton } from "@clerk/nextjs";
 import SearchBar from "./SearchBar";
+import { getResponseStatus } from "@/utils/formSchedule";
+
+interface FormStatus {
+  published: boolean;
+  acceptingResponses: boolean;
+  opensAt?: string | null;
+  closesAt?: string | null;
+  maxResponses?: number | null;
+  responseCount?: number;
+  formId: string;
+}
 
 const navbarEvents = {
   publishForm: [] as (() => void)[],
@@ -13,7 +24,7 @@ const navbarEvents = {
   previewForm: [] as (() => void)[],
   saveForm: [] as (() => void)[],
   toggleResponses: [] as (() => void)[],
-  formStatusUpdate: [] as ((status: { published: boolean; acceptingResponses: boolean; formId: string }) => void)[],
+  formStatusUpdate: [] as ((status: FormStatus) => void)[],
   subscribe: (event: 'publishForm' | 'unpublishForm' | 'previewForm' | 'saveForm' | 'toggleResponses' | 'formStatusUpdate', callback: any) => {
     navbarEvents[event].push(callback);
   },
@@ -26,15 +37,17 @@ const navbarEvents = {
   }
 };
 
-let currentFormStatus = { published: false, acceptingResponses: true, formId: '', title: '' };
+let currentFormStatus: FormStatus & { title: string } = { published: false, acceptingResponses: true, formId: '', title: '' };
 
 export { navbarEvents };
 
 export default function Navbar() {
   const pathname = usePathname();
   const { isSignedIn } = useAuth();
-  const [formStatus, setFormStatus] = useState({ published: false, acceptingResponses: true, formId: '', title: '' });
+  const [formStatus, setFormStatus] = useState<FormStatus & { title: string }>({ published: false, acceptingResponses: true, formId: '', title: '' });
   const [linkCopied, setLinkCopied] = useState(false);
+  // Ticks while the form has a schedule, so its status badge flips at the open/close time
+  const [, setScheduleClock] = useState(0);
   
   const isCreatePage = pathname === "/forms/create";
   const isFormEditPage = pathname.startsWith("/forms/") && pathname !== "/forms/create" && !pathname.includes("/view");
@@ -43,7 +56,7 @@ export default function Navbar() {
 
   // Listen for form status updates
   useEffect(() => {
-    const handleStatusUpdate = (status: { published: boolean; acceptingResponses: boolean; formId: string }) => {
+    const handleStatusUpdate = (status: FormStatus) => {
       setFormStatus({...status, title: ''});
       currentFormStatus = {...status, title: ''};
     };
@@ -58,6 +71,12 @@ export default function Navbar() {
       setFormStatus({ published: false, acceptingResponses: true, formId: '', title: '' });
     }
   }, [isFormEditPage, isCreatePage]);
+
+  useEffect(() => {
+    if (!formStatus.opensAt && !formStatus.closesAt) return;
+    const interval = setInterval(() => setScheduleClock(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [formStatus.opensAt, formStatus.closesAt]);
   
   // Don't render navbar on public form view pages or auth pages
   if (isPublicFormView || isAuthPage) {
@@ -121,8 +140,27 @@ export default function Navbar() {
     
     if (isFormEditPage) {
       if (formStatus.published === true) {
+        const responseStatus = getResponseStatus(formStatus);
         return (
           <div className="flex items-center space-x-1.5 sm:space-x-2 md:space-x-3">
+            <span
+              className={`hidden sm:inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                responseStatus === 'open'
+                  ? 'bg-green-100 text-green-700'
+                  : responseStatus === 'scheduled'
+                    ? 'bg-amber-100 text-amber-700'
+                    : responseStatus === 'full'
+                      ? 'bg-rose-100 text-rose-700'
+                      : 'bg-gray-100 text-gray-600'
+              }`}
+              title={
+                responseStatus === 'scheduled' && formStatus.opensAt
+                  ? `Opens ${new Date(formStatus.opensAt).toLocaleString()}`
+                  : undefined
+              }
+            >
+              {{ open: 'Open', scheduled: 'Scheduled', closed: 'Closed', full: 'Full' }[responseStatus]}
+            </span>
             <Button
               onClick={() => navbarEvents.emit('saveForm')}
               id="save-button-edit-published"
@@ -251,6 +289,18 @@ export default function Navbar() {
               // Form pages: Show dynamic publish controls
               getPublishButton()
             ) : null}
+
+            {/* Forms the user has answered */}
+            {isSignedIn && !isCreatePage && !isFormEditPage && (
+              <Link
+                href="/my-responses"
+                className={`text-xs sm:text-sm font-medium px-2 sm:px-3 py-1.5 rounded-lg transition-colors ${
+                  pathname === '/my-responses' ? 'text-blue-700 bg-blue-50' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                }`}
+              >
+                My responses
+              </Link>
+            )}
             
             {/* Authentication */}
             {isSignedIn ? (
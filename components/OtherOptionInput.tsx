@@ -0,0 +1,49 @@
+'use client';
+
+import type { AnswerValue } from '@/types/form';
+import { getOtherValue, setOtherValue } from '@/utils/otherOption';
+
+interface OtherOptionInputProps {
+  name: string; // Radio group name - use the question ID
+  type: string; // MULTIPLE_CHOICE or CHECKBOXES
+  value?: AnswerValue;
+  themeColor?: string;
+  disabled?: boolean;
+  onChange: (value: AnswerValue) => void;
+}
+
+// "Other:" choice with an inline text box - rendered after the regular options
+export default function OtherOptionInput({
+  name,
+  type,
+  value,
+  themeColor = '#4285F4',
+  disabled = false,
+  onChange
+}: OtherOptionInputProps) {
+  const otherText = getOtherValue(value);
+  const selected = otherText !== null;
+
+  return (
+    <label className="flex items-center gap-2 sm:gap-3 cursor-pointer p-2 sm:p-3 rounded-lg border border-gray-200 hover:border-gray-300 hover:bg-gray-50 transition-colors min-h-[44px]">
+      <input
+        type={type === 'CHECKBOXES' ? 'checkbox' : 'radio'}
+        name={name}
+        checked={selected}
+        disabled={disabled}
+        onChange={(e) => onChange(setOtherValue(value, type, e.target.checked ? otherText || '' : null))}
+        className="w-4 h-4 flex-shrink-0"
+        style={{ accentColor: themeColor }}
+      />
+      <span className="text-gray-900 text-sm sm:text-base">Other:</span>
+      <input
+        type="text"
+        value={otherText || ''}
+        disabled={disabled}
+        // Typing picks "Other"
+        onChange={(e) => onChange(setOtherValue(value, type, e.target.value))}
+        className="flex-1 min-w-0 border-b border-gray-300 pb-1 text-sm sm:text-base outline-none bg-transparent focus:border-gray-500"
+      />
+    </label>
+  );
+}
@@ -3,6 +3,26 @@
 import { useState, useEffect } from "react";
 import RichTextEditor from "@/components/RichTextEditor";
 import ImageUpload from "@/components/ImageUpload";
+import ConditionalLogicEditor, { type RuleSourceQuestion } from "@/components/ConditionalLogicEditor";
+import TextValidationEditor from "@/components/TextValidationEditor";
+import type { TextValidation, VisibilityRules } from "@/types/form";
+import { getValidationTypes } from "@/utils/textValidation";
+import { SUBMIT_SECTION } from "@/utils/sectionBranching";
+import { CAPACITY_TYPES, parseCapacity } from "@/utils/optionCapacity";
+import {
+  DEFAULT_SCALE_MAX,
+  DEFAULT_SCALE_MIN,
+  SCALE_MAX_VALUES,
+  SCALE_MIN_VALUES,
+  getScaleValues
+} from "@/utils/linearScale";
+import {
+  DEFAULT_MAX_FILES,
+  DEFAULT_MAX_FILE_SIZE,
+  FILE_TYPE_GROUPS,
+  MAX_FILES_VALUES,
+  MAX_FILE_SIZE_VALUES
+} from "@/utils/fileUploads";
 import { 
   MoreVertical, 
   Copy, 
@@ -10,14 +30,26 @@ import {
   Plus,
   ToggleLeft,
   ToggleRight,
-  Shuffle
+  Shuffle,
+  GitBranch,
+  Split,
+  ShieldCheck,
+  Users
 } from "lucide-react";
 
-type QuestionType = "SHORT_ANSWER" | "PARAGRAPH" | "MULTIPLE_CHOICE" | "CHECKBOXES" | "DROPDOWN";
+type QuestionType = "SHORT_ANSWER" | "PARAGRAPH" | "MULTIPLE_CHOICE" | "CHECKBOXES" | "DROPDOWN" | "LINEAR_SCALE" | "MC_GRID" | "CHECKBOX_GRID" | "DATE" | "TIME" | "DATETIME" | "FILE_UPLOAD";
 
 interface OptionWithImage {
   text: string;
   imageUrl?: string;
+  goToSection?: string | null; // Section branching target (section ID or SUBMIT)
+  capacity?: number | null;    // Seats for sign-ups - null for unlimited
+}
+
+// A section an option can branch to
+export interface SectionTarget {
+  id: string;
+  title: string;
 }
 
 interface QuestionCardProps {
@@ -28,10 +60,30 @@ interface QuestionCardProps {
   initialRequired?: boolean;
   initialOptions?: OptionWithImage[];
   initialShuffleOptionsOrder?: boolean;
+  initialHasOtherOption?: boolean;
+  initialMinSelections?: number | null;
+  initialMaxSelections?: number | null;
   initialImageUrl?: string;
   isQuiz?: boolean;
   initialPoints?: number;
   initialCorrectAnswers?: string[];
+  initialVisibilityRules?: VisibilityRules | null;
+  initialTextValidation?: TextValidation | null;
+  initialScaleMin?: number;
+  initialScaleMax?: number;
+  initialScaleMinLabel?: string;
+  initialScaleMaxLabel?: string;
+  initialGridRows?: string[];
+  initialGridColumns?: string[];
+  initialRequireEachRow?: boolean;
+  initialDateMin?: string;
+  initialDateMax?: string;
+  initialIncludeYear?: boolean;
+  initialAllowedFileTypes?: string[];
+  initialMaxFiles?: number;
+  initialMaxFileSize?: number;
+  ruleSourceQuestions?: RuleSourceQuestion[]; // Questions before this one, for conditional logic
+  sectionTargets?: SectionTarget[]; // All sections of the form, for "go to section based on answer"
   themeColor?: string;
   onDelete?: () => void;
   onDuplicate?: () => void;
@@ -44,9 +96,27 @@ interface QuestionCardProps {
     required: boolean;
     options: OptionWithImage[];
     shuffleOptionsOrder?: boolean;
+    hasOtherOption?: boolean;
+    minSelections?: number | null;
+    maxSelections?: number | null;
     imageUrl?: string;
     points?: number;
     correctAnswers?: string[];
+    visibilityRules?: VisibilityRules | null;
+    textValidation?: TextValidation | null;
+    scaleMin?: number;
+    scaleMax?: number;
+    scaleMinLabel?: string;
+    scaleMaxLabel?: string;
+    gridRows?: string[];
+    gridColumns?: string[];
+    requireEachRow?: boolean;
+    dateMin?: string;
+    dateMax?: string;
+    includeYear?: boolean;
+    allowedFileTypes?: string[];
+    maxFiles?: number;
+    maxFileSize?: number;
   }) => void;
 }
 
@@ -58,10 +128,30 @@ export default function QuestionCard({
   initialRequired = false,
   initialOptions = [],
   initialShuffleOptionsOrder = false,
+  initialHasOtherOption = false,
+  initialMinSelections = null,
+  initialMaxSelections = null,
   initialImageUrl = "",
   isQuiz = false,
   initialPoints = 1,
   initialCorrectAnswers = [],
+  initialVisibilityRules = null,
+  initialTextValidation = null,
+  initialScaleMin = DEFAULT_SCALE_MIN,
+  initialScaleMax = DEFAULT_SCALE_MAX,
+  initialScaleMinLabel = "",
+  initialScaleMaxLabel = "",
+  initialGridRows = [],
+  initialGridColumns = [],
+  initialRequireEachRow = false,
+  initialDateMin = "",
+  initialDateMax = "",
+  initialIncludeYear = true,
+  initialAllowedFileTypes = [],
+  initialMaxFiles = DEFAULT_MAX_FILES,
+  initialMaxFileSize = DEFAULT_MAX_FILE_SIZE,
+  ruleSourceQuestions = [],
+  sectionTargets = [],
   themeColor = "#4285F4",
   onDelete,
   onDuplicate,
@@ -75,6 +165,9 @@ export default function QuestionCard({
   const [required, setRequired] = useState(initialRequired);
   const [isEditing, setIsEditing] = useState(!initialQuestion);
   const [shuffleOptionsOrder, setShuffleOptionsOrder] = useState(initialShuffleOptionsOrder);
+  const [hasOtherOption, setHasOtherOption] = useState(initialHasOtherOption);
+  const [minSelections, setMinSelections] = useState<number | null>(initialMinSelections);
+  const [maxSelections, setMaxSelections] = useState<number | null>(initialMaxSelections);
   const [showOptionsMenu, setShowOptionsMenu] = useState(false);
   const [menuPosition, setMenuPosition] = useState<'top' | 'bottom'>('bottom');
   const [menuSide, setMenuSide] = useState<'left' | 'right'>('left');
@@ -89,6 +182,23 @@ export default function QuestionCard({
     }
     return [];
   });
+  const [visibilityRules, setVisibilityRules] = useState<VisibilityRules | null>(initialVisibilityRules);
+  const [textValidation, setTextValidation] = useState<TextValidation | null>(initialTextValidation);
+  const [scaleMin, setScaleMin] = useState(initialScaleMin);
+  const [scaleMax, setScaleMax] = useState(initialScaleMax);
+  const [scaleMinLabel, setScaleMinLabel] = useState(initialScaleMinLabel);
+  const [scaleMaxLabel, setScaleMaxLabel] = useState(initialScaleMaxLabel);
+  const [gridRows, setGridRows] = useState<string[]>(initialGridRows.length > 0 ? initialGridRows : ["Row 1"]);
+  const [gridColumns, setGridColumns] = useState<string[]>(initialGridColumns.length > 0 ? initialGridColumns : ["Column 1"]);
+  const [requireEachRow, setRequireEachRow] = useState(initialRequireEachRow);
+  const [dateMin, setDateMin] = useState(initialDateMin);
+  const [dateMax, setDateMax] = useState(initialDateMax);
+  const [includeYear, setIncludeYear] = useState(initialIncludeYear);
+  const [allowedFileTypes, setAllowedFileTypes] = useState<string[]>(initialAllowedFileTypes);
+  const [maxFiles, setMaxFiles] = useState(initialMaxFiles);
+  const [maxFileSize, setMaxFileSize] = useState(initialMaxFileSize);
+  const [branchingEnabled, setBranchingEnabled] = useState(() => initialOptions.some(opt => opt.goToSection));
+  const [seatLimitsEnabled, setSeatLimitsEnabled] = useState(() => initialOptions.some(opt => typeof opt.capacity === 'number'));
   const [options, setOptions] = useState<OptionWithImage[]>(() => {
     if (initialOptions.length > 0) {
       return initialOptions;
@@ -113,16 +223,39 @@ export default function QuestionCard({
         required,
         options: filteredOptions,
         shuffleOptionsOrder,
+        hasOtherOption: (questionType === "MULTIPLE_CHOICE" || questionType === "CHECKBOXES") && hasOtherOption,
+        ...(questionType === "CHECKBOXES" && {
+          minSelections,
+          maxSelections
+        }),
         imageUrl: imageUrl || undefined,
         points: isQuiz ? points : undefined,
-        correctAnswers: isQuiz ? correctAnswers : undefined
+        correctAnswers: isQuiz ? correctAnswers : undefined,
+        visibilityRules,
+        textValidation: questionType === "SHORT_ANSWER" || questionType === "PARAGRAPH" ? textValidation : null,
+        ...(questionType === "LINEAR_SCALE" && { scaleMin, scaleMax, scaleMinLabel, scaleMaxLabel }),
+        ...((questionType === "MC_GRID" || questionType === "CHECKBOX_GRID") && {
+          gridRows: gridRows.filter(row => row.trim() !== ""),
+          gridColumns: gridColumns.filter(column => column.trim() !== ""),
+          requireEachRow
+        }),
+        ...((questionType === "DATE" || questionType === "TIME" || questionType === "DATETIME") && {
+          dateMin,
+          dateMax,
+          includeYear
+        }),
+        ...(questionType === "FILE_UPLOAD" && {
+          allowedFileTypes,
+          maxFiles,
+          maxFileSize
+        })
       });
     }
   };
 
   useEffect(() => {
     notifyParent();
-  }, [question, description, questionType, required, options, shuffleOptionsOrder, imageUrl, points, correctAnswers, isQuiz]);
+  }, [question, description, questionType, required, options, shuffleOptionsOrder, hasOtherOption, minSelections, maxSelections, imageUrl, points, correctAnswers, isQuiz, visibilityRules, textValidation, scaleMin, scaleMax, scaleMinLabel, scaleMaxLabel, gridRows, gridColumns, requireEachRow, dateMin, dateMax, includeYear, allowedFileTypes, maxFiles, maxFileSize]);
   
   useEffect(() => {
     if (questionType === "MULTIPLE_CHOICE" || questionType === "CHECKBOXES" || questionType === "DROPDOWN") {
@@ -177,9 +310,18 @@ export default function QuestionCard({
     { value: "PARAGRAPH", label: "Paragraph" },
     { value: "MULTIPLE_CHOICE", label: "Multiple choice" },
     { value: "CHECKBOXES", label: "Checkboxes" },
-    { value: "DROPDOWN", label: "Dropdown" }
+    { value: "DROPDOWN", label: "Dropdown" },
+    { value: "LINEAR_SCALE", label: "Linear scale" },
+    { value: "MC_GRID", label: "Multiple choice grid" },
+    { value: "CHECKBOX_GRID", label: "Checkbox grid" },
+    { value: "DATE", label: "Date" },
+    { value: "TIME", label: "Time" },
+    { value: "DATETIME", label: "Date & time" },
+    { value: "FILE_UPLOAD", label: "File upload" }
   ];
 
+  const dateInputType = questionType === "TIME" ? "time" : questionType === "DATETIME" ? "datetime-local" : "date";
+
   const handleTypeChange = (newType: QuestionType) => {
     if (process.env.NODE_ENV === 'development') console.log('🔄 QUESTION TYPE CHANGE:', {
       from: questionType,
@@ -189,11 +331,34 @@ export default function QuestionCard({
     });
     
     setQuestionType(newType);
+
+    // Paragraphs only support some validation types
+    if (textValidation && !getValidationTypes(newType).some(type => type.value === textValidation.type)) {
+      setTextValidation(null);
+    }
+
+    // Date bounds use the same input format as the answer, so they don't carry over to another type
+    if (newType !== questionType) {
+      setDateMin("");
+      setDateMax("");
+    }
     
     // Initialize correct answers for text questions
     if ((newType === 'SHORT_ANSWER' || newType === 'PARAGRAPH') && correctAnswers.length === 0) {
       setCorrectAnswers(['']);
     }
+
+    // Only multiple choice and dropdown questions can branch
+    if (newType !== 'MULTIPLE_CHOICE' && newType !== 'DROPDOWN' && branchingEnabled) {
+      setOptions(prev => prev.map(opt => ({ ...opt, goToSection: null })));
+      setBranchingEnabled(false);
+    }
+
+    // Seats only apply where each respondent picks one option
+    if (!CAPACITY_TYPES.includes(newType) && seatLimitsEnabled) {
+      setOptions(prev => prev.map(opt => ({ ...opt, capacity: null })));
+      setSeatLimitsEnabled(false);
+    }
   };
 
   const addOption = () => {
@@ -219,6 +384,238 @@ export default function QuestionCard({
     }
   };
 
+  // Grid rows and columns share the same list editing
+  const updateGridLabel = (labels: string[], setLabels: (labels: string[]) => void, index: number, value: string) => {
+    const newLabels = [...labels];
+    newLabels[index] = value;
+    setLabels(newLabels);
+  };
+
+  const removeGridLabel = (labels: string[], setLabels: (labels: string[]) => void, index: number) => {
+    if (labels.length > 1) {
+      setLabels(labels.filter((_, i) => i !== index));
+    }
+  };
+
+  const renderGridLabels = (
+    title: string,
+    labels: string[],
+    setLabels: (labels: string[]) => void,
+    placeholder: string
+  ) => (
+    <div className="flex-1 min-w-0">
+      <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+      <div className="space-y-2">
+        {labels.map((label, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <span className="w-5 text-xs text-gray-400">{index + 1}.</span>
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => updateGridLabel(labels, setLabels, index, e.target.value)}
+              placeholder={`${placeholder} ${index + 1}`}
+              className="flex-1 min-w-0 border-b border-gray-300 pb-1 text-sm outline-none focus:border-blue-500 bg-transparent"
+            />
+            {labels.length > 1 && (
+              <button
+                onClick={() => removeGridLabel(labels, setLabels, index)}
+                className="text-gray-400 hover:text-red-500 p-1"
+                title={`Remove ${placeholder.toLowerCase()}`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => setLabels([...labels, ""])}
+        className="mt-2 flex items-center space-x-2 text-gray-500 hover:text-blue-600 text-sm"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Add {placeholder.toLowerCase()}</span>
+      </button>
+    </div>
+  );
+
+  const updateOptionTarget = (index: number, goToSection: string) => {
+    const newOptions = [...options];
+    newOptions[index] = { ...newOptions[index], goToSection: goToSection || null };
+    setOptions(newOptions);
+  };
+
+  const toggleBranching = () => {
+    // Turning branching off drops every option's target
+    if (branchingEnabled) {
+      setOptions(options.map(opt => ({ ...opt, goToSection: null })));
+    }
+    setBranchingEnabled(!branchingEnabled);
+  };
+
+  const updateOptionCapacity = (index: number, capacity: string) => {
+    const newOptions = [...options];
+    newOptions[index] = { ...newOptions[index], capacity: parseCapacity(capacity) };
+    setOptions(newOptions);
+  };
+
+  const toggleSeatLimits = () => {
+    // Turning seat limits off makes every option unlimited again
+    if (seatLimitsEnabled) {
+      setOptions(options.map(opt => ({ ...opt, capacity: null })));
+    }
+    setSeatLimitsEnabled(!seatLimitsEnabled);
+  };
+
+  // Branching only applies to single-answer questions in multi-section forms
+  const canBranch = (questionType === "MULTIPLE_CHOICE" || questionType === "DROPDOWN") && sectionTargets.length > 1;
+
+  // "Other" row (always last, even when options are shuffled) and the add option / add "Other" links
+  const renderOptionActions = (markerClass: string) => (
+    <>
+      {hasOtherOption && (
+        <div className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+          <div className="flex items-center space-x-3">
+            <div className={`w-4 h-4 border-2 border-gray-400 ${markerClass}`}></div>
+            <input
+              type="text"
+              value="Other..."
+              disabled
+              className="flex-1 border-b border-dotted border-gray-300 pb-1 text-gray-500 bg-transparent"
+            />
+            <button
+              onClick={() => setHasOtherOption(false)}
+              className="text-gray-400 hover:text-red-500 p-1"
+              title='Remove "Other"'
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      )}
+      <div className="flex items-center space-x-2 text-sm">
+        <button
+          onClick={addOption}
+          className="flex items-center space-x-2 text-gray-500 hover:text-blue-600"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add option</span>
+        </button>
+        {!hasOtherOption && (
+          <>
+            <span className="text-gray-500">or</span>
+            <button
+              onClick={() => setHasOtherOption(true)}
+              className="text-blue-600 hover:underline"
+            >
+              add &quot;Other&quot;
+            </button>
+          </>
+        )}
+      </div>
+    </>
+  );
+
+  // Checkbox selection limits - "Other" counts as a choice
+  const renderSelectionLimits = () => {
+    const choiceCount = Math.max(options.length + (hasOtherOption ? 1 : 0), 1);
+    const counts = Array.from({ length: choiceCount }, (_, i) => i + 1);
+
+    return (
+      <div className="flex flex-wrap items-center gap-3 pt-2 text-sm text-gray-700">
+        <label className="flex items-center space-x-2">
+          <span>Select at least</span>
+          <select
+            value={minSelections ?? ""}
+            onChange={(e) => setMinSelections(e.target.value ? parseInt(e.target.value, 10) : null)}
+            className="px-2 py-1.5 border border-gray-300 rounded-md bg-white outline-none focus:border-blue-500"
+          >
+            <option value="">No minimum</option>
+            {counts.map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>at most</span>
+          <select
+            value={maxSelections ?? ""}
+            onChange={(e) => setMaxSelections(e.target.value ? parseInt(e.target.value, 10) : null)}
+            className="px-2 py-1.5 border border-gray-300 rounded-md bg-white outline-none focus:border-blue-500"
+          >
+            <option value="">No maximum</option>
+            {counts.filter(count => minSelections === null || count >= minSelections).map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    );
+  };
+
+  const renderOptionCapacity = (option: OptionWithImage, index: number) => {
+    if (!seatLimitsEnabled || !CAPACITY_TYPES.includes(questionType)) return null;
+
+    return (
+      <input
+        type="number"
+        min={0}
+        value={option.capacity ?? ''}
+        onChange={(e) => updateOptionCapacity(index, e.target.value)}
+        placeholder="Seats"
+        className="w-20 px-2 py-1 text-xs border border-gray-300 rounded-md bg-white text-gray-700 outline-none focus:border-blue-500"
+        title="Seats for this option - leave blank for unlimited"
+      />
+    );
+  };
+
+  const renderOptionTarget = (option: OptionWithImage, index: number) => {
+    if (!canBranch || !branchingEnabled) return null;
+
+    return (
+      <select
+        value={option.goToSection || ''}
+        onChange={(e) => updateOptionTarget(index, e.target.value)}
+        className="max-w-[45%] px-2 py-1 text-xs border border-gray-300 rounded-md bg-white text-gray-700 outline-none focus:border-blue-500"
+        title="Section to go to when this option is chosen"
+      >
+        <option value="">Continue to next section</option>
+        {sectionTargets.map((section, sectionIndex) => (
+          <option key={section.id} value={section.id}>
+            Go to section {sectionIndex + 1}{section.title ? ` (${section.title})` : ''}
+          </option>
+        ))}
+        <option value={SUBMIT_SECTION}>Submit form</option>
+      </select>
+    );
+  };
+
+  const toggleTextValidation = () => {
+    if (textValidation) {
+      setTextValidation(null);
+    } else {
+      setTextValidation(questionType === "PARAGRAPH"
+        ? { type: "length", operator: "max_length", value: "" }
+        : { type: "number", operator: "is_number" });
+    }
+  };
+
+  const toggleConditionalLogic = () => {
+    if (visibilityRules) {
+      setVisibilityRules(null);
+    } else {
+      setVisibilityRules({
+        logic: 'AND',
+        conditions: ruleSourceQuestions.length > 0
+          ? [{ questionId: ruleSourceQuestions[0].id, operator: 'equals', value: '' }]
+          : []
+      });
+    }
+  };
+
   const renderQuestionInput = () => {
     switch (questionType) {
       case "SHORT_ANSWER":
@@ -260,6 +657,8 @@ export default function QuestionCard({
                     placeholder={`Option ${index + 1}`}
                     className="flex-1 border-b border-gray-300 pb-1 outline-none focus:border-blue-500 bg-transparent"
                   />
+                  {renderOptionCapacity(option, index)}
+                  {renderOptionTarget(option, index)}
                   {options.length > 1 && (
                     <button
                       onClick={() => removeOption(index)}
@@ -282,13 +681,7 @@ export default function QuestionCard({
                 </div>
               </div>
             ))}
-            <button
-              onClick={addOption}
-              className="flex items-center space-x-2 text-gray-500 hover:text-blue-600 text-sm"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Add option</span>
-            </button>
+            {renderOptionActions("rounded-full")}
           </div>
         );
       
@@ -329,13 +722,184 @@ export default function QuestionCard({
                 </div>
               </div>
             ))}
-            <button
-              onClick={addOption}
-              className="flex items-center space-x-2 text-gray-500 hover:text-blue-600 text-sm"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Add option</span>
-            </button>
+            {renderOptionActions("rounded")}
+            {renderSelectionLimits()}
+          </div>
+        );
+      
+      case "LINEAR_SCALE":
+        return (
+          <div className="mt-6 space-y-4">
+            <div className="flex items-center space-x-3 text-sm text-gray-700">
+              <select
+                value={scaleMin}
+                onChange={(e) => setScaleMin(parseInt(e.target.value, 10))}
+                className="px-3 py-1.5 border border-gray-300 rounded-md bg-white outline-none focus:border-blue-500"
+              >
+                {SCALE_MIN_VALUES.map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+              <span>to</span>
+              <select
+                value={scaleMax}
+                onChange={(e) => setScaleMax(parseInt(e.target.value, 10))}
+                className="px-3 py-1.5 border border-gray-300 rounded-md bg-white outline-none focus:border-blue-500"
+              >
+                {SCALE_MAX_VALUES.map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-3">
+              <div className="flex items-center space-x-3">
+                <span className="w-5 text-sm text-gray-500">{scaleMin}</span>
+                <input
+                  type="text"
+                  value={scaleMinLabel}
+                  onChange={(e) => setScaleMinLabel(e.target.value)}
+                  placeholder="Label (optional)"
+                  className="flex-1 border-b border-gray-300 pb-1 text-sm outline-none focus:border-blue-500 bg-transparent"
+                />
+              </div>
+              <div className="flex items-center space-x-3">
+                <span className="w-5 text-sm text-gray-500">{scaleMax}</span>
+                <input
+                  type="text"
+                  value={scaleMaxLabel}
+                  onChange={(e) => setScaleMaxLabel(e.target.value)}
+                  placeholder="Label (optional)"
+                  className="flex-1 border-b border-gray-300 pb-1 text-sm outline-none focus:border-blue-500 bg-transparent"
+                />
+              </div>
+            </div>
+          </div>
+        );
+      
+      case "MC_GRID":
+      case "CHECKBOX_GRID":
+        return (
+          <div className="mt-6 space-y-4">
+            <div className="flex flex-col sm:flex-row gap-6">
+              {renderGridLabels("Rows", gridRows, setGridRows, "Row")}
+              {renderGridLabels("Columns", gridColumns, setGridColumns, "Column")}
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={requireEachRow}
+                onChange={(e) => setRequireEachRow(e.target.checked)}
+                className="w-4 h-4"
+                style={{ accentColor: themeColor }}
+              />
+              <span>Require a response in each row</span>
+              <span className="text-xs text-gray-500">(when the question is required)</span>
+            </label>
+          </div>
+        );
+      
+      case "DATE":
+      case "TIME":
+      case "DATETIME":
+        return (
+          <div className="mt-6 space-y-4">
+            <input
+              type="text"
+              placeholder={questionType === "TIME" ? "Time" : questionType === "DATETIME" ? "Month, day, year, time" : "Month, day, year"}
+              disabled
+              className="w-48 border-b border-gray-300 pb-2 text-gray-400 text-sm bg-transparent outline-none"
+            />
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-gray-700">
+              <label className="flex items-center space-x-2">
+                <span className="w-10 text-gray-500">From</span>
+                <input
+                  type={dateInputType}
+                  value={dateMin}
+                  max={dateMax || undefined}
+                  onChange={(e) => setDateMin(e.target.value)}
+                  className="px-2 py-1.5 border border-gray-300 rounded-md outline-none focus:border-blue-500"
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="w-10 text-gray-500">To</span>
+                <input
+                  type={dateInputType}
+                  value={dateMax}
+                  min={dateMin || undefined}
+                  onChange={(e) => setDateMax(e.target.value)}
+                  className="px-2 py-1.5 border border-gray-300 rounded-md outline-none focus:border-blue-500"
+                />
+              </label>
+            </div>
+            {questionType !== "TIME" && (
+              <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeYear}
+                  onChange={(e) => setIncludeYear(e.target.checked)}
+                  className="w-4 h-4"
+                  style={{ accentColor: themeColor }}
+                />
+                <span>Include year</span>
+              </label>
+            )}
+          </div>
+        );
+
+      case "FILE_UPLOAD":
+        return (
+          <div className="mt-6 space-y-4 text-sm text-gray-700">
+            <div>
+              <p className="mb-2">Allow only specific file types</p>
+              <div className="grid grid-cols-2 gap-2 max-w-sm">
+                {FILE_TYPE_GROUPS.map(group => {
+                  const checked = group.types.every(type => allowedFileTypes.includes(type));
+                  return (
+                    <label key={group.label} className="flex items-center space-x-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        onChange={() => setAllowedFileTypes(prev =>
+                          checked
+                            ? prev.filter(type => !group.types.includes(type))
+                            : [...prev, ...group.types.filter(type => !prev.includes(type))]
+                        )}
+                        className="w-4 h-4"
+                        style={{ accentColor: themeColor }}
+                      />
+                      <span>{group.label}</span>
+                    </label>
+                  );
+                })}
+              </div>
+              {allowedFileTypes.length === 0 && (
+                <p className="mt-1 text-xs text-gray-500">All file types are allowed</p>
+              )}
+            </div>
+            <div className="flex items-center space-x-3">
+              <span className="w-36">Maximum number of files</span>
+              <select
+                value={maxFiles}
+                onChange={(e) => setMaxFiles(parseInt(e.target.value, 10))}
+                className="px-3 py-1.5 border border-gray-300 rounded-md bg-white outline-none focus:border-blue-500"
+              >
+                {MAX_FILES_VALUES.map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center space-x-3">
+              <span className="w-36">Maximum file size</span>
+              <select
+                value={maxFileSize}
+                onChange={(e) => setMaxFileSize(parseInt(e.target.value, 10))}
+                className="px-3 py-1.5 border border-gray-300 rounded-md bg-white outline-none focus:border-blue-500"
+              >
+                {MAX_FILE_SIZE_VALUES.map(value => (
+                  <option key={value} value={value}>{value} MB</option>
+                ))}
+              </select>
+            </div>
           </div>
         );
       
@@ -365,6 +929,8 @@ export default function QuestionCard({
                       placeholder={`Option ${index + 1}`}
                       className="flex-1 border-b border-gray-300 pb-1 outline-none focus:border-blue-500 bg-transparent"
                     />
+                    {renderOptionCapacity(option, index)}
+                    {renderOptionTarget(option, index)}
                     {options.length > 1 && (
                       <button
                         onClick={() => removeOption(index)}
@@ -478,6 +1044,25 @@ export default function QuestionCard({
           {/* Question input area */}
           {renderQuestionInput()}
 
+          {/* Response validation - Shows when enabled from 3-dot menu */}
+          {textValidation && (questionType === "SHORT_ANSWER" || questionType === "PARAGRAPH") && (
+            <TextValidationEditor
+              rule={textValidation}
+              questionType={questionType}
+              onChange={setTextValidation}
+            />
+          )}
+
+          {/* Conditional logic - Shows when enabled from 3-dot menu */}
+          {visibilityRules && (
+            <ConditionalLogicEditor
+              rules={visibilityRules}
+              sourceQuestions={ruleSourceQuestions}
+              themeColor={themeColor}
+              onChange={setVisibilityRules}
+            />
+          )}
+
           {/* Bottom toolbar */}
           <div className="flex items-center justify-between mt-6 pt-4 border-t border-gray-100">
             {/* Required toggle */}
@@ -579,6 +1164,103 @@ export default function QuestionCard({
                               )}
                             </div>
                           </button>
+
+                          {canBranch && (
+                            <button
+                              onClick={() => {
+                                toggleBranching();
+                                setShowOptionsMenu(false);
+                              }}
+                              className="w-full flex items-center justify-between px-4 py-3 text-sm text-gray-700 hover:bg-blue-50 hover:text-blue-700 transition-all duration-200 group rounded-lg mx-1 my-1"
+                            >
+                              <div className="flex items-center space-x-3">
+                                <div className={`p-1.5 rounded-md ${branchingEnabled ? 'bg-blue-100 text-blue-600' : 'bg-gray-100 text-gray-500 group-hover:bg-blue-100 group-hover:text-blue-600'} transition-colors`}>
+                                  <Split className="w-3.5 h-3.5" />
+                                </div>
+                                <div className="text-left">
+                                  <div className="font-medium">Go to Section Based on Answer</div>
+                                  <div className="text-xs text-gray-500 mt-0.5">Send respondents to a section per option</div>
+                                </div>
+                              </div>
+                              <div 
+                                className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-all ${branchingEnabled ? 'border-2' : 'border-gray-300 group-hover:border-gray-400'}`}
+                                style={branchingEnabled ? { backgroundColor: themeColor, borderColor: themeColor } : {}}
+                              >
+                                {branchingEnabled && (
+                                  <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
+                                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                                  </svg>
+                                )}
+                              </div>
+                            </button>
+                          )}
+
+                          {CAPACITY_TYPES.includes(questionType) && (
+                            <button
+                              onClick={() => {
+                                toggleSeatLimits();
+                                setShowOptionsMenu(false);
+                              }}
+                              className="w-full flex items-center justify-between px-4 py-3 text-sm text-gray-700 hover:bg-blue-50 hover:text-blue-700 transition-all duration-200 group rounded-lg mx-1 my-1"
+                            >
+                              <div className="flex items-center space-x-3">
+                                <div className={`p-1.5 rounded-md ${seatLimitsEnabled ? 'bg-blue-100 text-blue-600' : 'bg-gray-100 text-gray-500 group-hover:bg-blue-100 group-hover:text-blue-600'} transition-colors`}>
+                                  <Users className="w-3.5 h-3.5" />
+                                </div>
+                                <div className="text-left">
+                                  <div className="font-medium">Limit Seats per Option</div>
+                                  <div className="text-xs text-gray-500 mt-0.5">Close an option once it&apos;s full</div>
+                                </div>
+                              </div>
+                              <div 
+                                className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-all ${seatLimitsEnabled ? 'border-2' : 'border-gray-300 group-hover:border-gray-400'}`}
+                                style={seatLimitsEnabled ? { backgroundColor: themeColor, borderColor: themeColor } : {}}
+                              >
+                                {seatLimitsEnabled && (
+                                  <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
+                                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                                  </svg>
+                                )}
+                              </div>
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      
+                      {/* Response validation - text questions only */}
+                      {(questionType === "SHORT_ANSWER" || questionType === "PARAGRAPH") && (
+                        <div className="p-1">
+                          <div className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                            Question Options
+                          </div>
+
+                          <button
+                            onClick={() => {
+                              toggleTextValidation();
+                              setShowOptionsMenu(false);
+                            }}
+                            className="w-full flex items-center justify-between px-4 py-3 text-sm text-gray-700 hover:bg-blue-50 hover:text-blue-700 transition-all duration-200 group rounded-lg mx-1 my-1"
+                          >
+                            <div className="flex items-center space-x-3">
+                              <div className={`p-1.5 rounded-md ${textValidation ? 'bg-blue-100 text-blue-600' : 'bg-gray-100 text-gray-500 group-hover:bg-blue-100 group-hover:text-blue-600'} transition-colors`}>
+                                <ShieldCheck className="w-3.5 h-3.5" />
+                              </div>
+                              <div className="text-left">
+                                <div className="font-medium">Response Validation</div>
+                                <div className="text-xs text-gray-500 mt-0.5">Set rules answers must follow</div>
+                              </div>
+                            </div>
+                            <div 
+                              className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-all ${textValidation ? 'border-2' : 'border-gray-300 group-hover:border-gray-400'}`}
+                              style={textValidation ? { backgroundColor: themeColor, borderColor: themeColor } : {}}
+                            >
+                              {textValidation && (
+                                <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
+                                  <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                                </svg>
+                              )}
+                            </div>
+                          </button>
                         </div>
                       )}
                       
@@ -617,6 +1299,34 @@ export default function QuestionCard({
                             )}
                           </div>
                         </button>
+
+                        <button
+                          onClick={() => {
+                            toggleConditionalLogic();
+                            setShowOptionsMenu(false);
+                          }}
+                          className="w-full flex items-center justify-between px-4 py-3 text-sm text-gray-700 hover:bg-purple-50 hover:text-purple-700 transition-all duration-200 group rounded-lg mx-1 my-1"
+                        >
+                          <div className="flex items-center space-x-3">
+                            <div className={`p-1.5 rounded-md ${visibilityRules ? 'bg-blue-100 text-blue-600' : 'bg-gray-100 text-gray-500 group-hover:bg-blue-100 group-hover:text-blue-600'} transition-colors`}>
+                              <GitBranch className="w-3.5 h-3.5" />
+                            </div>
+                            <div className="text-left">
+                              <div className="font-medium">Conditional Logic</div>
+                              <div className="text-xs text-gray-500 mt-0.5">Show only when earlier answers match</div>
+                            </div>
+                          </div>
+                          <div 
+                            className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-all ${visibilityRules ? 'border-2' : 'border-gray-300 group-hover:border-gray-400'}`}
+                            style={visibilityRules ? { backgroundColor: themeColor, borderColor: themeColor } : {}}
+                          >
+                            {visibilityRules && (
+                              <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                              </svg>
+                            )}
+                          </div>
+                        </button>
                       </div>
                       
                       {/* 🆕 Section Management */}
@@ -709,6 +1419,27 @@ export default function QuestionCard({
                 </div>
               )}
 
+              {/* Linear scale correct value */}
+              {questionType === 'LINEAR_SCALE' && (
+                <div>
+                  <p className="text-sm text-blue-700 mb-2">Select the correct value:</p>
+                  <div className="flex flex-wrap gap-3">
+                    {getScaleValues({ scaleMin, scaleMax }).map(value => (
+                      <label key={value} className="flex items-center space-x-1.5 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`correct-${id}`}
+                          checked={correctAnswers.includes(String(value))}
+                          onChange={() => setCorrectAnswers([String(value)])}
+                          className="w-4 h-4 text-blue-600 border-blue-300 focus:ring-blue-500"
+                        />
+                        <span className="text-sm text-blue-800">{value}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Text question answer input */}
               {(questionType === 'SHORT_ANSWER' || questionType === 'PARAGRAPH') && (
                 <div className="space-y-3">
@@ -0,0 +1,101 @@
+"use client";
+
+import { Trash2 } from "lucide-react";
+import { MAX_PATTERN_LENGTH, TEXT_VALIDATION_OPERATORS, getValidationTypes } from "@/utils/textValidation";
+import type { TextValidation, TextValidationOperator, TextValidationType } from "@/types/form";
+
+interface TextValidationEditorProps {
+  rule: TextValidation;
+  questionType: string; // SHORT_ANSWER or PARAGRAPH
+  onChange: (rule: TextValidation | null) => void;
+}
+
+export default function TextValidationEditor({
+  rule,
+  questionType,
+  onChange
+}: TextValidationEditorProps) {
+  const types = getValidationTypes(questionType);
+  const operators = TEXT_VALIDATION_OPERATORS.filter(op => op.type === rule.type);
+  const operator = operators.find(op => op.value === rule.operator);
+
+  const update = (changes: Partial<TextValidation>) => onChange({ ...rule, ...changes });
+
+  // Switching the type starts over with its first operator
+  const changeType = (type: TextValidationType) => {
+    const first = TEXT_VALIDATION_OPERATORS.find(op => op.type === type);
+    if (first) onChange({ type, operator: first.value, message: rule.message });
+  };
+
+  const inputType = rule.type === 'number' || rule.type === 'length' ? 'number' : 'text';
+  const placeholder = rule.type === 'regex' ? 'Pattern' : rule.type === 'text' ? 'Text' : 'Number';
+
+  return (
+    <div className="mt-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-gray-800">Response validation</h4>
+        <button
+          onClick={() => onChange(null)}
+          className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+          title="Remove validation"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <select
+          value={rule.type}
+          onChange={(e) => changeType(e.target.value as TextValidationType)}
+          className="sm:w-44 px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white outline-none focus:border-blue-500"
+        >
+          {types.map(type => (
+            <option key={type.value} value={type.value}>{type.label}</option>
+          ))}
+        </select>
+
+        <select
+          value={rule.operator}
+          onChange={(e) => update({ operator: e.target.value as TextValidationOperator, value: '', value2: undefined })}
+          className="sm:w-52 px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white outline-none focus:border-blue-500"
+        >
+          {operators.map(op => (
+            <option key={op.value} value={op.value}>{op.label}</option>
+          ))}
+        </select>
+
+        {operator && operator.input !== 'none' && (
+          <input
+            type={inputType}
+            value={rule.value || ''}
+            onChange={(e) => update({ value: e.target.value })}
+            placeholder={placeholder}
+            maxLength={rule.type === 'regex' ? MAX_PATTERN_LENGTH : undefined}
+            className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-md outline-none focus:border-blue-500"
+          />
+        )}
+
+        {operator?.input === 'range' && (
+          <>
+            <span className="text-sm text-gray-500">and</span>
+            <input
+              type="number"
+              value={rule.value2 || ''}
+              onChange={(e) => update({ value2: e.target.value })}
+              placeholder="Number"
+              className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-md outline-none focus:border-blue-500"
+            />
+          </>
+        )}
+      </div>
+
+      <input
+        type="text"
+        value={rule.message || ''}
+        onChange={(e) => update({ message: e.target.value })}
+        placeholder="Custom error text (optional)"
+        className="mt-3 w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md outline-none focus:border-blue-500"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+interface TrashedForm {
+  id: string;
+  title: string;
+  description: string | null;
+  published: boolean;
+  responseCount: number;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+interface TrashListProps {
+  onRestored: () => void;
+}
+
+// Titles are rich text - the list shows them as plain text
+const plainText = (value: string) => value.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim() || 'Untitled Form';
+
+export default function TrashList({ onRestored }: TrashListProps) {
+  const [forms, setForms] = useState<TrashedForm[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const fetchTrash = async () => {
+    try {
+      const response = await fetch('/api/forms/trash');
+      const data = await response.json();
+
+      if (data.success) {
+        setForms(data.forms);
+        setRetentionDays(data.retentionDays);
+      }
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (formId: string) => {
+    setBusyId(formId);
+    try {
+      const response = await fetch(`/api/forms/trash/${formId}/restore`, {
+        method: 'POST'
+      });
+
+      if (response.ok) {
+        setForms(forms.filter(form => form.id !== formId));
+        onRestored();
+      } else {
+        alert('Failed to restore form');
+      }
+    } catch (error) {
+      console.error('Error restoring form:', error);
+      alert('Failed to restore form');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (formId: string) => {
+    if (!confirm('Delete this form forever? Its responses and uploaded files are deleted too. This can\'t be undone.')) return;
+
+    setBusyId(formId);
+    try {
+      const response = await fetch(`/api/forms/trash/${formId}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        setForms(forms.filter(form => form.id !== formId));
+      } else {
+        alert('Failed to delete form');
+      }
+    } catch (error) {
+      console.error('Error deleting form:', error);
+      alert('Failed to delete form');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="py-6 sm:py-8">
+        <LoadingSpinner message="Loading trash..." size="md" fullScreen={false} />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {retentionDays !== null && (
+        <p className="text-xs sm:text-sm text-gray-500 mb-4">
+          Forms in Trash are deleted forever after {retentionDays} day{retentionDays === 1 ? '' : 's'}. Restored forms keep all their responses.
+        </p>
+      )}
+
+      {forms.length === 0 ? (
+        <div className="text-center py-8 sm:py-12">
+          <p className="text-sm sm:text-base text-gray-500">Trash is empty.</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+          {forms.map(form => (
+            <li key={form.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{plainText(form.title)}</p>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {form.responseCount} response{form.responseCount === 1 ? '' : 's'}
+                  {' · '}Deleted {new Date(form.deletedAt).toLocaleDateString()}
+                  {' · '}Deleted forever on {new Date(form.purgeAt).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <button
+                  onClick={() => handleRestore(form.id)}
+                  disabled={busyId !== null}
+                  className="px-3 py-1.5 text-xs sm:text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 disabled:text-gray-400 disabled:bg-gray-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => handlePurge(form.id)}
+                  disabled={busyId !== null}
+                  className="text-xs sm:text-sm font-medium text-red-600 hover:text-red-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+                >
+                  Delete forever
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import type { RevisionDiff, RevisionSummary } from '@/types/formRevision';
+
+interface VersionHistoryModalProps {
+  isOpen: boolean;
+  formId: string;
+  onClose: () => void;
+  onRestore: (revisionId: string) => Promise<void>;
+}
+
+// Titles and question text can be rich text - the history shows them as plain text
+const plainText = (value: string) => value.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim() || 'Untitled';
+
+// "collectEmail" -> "collect email"
+const fieldName = (key: string) => key.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+const hasChanges = (diff: RevisionDiff) =>
+  diff.titleChanged ||
+  diff.descriptionChanged ||
+  diff.settingsChanged.length > 0 ||
+  diff.sectionsAdded.length > 0 ||
+  diff.sectionsRemoved.length > 0 ||
+  diff.questionsAdded.length > 0 ||
+  diff.questionsRemoved.length > 0 ||
+  diff.questionsChanged.length > 0;
+
+export default function VersionHistoryModal({ isOpen, formId, onClose, onRestore }: VersionHistoryModalProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/forms/${formId}/revisions`);
+      const data = await response.json();
+
+      if (data.success) {
+        setRevisions(data.revisions);
+      }
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [formId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchRevisions();
+    }
+  }, [isOpen, fetchRevisions]);
+
+  const handleRestore = async (revisionId: string) => {
+    setRestoringId(revisionId);
+    try {
+      await onRestore(revisionId);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const renderDiff = (diff: RevisionDiff | null) => {
+    if (!diff) {
+      return <p className="text-xs text-gray-500">First saved version</p>;
+    }
+    if (!hasChanges(diff)) {
+      return <p className="text-xs text-gray-500">No changes to questions or settings</p>;
+    }
+
+    return (
+      <ul className="space-y-1 text-xs">
+        {diff.titleChanged && <li className="text-gray-700">Title changed</li>}
+        {diff.descriptionChanged && <li className="text-gray-700">Description changed</li>}
+        {diff.sectionsAdded.map((title, index) => (
+          <li key={`section-added-${index}`} className="text-green-700 break-words">+ Section: {plainText(title)}</li>
+        ))}
+        {diff.sectionsRemoved.map((title, index) => (
+          <li key={`section-removed-${index}`} className="text-red-700 break-words">− Section: {plainText(title)}</li>
+        ))}
+        {diff.questionsAdded.map((text, index) => (
+          <li key={`added-${index}`} className="text-green-700 break-words">+ {plainText(text)}</li>
+        ))}
+        {diff.questionsRemoved.map((text, index) => (
+          <li key={`removed-${index}`} className="text-red-700 break-words">− {plainText(text)}</li>
+        ))}
+        {diff.questionsChanged.map((question, index) => (
+          <li key={`changed-${index}`} className="text-amber-700 break-words">
+            ~ {plainText(question.text)} <span className="text-gray-500">({question.fields.map(fieldName).join(', ')})</span>
+          </li>
+        ))}
+        {diff.settingsChanged.length > 0 && (
+          <li className="text-gray-700 break-words">
+            Settings: <span className="text-gray-500">{diff.settingsChanged.map(fieldName).join(', ')}</span>
+          </li>
+        )}
+      </ul>
+    );
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-50 transition-all duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-lg w-full mx-4 transform transition-all duration-200 scale-100"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-5 border-b border-gray-100 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Version history
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+            A version is kept each time the form is saved. Restoring one loads it as a draft - save to make it the current form.
+          </p>
+        </div>
+
+        {/* Revisions */}
+        <div className="px-6 py-4 max-h-[60vh] overflow-y-auto">
+          {loading ? (
+            <p className="text-sm text-gray-500 text-center py-6">Loading versions...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No saved versions yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {revisions.map((revision, index) => (
+                <li key={revision.id} className="py-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                        {new Date(revision.createdAt).toLocaleString()}
+                        {index === 0 && <span className="ml-2 text-xs font-normal text-blue-600">Current version</span>}
+                      </p>
+                      {revision.author && (
+                        <p className="text-xs text-gray-500 truncate">{revision.author}</p>
+                      )}
+                    </div>
+                    {index > 0 && (
+                      <button
+                        onClick={() => handleRestore(revision.id)}
+                        disabled={restoringId !== null}
+                        className="shrink-0 px-3 py-1.5 text-xs font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 disabled:text-gray-400 disabled:bg-gray-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+                      >
+                        {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                      </button>
+                    )}
+                  </div>
+                  <div className="mt-2">{renderDiff(revision.diff)}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Buttons */}
+        <div className="px-6 py-4 border-t border-gray-100 dark:border-gray-700 flex justify-end bg-gray-50 dark:bg-gray-800 rounded-b-xl">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 border border-gray-200 dark:border-gray-600 rounded-lg transition-all duration-200"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
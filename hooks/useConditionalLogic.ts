@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+import { getVisibleQuestionIds } from '@/utils/conditionalLogic';
+import type { FormResponses } from '@/types/form';
+
+interface QuestionWithRules {
+  id: string;
+  visibilityRules?: unknown;
+}
+
+/**
+ * Live show/hide state for a form's questions
+ * @param questions - All questions in form order (not shuffled)
+ * @param responses - Current answers
+ */
+export function useConditionalLogic(questions: QuestionWithRules[], responses: FormResponses) {
+  const visibleQuestionIds = useMemo(
+    () => getVisibleQuestionIds(questions, responses),
+    [questions, responses]
+  );
+
+  const isQuestionVisible = (questionId: string) => visibleQuestionIds.has(questionId);
+
+  return { visibleQuestionIds, isQuestionVisible };
+}
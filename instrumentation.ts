@@ -0,0 +1,7 @@
+// Runs once when a server starts - configuration the app can't run without is checked here, so it fails right away
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getSigningSecret } = await import('@/lib/signing');
+    getSigningSecret();
+  }
+}
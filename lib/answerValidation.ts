@@ -0,0 +1,196 @@
+// Server-side validation of submitted answers - shared by the submit and edit-response routes
+import type { SectionWithQuestions } from '@/lib/form-utils';
+import { validateFileAnswer } from '@/lib/uploadedFiles';
+import type { AnswerValue, FormResponses } from '@/types/form';
+import { getActiveQuestions } from '@/utils/sectionBranching';
+import { validateScaleAnswer } from '@/utils/linearScale';
+import { getMissingGridRows, isGridType } from '@/utils/gridQuestions';
+import { isDateType, normalizeDateAnswer, validateDateAnswer } from '@/utils/dateQuestions';
+import { validateTextAnswer } from '@/utils/textValidation';
+import { validateSelectionCount } from '@/utils/selectionLimits';
+import { cleanOtherAnswer, getOtherValue, isOtherValue, OTHER_TYPES } from '@/utils/otherOption';
+
+// Longest accepted answers, in characters
+export const MAX_SHORT_ANSWER_LENGTH = 1000;
+export const MAX_PARAGRAPH_LENGTH = 10000;
+export const MAX_OTHER_TEXT_LENGTH = 1000;
+
+export interface AnswerError {
+  questionId: string;
+  questionText?: string;      // Missing for answers to questions that aren't on the form
+  message: string;
+}
+
+type Question = SectionWithQuestions['questions'][number];
+
+const CHOICE_TYPES = ['MULTIPLE_CHOICE', 'CHECKBOXES', 'DROPDOWN'];
+
+// Answered with a list of values - everything else except grids is a single string
+const LIST_TYPES = ['CHECKBOXES', 'FILE_UPLOAD'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+function checkShape(question: Question, answer: unknown): string | null {
+  if (isGridType(question.type)) {
+    return isObject(answer) && Object.values(answer).every(isStringList) ? null : 'Answer must be a selection for each row';
+  }
+  if (LIST_TYPES.includes(question.type)) {
+    return isStringList(answer) ? null : 'Answer must be a list';
+  }
+  return typeof answer === 'string' ? null : 'Answer must be text';
+}
+
+// Selected values must be options of the question - "Other" only counts where the question offers it
+function checkChoices(question: Question, answer: AnswerValue): string | null {
+  const values = typeof answer === 'string' ? (answer === '' ? [] : [answer]) : answer as string[];
+  const options = new Set(question.options.map(option => option.text));
+  const allowsOther = OTHER_TYPES.includes(question.type) && question.hasOtherOption;
+
+  const unknown = values.find(value => !(allowsOther && isOtherValue(value)) && !options.has(value));
+  if (unknown !== undefined) return `"${unknown}" is not one of the options`;
+
+  if (new Set(values).size !== values.length) return 'Each option can only be selected once';
+
+  const otherText = getOtherValue(answer);
+  if (otherText !== null && otherText.length > MAX_OTHER_TEXT_LENGTH) {
+    return `"Other" must be at most ${MAX_OTHER_TEXT_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+function checkGrid(question: Question, answer: AnswerValue): string | null {
+  const rows = question.gridRows || [];
+  const columns = question.gridColumns || [];
+
+  for (const [row, selected] of Object.entries(answer as Record<string, string[]>)) {
+    if (!rows.includes(row)) return `"${row}" is not one of the rows`;
+
+    const unknown = selected.find(column => !columns.includes(column));
+    if (unknown !== undefined) return `"${unknown}" is not one of the columns`;
+
+    if (question.type === 'MC_GRID' && selected.length > 1) return `Row "${row}" accepts only one column`;
+  }
+
+  return null;
+}
+
+function checkLength(question: Question, answer: AnswerValue): string | null {
+  const maxLength = question.type === 'PARAGRAPH' ? MAX_PARAGRAPH_LENGTH : MAX_SHORT_ANSWER_LENGTH;
+  return typeof answer === 'string' && answer.length > maxLength
+    ? `Answer must be at most ${maxLength} characters`
+    : null;
+}
+
+function checkRequired(question: Question, answer: AnswerValue | undefined): string | null {
+  if (!question.required) return null;
+
+  // Grids are answered per row
+  if (isGridType(question.type)) {
+    const missingRows = getMissingGridRows(question, answer);
+    if (missingRows.length === 0) return null;
+    return question.requireEachRow ? `Needs a response in row "${missingRows[0]}"` : 'This question is required';
+  }
+
+  const isMissing = !answer ||
+    (typeof answer === 'string' && answer.trim() === '') ||
+    (Array.isArray(answer) && answer.length === 0);
+  return isMissing ? 'This question is required' : null;
+}
+
+// Per-type rules - scale range, selection counts, date bounds and text validation
+function checkAnswer(question: Question, answer: AnswerValue | undefined): string | null {
+  if (question.type === 'LINEAR_SCALE') return validateScaleAnswer(question, answer);
+  if (question.type === 'CHECKBOXES') return validateSelectionCount(question, answer);
+  if (isDateType(question.type)) return validateDateAnswer(question, answer);
+  if (question.type === 'SHORT_ANSWER' || question.type === 'PARAGRAPH') return validateTextAnswer(question, answer);
+  return null;
+}
+
+/**
+ * Validate a submitted set of answers against the form's questions
+ * Answers to hidden questions and skipped sections are discarded; "Other" picks that are empty or
+ * not offered are dropped and date answers are normalized
+ * @param responseId - the response being edited, whose own uploaded files can be kept
+ * @returns the questions that were shown, the answers to store and one error per invalid question
+ */
+export async function validateAnswers(
+  formId: string,
+  sections: SectionWithQuestions[],
+  submitted: unknown,
+  responseId?: string
+) {
+  const allQuestions = sections.flatMap(section => section.questions);
+  const errors: AnswerError[] = [];
+  const shapeErrors = new Map<string, string>();
+  const shaped: FormResponses = {};
+
+  for (const [questionId, answer] of Object.entries(isObject(submitted) ? submitted : {})) {
+    const question = allQuestions.find(q => q.id === questionId);
+    if (!question) {
+      errors.push({ questionId, message: 'This question is not part of the form' });
+      continue;
+    }
+
+    const shapeError = checkShape(question, answer);
+    if (shapeError) {
+      shapeErrors.set(questionId, shapeError);
+      continue;
+    }
+    shaped[questionId] = answer as AnswerValue;
+  }
+
+  // Re-evaluate conditional logic and section branching on the well-formed answers - questions that are
+  // hidden or in sections the respondent skipped aren't required and their answers are discarded,
+  // malformed ones included
+  const { questions, responses } = getActiveQuestions(sections, shaped);
+
+  for (const question of questions) {
+    const shapeError = shapeErrors.get(question.id);
+    if (shapeError) {
+      errors.push({ questionId: question.id, questionText: question.text, message: shapeError });
+      continue;
+    }
+
+    let answer = responses[question.id];
+    if (answer !== undefined && OTHER_TYPES.includes(question.type)) {
+      answer = cleanOtherAnswer(question, answer) as AnswerValue;
+      responses[question.id] = answer;
+    }
+
+    let message = checkRequired(question, answer);
+    if (!message && answer !== undefined) {
+      if (CHOICE_TYPES.includes(question.type)) message = checkChoices(question, answer);
+      else if (isGridType(question.type)) message = checkGrid(question, answer);
+      else if (question.type === 'SHORT_ANSWER' || question.type === 'PARAGRAPH') message = checkLength(question, answer);
+    }
+    message = message || checkAnswer(question, answer);
+
+    // Uploaded files must belong to the question and not to another response
+    if (!message && question.type === 'FILE_UPLOAD') {
+      message = await validateFileAnswer(formId, question, answer, responseId);
+    }
+
+    if (message) {
+      errors.push({ questionId: question.id, questionText: question.text, message });
+      continue;
+    }
+
+    // Date / time answers are stored in normalized ISO form
+    if (isDateType(question.type) && typeof answer === 'string' && answer !== '') {
+      responses[question.id] = normalizeDateAnswer(question, answer) as string;
+    }
+  }
+
+  return { questions, responses, errors };
+}
+
+/**
+ * One-line description of an answer error, e.g. `Question "Age": Must be a number`
+ */
+export const formatAnswerError = (error: AnswerError) =>
+  error.questionText ? `Question "${error.questionText}": ${error.message}` : error.message;
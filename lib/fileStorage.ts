@@ -0,0 +1,77 @@
+// Pluggable storage for uploaded files
+// Routes only talk to the StorageAdapter returned by getFileStorage(), so another backend
+// (e.g. an object store) can be added here without touching them
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface StorageAdapter {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer | null>; // null when the file doesn't exist
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Local filesystem storage - files are written under rootDir using their key as the relative path
+ */
+export function createLocalStorage(rootDir: string): StorageAdapter {
+  const root = path.resolve(rootDir);
+
+  // Keys are generated by us, but never let one point outside the storage directory
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async save(key, data) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    async read(key) {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async remove(key) {
+      try {
+        await fs.unlink(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+  };
+}
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * Storage backend selected by FILE_STORAGE (only "local" for now)
+ * Local files go to UPLOAD_DIR, or ./uploads by default
+ */
+export function getFileStorage(): StorageAdapter {
+  if (!storage) {
+    const backend = process.env.FILE_STORAGE || 'local';
+    if (backend !== 'local') {
+      throw new Error(`Unknown FILE_STORAGE backend: ${backend}`);
+    }
+    storage = createLocalStorage(process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads'));
+  }
+  return storage;
+}
+
+/**
+ * New storage key for a file uploaded to a form - the original name is kept in the database only
+ */
+export function generateStorageKey(formId: string): string {
+  return `${formId}/${crypto.randomBytes(16).toString('hex')}`;
+}
@@ -0,0 +1,302 @@
+// Helpers for shaping form data sent to respondents and saved by the form routes
+import { Prisma } from '@prisma/client';
+import { parseVisibilityRules, remapVisibilityRules } from '@/utils/conditionalLogic';
+import { SUBMIT_SECTION } from '@/utils/sectionBranching';
+import { getScaleBounds } from '@/utils/linearScale';
+import { isGridType } from '@/utils/gridQuestions';
+import { isDateType, normalizeDateAnswer } from '@/utils/dateQuestions';
+import { getFileLimits } from '@/utils/fileUploads';
+import { OTHER_TYPES } from '@/utils/otherOption';
+import { parseTextValidation } from '@/utils/textValidation';
+import { getSelectionLimits } from '@/utils/selectionLimits';
+import { CAPACITY_TYPES, parseCapacity } from '@/utils/optionCapacity';
+
+export type SectionWithQuestions = Prisma.SectionGetPayload<{
+  include: { questions: { include: { options: true } } };
+}>;
+
+type QuestionWithOptions = SectionWithQuestions['questions'][number];
+
+/**
+ * Respondent-safe projection of a question
+ * Never includes the answer key (correctAnswers) - that is only
+ * returned after submission through the results endpoint
+ */
+export function toPublicQuestion(question: QuestionWithOptions) {
+  return {
+    id: question.id,
+    text: question.text,
+    description: question.description,
+    type: question.type,
+    required: question.required,
+    imageUrl: question.imageUrl,
+    // Quiz fields
+    points: question.points,
+    // Option settings
+    shuffleOptionsOrder: question.shuffleOptionsOrder,
+    // Linear scale settings
+    scaleMin: question.scaleMin,
+    scaleMax: question.scaleMax,
+    scaleMinLabel: question.scaleMinLabel,
+    scaleMaxLabel: question.scaleMaxLabel,
+    // Grid settings
+    gridRows: question.gridRows,
+    gridColumns: question.gridColumns,
+    requireEachRow: question.requireEachRow,
+    // Date / time settings
+    dateMin: question.dateMin,
+    dateMax: question.dateMax,
+    includeYear: question.includeYear,
+    // "Other" choice
+    hasOtherOption: question.hasOtherOption,
+    // Checkbox selection limits
+    minSelections: question.minSelections,
+    maxSelections: question.maxSelections,
+    // Response validation
+    textValidation: parseTextValidation(question.textValidation, question.type),
+    // File upload settings
+    allowedFileTypes: question.allowedFileTypes,
+    maxFiles: question.maxFiles,
+    maxFileSize: question.maxFileSize,
+    // Conditional logic
+    visibilityRules: parseVisibilityRules(question.visibilityRules),
+    options: question.options.map(option => ({
+      id: option.id,
+      text: option.text,
+      imageUrl: option.imageUrl,
+      goToSection: option.goToSection,
+      // Seats - remaining is null for unlimited options
+      capacity: option.capacity,
+      remaining: option.capacity === null ? null : Math.max(0, option.capacity - option.taken)
+    }))
+  };
+}
+
+/**
+ * Respondent-safe projection of a section and its questions
+ */
+export function toPublicSection(section: SectionWithQuestions) {
+  return {
+    id: section.id,
+    title: section.title,
+    description: section.description,
+    order: section.order,
+    nextSection: section.nextSection,
+    questions: section.questions.map(toPublicQuestion)
+  };
+}
+
+/**
+ * Owner (editor) projection of a section - same as the public one plus answer keys
+ */
+export function toEditorSection(section: SectionWithQuestions) {
+  return {
+    ...toPublicSection(section),
+    questions: section.questions.map(question => ({
+      ...toPublicQuestion(question),
+      correctAnswers: question.correctAnswers
+    }))
+  };
+}
+
+// Question as sent by the editor / create page when saving
+export interface QuestionPayload {
+  id?: string;
+  clientId?: string;     // Editor ID (may be temp_...), used to resolve rule references
+  text?: string;
+  question?: string;     // Legacy create page field name
+  description?: string | null;
+  type?: string;
+  required?: boolean;
+  imageUrl?: string | null;
+  points?: number;
+  correctAnswers?: string[];
+  shuffleOptionsOrder?: boolean;
+  scaleMin?: number | null;
+  scaleMax?: number | null;
+  scaleMinLabel?: string | null;
+  scaleMaxLabel?: string | null;
+  gridRows?: string[];
+  gridColumns?: string[];
+  requireEachRow?: boolean;
+  dateMin?: string | null;
+  dateMax?: string | null;
+  includeYear?: boolean;
+  hasOtherOption?: boolean;
+  minSelections?: number | null;
+  maxSelections?: number | null;
+  textValidation?: unknown;
+  allowedFileTypes?: string[];
+  maxFiles?: number | null;
+  maxFileSize?: number | null;
+  visibilityRules?: unknown;
+}
+
+export interface OptionPayload {
+  text?: string;
+  imageUrl?: string | null;
+  goToSection?: string | null;
+  capacity?: number | string | null;
+}
+
+export interface SectionPayload {
+  id?: string;
+  clientId?: string;     // Editor ID (may be temp_...), used to resolve branch targets
+  nextSection?: string | null;
+}
+
+// Trimmed, non-empty and without duplicates
+const uniqueLabels = (labels: string[] | undefined) =>
+  [...new Set((labels || []).map(label => label.trim()).filter(Boolean))];
+
+/**
+ * Question fields written by every create/update in the form save routes
+ * Keeps the create and update routes in sync when new question settings are added
+ */
+export function questionDataFromPayload(question: QuestionPayload) {
+  const isScale = question.type === 'LINEAR_SCALE';
+  const scale = getScaleBounds(question);
+  const isGrid = isGridType(question.type || '');
+  const isDate = isDateType(question.type || '');
+  const isFileUpload = question.type === 'FILE_UPLOAD';
+  const fileLimits = getFileLimits(question);
+  const isCheckboxes = question.type === 'CHECKBOXES';
+  const selectionLimits = getSelectionLimits(question);
+  // Bounds are always kept with a year, whatever the question collects
+  const dateBound = (bound: string | null | undefined) =>
+    isDate && bound ? normalizeDateAnswer({ type: question.type || '', includeYear: true }, bound) : null;
+
+  return {
+    text: question.text || question.question || '',
+    description: question.description || null,
+    type: (question.type || 'SHORT_ANSWER') as Prisma.QuestionCreateInput['type'],
+    required: question.required || false,
+    imageUrl: question.imageUrl || null,
+    points: question.points || 1,
+    correctAnswers: question.correctAnswers || [],
+    shuffleOptionsOrder: question.shuffleOptionsOrder || false,
+    hasOtherOption: OTHER_TYPES.includes(question.type || '') ? question.hasOtherOption || false : false,
+    // Selection limits only apply to checkboxes
+    minSelections: isCheckboxes ? selectionLimits.min : null,
+    maxSelections: isCheckboxes ? selectionLimits.max : null,
+    // Dropped when it doesn't apply to the question type or is incomplete
+    textValidation: (parseTextValidation(question.textValidation, question.type || '') ?? null) as Prisma.InputJsonValue | null,
+    // Scale settings only apply to linear scale questions
+    scaleMin: isScale ? scale.min : null,
+    scaleMax: isScale ? scale.max : null,
+    scaleMinLabel: isScale ? question.scaleMinLabel?.trim() || null : null,
+    scaleMaxLabel: isScale ? question.scaleMaxLabel?.trim() || null : null,
+    // Grid settings only apply to grid questions - rows and columns are matched by text, so keep them unique
+    gridRows: isGrid ? uniqueLabels(question.gridRows) : [],
+    gridColumns: isGrid ? uniqueLabels(question.gridColumns) : [],
+    requireEachRow: isGrid ? question.requireEachRow || false : false,
+    // Date / time settings only apply to date / time questions
+    dateMin: dateBound(question.dateMin),
+    dateMax: dateBound(question.dateMax),
+    includeYear: question.includeYear ?? true,
+    // File upload settings only apply to file upload questions
+    allowedFileTypes: isFileUpload ? uniqueLabels(question.allowedFileTypes) : [],
+    maxFiles: isFileUpload ? fileLimits.maxFiles : null,
+    maxFileSize: isFileUpload ? fileLimits.maxFileSize : null,
+    // Rules are written afterwards by createRuleTracker, once every question has its saved ID
+    visibilityRules: null
+  };
+}
+
+/**
+ * Option rows for createMany - options without text are skipped
+ * Branch targets are saved as sent and resolved afterwards by createSectionTracker
+ * Seats taken are recounted afterwards by syncOptionSeats
+ */
+export function optionDataFromPayload(options: OptionPayload[] | undefined, questionId: string, questionType?: string) {
+  const hasCapacity = CAPACITY_TYPES.includes(questionType || '');
+  return (options || [])
+    .filter(option => option.text?.trim())
+    .map(option => ({
+      text: option.text as string,
+      imageUrl: option.imageUrl || null,
+      goToSection: option.goToSection || null,
+      capacity: hasCapacity ? parseCapacity(option.capacity) : null,
+      questionId
+    }));
+}
+
+/**
+ * Collects question IDs during a save so visibility rules can point at
+ * questions that only got their real ID in the same save
+ * Call track() for every saved question, then saveRules() at the end
+ */
+export function createRuleTracker() {
+  const questionIdMap = new Map<string, string>();
+  const pending: { questionId: string; rules: unknown }[] = [];
+
+  const track = (question: QuestionPayload, savedId: string) => {
+    if (question.clientId) questionIdMap.set(question.clientId, savedId);
+    if (question.id) questionIdMap.set(question.id, savedId);
+    questionIdMap.set(savedId, savedId);
+
+    if (question.visibilityRules) {
+      pending.push({ questionId: savedId, rules: question.visibilityRules });
+    }
+  };
+
+  const saveRules = async (db: Prisma.TransactionClient) => {
+    for (const { questionId, rules } of pending) {
+      const remapped = remapVisibilityRules(rules, questionIdMap);
+      if (!remapped) continue;
+
+      await db.question.update({
+        where: { id: questionId },
+        data: { visibilityRules: remapped as unknown as Prisma.InputJsonValue }
+      });
+    }
+  };
+
+  return { track, saveRules };
+}
+
+/**
+ * Collects section IDs during a save so branch targets (Section.nextSection and
+ * Option.goToSection) can point at sections that only got their real ID in the same save
+ * Call track() for every saved section, then saveTargets() at the end
+ */
+export function createSectionTracker(formId: string) {
+  const sectionIdMap = new Map<string, string>();
+
+  const track = (section: SectionPayload, savedId: string) => {
+    if (section.clientId) sectionIdMap.set(section.clientId, savedId);
+    if (section.id) sectionIdMap.set(section.id, savedId);
+  };
+
+  const saveTargets = async (db: Prisma.TransactionClient) => {
+    const formOptions = { question: { section: { formId } } };
+
+    for (const [clientId, savedId] of sectionIdMap) {
+      if (clientId === savedId) continue;
+
+      await db.section.updateMany({
+        where: { formId, nextSection: clientId },
+        data: { nextSection: savedId }
+      });
+      await db.option.updateMany({
+        where: { ...formOptions, goToSection: clientId },
+        data: { goToSection: savedId }
+      });
+    }
+
+    // Targets that don't resolve to a section of this form fall back to "continue"
+    const sections = await db.section.findMany({ where: { formId }, select: { id: true } });
+    const validTargets = [...sections.map(section => section.id), SUBMIT_SECTION];
+
+    await db.section.updateMany({
+      where: { formId, nextSection: { notIn: validTargets } },
+      data: { nextSection: null }
+    });
+    await db.option.updateMany({
+      where: { ...formOptions, goToSection: { notIn: validTargets } },
+      data: { goToSection: null }
+    });
+  };
+
+  return { track, saveTargets };
+}
@@ -0,0 +1,78 @@
+// Server-side checks for forms that require sign-in or only accept certain email addresses
+import { NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { isEmailAllowed, parseAllowlist, requiresSignIn } from '@/utils/formAccess';
+import type { ResponseStatus } from '@/utils/formSchedule';
+
+interface AccessForm {
+  requireSignIn: boolean;
+  allowMultipleResponses: boolean;
+  oneResponsePerAccount: boolean;
+  allowedRespondents: string[];
+}
+
+// Why a visitor can't respond - password is checked separately (see lib/formPassword)
+export type AccessDenial = 'sign_in' | 'denied' | 'password';
+
+export type FormAccess =
+  | { allowed: true; userId: string | null }
+  | { allowed: false; reason: Exclude<AccessDenial, 'password'> };
+
+/**
+ * Check whether the current visitor may respond to a form
+ * Allowlisted emails are matched against the verified addresses of the Clerk user
+ */
+export async function checkFormAccess(form: AccessForm): Promise<FormAccess> {
+  const { userId } = await auth();
+  if (!requiresSignIn(form)) return { allowed: true, userId };
+  if (!userId) return { allowed: false, reason: 'sign_in' };
+
+  if (form.requireSignIn && parseAllowlist(form.allowedRespondents).length > 0) {
+    const user = await currentUser();
+    const emails = (user?.emailAddresses || [])
+      .filter(email => email.verification?.status === 'verified')
+      .map(email => email.emailAddress);
+
+    if (!isEmailAllowed(form, emails)) return { allowed: false, reason: 'denied' };
+  }
+
+  return { allowed: true, userId };
+}
+
+/**
+ * Error response for a visitor who can't respond - `access` tells the page which screen to show
+ */
+export function accessDeniedResponse(reason: AccessDenial) {
+  switch (reason) {
+    case 'sign_in':
+      return NextResponse.json(
+        { success: false, error: 'Please sign in to respond to this form', access: reason },
+        { status: 401 }
+      );
+    case 'password':
+      return NextResponse.json(
+        { success: false, error: 'This form is password protected', access: reason },
+        { status: 401 }
+      );
+    default:
+      return NextResponse.json(
+        { success: false, error: 'You do not have permission to respond to this form', access: reason },
+        { status: 403 }
+      );
+  }
+}
+
+/**
+ * 403 for a form that isn't taking responses - responseStatus lets the page show the right message
+ */
+export function notAcceptingResponse(responseStatus: Exclude<ResponseStatus, 'open'>, fullMessage: string) {
+  const errors: Record<typeof responseStatus, string> = {
+    scheduled: 'This form is not open yet',
+    closed: 'This form is no longer accepting responses',
+    full: fullMessage
+  };
+  return NextResponse.json(
+    { success: false, error: errors[responseStatus], responseStatus },
+    { status: 403 }
+  );
+}
@@ -0,0 +1,130 @@
+// Deep copies of a form's definition - used by the duplicate and import routes
+import { Prisma } from '@prisma/client';
+import prisma from '@/services/prisma';
+import {
+  createRuleTracker,
+  createSectionTracker,
+  optionDataFromPayload,
+  questionDataFromPayload,
+  type OptionPayload,
+  type QuestionPayload,
+  type SectionPayload
+} from '@/lib/form-utils';
+import { saveRevision } from '@/lib/formRevisions';
+import { sortSections } from '@/utils/sectionBranching';
+
+export type FormWithSections = Prisma.FormGetPayload<{
+  include: { sections: { include: { questions: { include: { options: true } } } } };
+}>;
+
+// Section to copy - a saved section or one read from an imported file
+export interface SectionSource extends SectionPayload {
+  title: string;
+  description?: string | null;
+  questions: (QuestionPayload & { options?: OptionPayload[] })[];
+}
+
+/**
+ * Form settings and theme carried over to a copy - everything but the title, description,
+ * access password, owner, publish state and counters
+ */
+export function formSettingsData(form: FormWithSections) {
+  return {
+    acceptingResponses: form.acceptingResponses,
+    // Form settings
+    shuffleQuestions: form.shuffleQuestions,
+    collectEmail: form.collectEmail,
+    allowMultipleResponses: form.allowMultipleResponses,
+    oneResponsePerAccount: form.oneResponsePerAccount,
+    requireSignIn: form.requireSignIn,
+    allowedRespondents: form.allowedRespondents,
+    opensAt: form.opensAt,
+    closesAt: form.closesAt,
+    maxResponses: form.maxResponses,
+    fullMessage: form.fullMessage,
+    closedMessage: form.closedMessage,
+    showProgress: form.showProgress,
+    confirmationMessage: form.confirmationMessage,
+    defaultRequired: form.defaultRequired,
+    // Quiz settings
+    isQuiz: form.isQuiz,
+    showCorrectAnswers: form.showCorrectAnswers,
+    releaseGrades: form.releaseGrades,
+    // Response editing settings
+    allowResponseEditing: form.allowResponseEditing,
+    editTimeLimit: form.editTimeLimit,
+    // Theme settings
+    themeColor: form.themeColor,
+    themeBackground: form.themeBackground
+  };
+}
+
+/**
+ * Create copies of sections, with their questions and options, in a form
+ * Sections are saved in the given order, and branch targets and visibility rules that point
+ * at the source IDs are pointed at the copies. Seats start free, as no responses are copied.
+ * Run it in the transaction that creates the form, so a failed copy leaves no partial form behind
+ */
+export async function copySections(db: Prisma.TransactionClient, formId: string, sections: SectionSource[]) {
+  const ruleTracker = createRuleTracker();
+  const sectionTracker = createSectionTracker(formId);
+
+  for (let sectionIndex = 0; sectionIndex < sections.length; sectionIndex++) {
+    const section = sections[sectionIndex];
+
+    // Branch targets still hold the source's section IDs until saveTargets below
+    const createdSection = await db.section.create({
+      data: {
+        title: section.title,
+        description: section.description ?? null,
+        order: sectionIndex,
+        nextSection: section.nextSection || null,
+        formId
+      }
+    });
+    sectionTracker.track(section, createdSection.id);
+
+    for (const question of section.questions) {
+      const createdQuestion = await db.question.create({
+        data: {
+          ...questionDataFromPayload(question),
+          sectionId: createdSection.id
+        }
+      });
+      ruleTracker.track(question, createdQuestion.id);
+
+      if (question.options && question.options.length > 0) {
+        await db.option.createMany({
+          data: optionDataFromPayload(question.options, createdQuestion.id, question.type)
+        });
+      }
+    }
+  }
+
+  await ruleTracker.saveRules(db);
+  await sectionTracker.saveTargets(db);
+}
+
+/**
+ * Copy a form into a new unpublished draft owned by createdBy, with the copy's first revision
+ */
+export async function copyForm(source: FormWithSections, createdBy: string, title: string) {
+  return prisma.$transaction(async (tx) => {
+    const form = await tx.form.create({
+      data: {
+        ...formSettingsData(source),
+        title,
+        description: source.description,
+        accessPasswordHash: source.accessPasswordHash,
+        published: false,
+        responseCount: 0, // Responses aren't copied, so the copy's limit starts from none
+        createdBy
+      }
+    });
+
+    await copySections(tx, form.id, sortSections(source.sections));
+    await saveRevision(tx, form.id, createdBy);
+
+    return form;
+  });
+}
@@ -0,0 +1,339 @@
+// Form definitions - export a form to the versioned JSON format and recreate it from an imported file
+import { QuestionType } from '@prisma/client';
+import prisma from '@/services/prisma';
+import { toPublicQuestion } from '@/lib/form-utils';
+import { copySections, formSettingsData, type FormWithSections, type SectionSource } from '@/lib/formCopy';
+import { saveRevision } from '@/lib/formRevisions';
+import { parseVisibilityRules } from '@/utils/conditionalLogic';
+import { parseTextValidation } from '@/utils/textValidation';
+import { SUBMIT_SECTION, sortSections } from '@/utils/sectionBranching';
+import { parseAllowlist } from '@/utils/formAccess';
+import { parseClosedMessage, parseScheduleDate } from '@/utils/formSchedule';
+import { parseMaxResponses } from '@/utils/responseLimit';
+import type {
+  DefinitionError,
+  FormDefinition,
+  FormDefinitionSettings,
+  QuestionDefinition
+} from '@/types/formDefinition';
+
+export const FORM_DEFINITION_FORMAT = 'forms4u.form';
+export const FORM_DEFINITION_VERSION = 1;
+
+// Form to recreate - the form of a validated definition, or a starter template
+export interface FormSource {
+  title: string;
+  description?: string | null;
+  settings?: Partial<FormDefinitionSettings>;
+  sections: SectionSource[];
+}
+
+/**
+ * Serialize a form with its settings, sections, questions and options
+ */
+export function toFormDefinition(form: FormWithSections): FormDefinition {
+  return {
+    format: FORM_DEFINITION_FORMAT,
+    version: FORM_DEFINITION_VERSION,
+    exportedAt: new Date().toISOString(),
+    form: {
+      title: form.title,
+      description: form.description,
+      settings: {
+        ...formSettingsData(form),
+        opensAt: form.opensAt?.toISOString() ?? null,
+        closesAt: form.closesAt?.toISOString() ?? null
+      },
+      sections: sortSections(form.sections).map(section => ({
+        id: section.id,
+        title: section.title,
+        description: section.description,
+        nextSection: section.nextSection,
+        questions: section.questions.map(question => ({
+          ...toPublicQuestion(question),
+          correctAnswers: question.correctAnswers,
+          options: question.options.map(option => ({
+            text: option.text,
+            imageUrl: option.imageUrl,
+            goToSection: option.goToSection,
+            capacity: option.capacity
+          }))
+        }))
+      }))
+    }
+  };
+}
+
+// Expected JSON type of each optional field - a trailing ? also allows null
+type FieldRule = 'boolean' | 'string' | 'string?' | 'number' | 'number?' | 'strings' | 'date?';
+
+const SETTING_RULES: Record<keyof FormDefinitionSettings, FieldRule> = {
+  acceptingResponses: 'boolean',
+  shuffleQuestions: 'boolean',
+  collectEmail: 'boolean',
+  allowMultipleResponses: 'boolean',
+  oneResponsePerAccount: 'boolean',
+  requireSignIn: 'boolean',
+  allowedRespondents: 'strings',
+  opensAt: 'date?',
+  closesAt: 'date?',
+  maxResponses: 'number?',
+  fullMessage: 'string',
+  closedMessage: 'string?',
+  showProgress: 'boolean',
+  confirmationMessage: 'string',
+  defaultRequired: 'boolean',
+  isQuiz: 'boolean',
+  showCorrectAnswers: 'boolean',
+  releaseGrades: 'boolean',
+  allowResponseEditing: 'boolean',
+  editTimeLimit: 'string',
+  themeColor: 'string',
+  themeBackground: 'string'
+};
+
+// id, text, type, options, textValidation and visibilityRules are checked separately
+const QUESTION_RULES: Partial<Record<keyof QuestionDefinition, FieldRule>> = {
+  description: 'string?',
+  required: 'boolean',
+  imageUrl: 'string?',
+  points: 'number',
+  correctAnswers: 'strings',
+  shuffleOptionsOrder: 'boolean',
+  hasOtherOption: 'boolean',
+  minSelections: 'number?',
+  maxSelections: 'number?',
+  scaleMin: 'number?',
+  scaleMax: 'number?',
+  scaleMinLabel: 'string?',
+  scaleMaxLabel: 'string?',
+  gridRows: 'strings',
+  gridColumns: 'strings',
+  requireEachRow: 'boolean',
+  dateMin: 'string?',
+  dateMax: 'string?',
+  includeYear: 'boolean',
+  allowedFileTypes: 'strings',
+  maxFiles: 'number?',
+  maxFileSize: 'number?'
+};
+
+const QUESTION_TYPES: string[] = Object.values(QuestionType);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+function checkRule(value: unknown, rule: FieldRule): string | null {
+  if (rule.endsWith('?') && value === null) return null;
+
+  switch (rule.replace('?', '')) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'Must be true or false';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'Must be a number';
+    case 'strings':
+      return Array.isArray(value) && value.every(item => typeof item === 'string') ? null : 'Must be a list of text';
+    case 'date':
+      return typeof value === 'string' && parseScheduleDate(value) ? null : 'Must be an ISO date and time';
+    default:
+      return typeof value === 'string' ? null : 'Must be text';
+  }
+}
+
+// Fields that are left out get their defaults, so only the ones present are checked
+function checkFields(
+  value: Record<string, unknown>,
+  rules: Partial<Record<string, FieldRule>>,
+  path: string,
+  errors: DefinitionError[]
+) {
+  for (const [key, rule] of Object.entries(rules)) {
+    if (value[key] === undefined || !rule) continue;
+    const message = checkRule(value[key], rule);
+    if (message) errors.push({ field: `${path}.${key}`, message });
+  }
+}
+
+/**
+ * Validate an imported file
+ * @returns the definition, or every problem found with the path of the field it's in
+ */
+export function parseFormDefinition(raw: unknown): { definition: FormDefinition | null; errors: DefinitionError[] } {
+  const errors: DefinitionError[] = [];
+  const fail = (field: string, message: string) => {
+    errors.push({ field, message });
+    return { definition: null, errors };
+  };
+
+  if (!isObject(raw)) return fail('', 'File must contain a JSON object');
+  if (raw.format !== FORM_DEFINITION_FORMAT) return fail('format', `Must be "${FORM_DEFINITION_FORMAT}"`);
+  if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+    return fail('version', 'Must be a whole number');
+  }
+  if (raw.version > FORM_DEFINITION_VERSION) {
+    return fail('version', `Version ${raw.version} files aren't supported yet - the latest is ${FORM_DEFINITION_VERSION}`);
+  }
+
+  const form = raw.form;
+  if (!isObject(form)) return fail('form', 'Must be an object');
+
+  if (typeof form.title !== 'string') {
+    errors.push({ field: 'form.title', message: 'Must be text' });
+  }
+  checkFields(form, { description: 'string?' }, 'form', errors);
+
+  if (form.settings !== undefined) {
+    if (isObject(form.settings)) {
+      checkFields(form.settings, SETTING_RULES, 'form.settings', errors);
+    } else {
+      errors.push({ field: 'form.settings', message: 'Must be an object' });
+    }
+  }
+
+  if (!Array.isArray(form.sections) || form.sections.length === 0) {
+    return fail('form.sections', 'Must be a list with at least one section');
+  }
+
+  // Branch targets and rules can only point at sections and questions in the file
+  const sectionIds = new Set<string>();
+  const questionIds = new Set<string>();
+  const targets: { field: string; target: unknown }[] = [];
+  const ruleReferences: { field: string; questionId: string }[] = [];
+
+  form.sections.forEach((section: unknown, sectionIndex) => {
+    const sectionPath = `form.sections[${sectionIndex}]`;
+    if (!isObject(section)) {
+      errors.push({ field: sectionPath, message: 'Must be an object' });
+      return;
+    }
+
+    if (typeof section.id !== 'string' || !section.id) {
+      errors.push({ field: `${sectionPath}.id`, message: 'Must be text' });
+    } else if (sectionIds.has(section.id)) {
+      errors.push({ field: `${sectionPath}.id`, message: `Section ID "${section.id}" is used more than once` });
+    } else {
+      sectionIds.add(section.id);
+    }
+    if (typeof section.title !== 'string') {
+      errors.push({ field: `${sectionPath}.title`, message: 'Must be text' });
+    }
+    checkFields(section, { description: 'string?', nextSection: 'string?' }, sectionPath, errors);
+    targets.push({ field: `${sectionPath}.nextSection`, target: section.nextSection });
+
+    if (!Array.isArray(section.questions)) {
+      errors.push({ field: `${sectionPath}.questions`, message: 'Must be a list' });
+      return;
+    }
+
+    section.questions.forEach((question: unknown, questionIndex) => {
+      const questionPath = `${sectionPath}.questions[${questionIndex}]`;
+      if (!isObject(question)) {
+        errors.push({ field: questionPath, message: 'Must be an object' });
+        return;
+      }
+
+      if (typeof question.id !== 'string' || !question.id) {
+        errors.push({ field: `${questionPath}.id`, message: 'Must be text' });
+      } else if (questionIds.has(question.id)) {
+        errors.push({ field: `${questionPath}.id`, message: `Question ID "${question.id}" is used more than once` });
+      } else {
+        questionIds.add(question.id);
+      }
+      if (typeof question.text !== 'string') {
+        errors.push({ field: `${questionPath}.text`, message: 'Must be text' });
+      }
+      if (typeof question.type !== 'string' || !QUESTION_TYPES.includes(question.type)) {
+        errors.push({ field: `${questionPath}.type`, message: `Must be one of ${QUESTION_TYPES.join(', ')}` });
+        return;
+      }
+      checkFields(question, QUESTION_RULES, questionPath, errors);
+
+      if (question.textValidation != null && !parseTextValidation(question.textValidation, question.type)) {
+        errors.push({ field: `${questionPath}.textValidation`, message: 'Not a valid response validation for this question type' });
+      }
+      if (question.visibilityRules != null) {
+        const rules = parseVisibilityRules(question.visibilityRules);
+        if (rules) {
+          rules.conditions.forEach(condition => ruleReferences.push({
+            field: `${questionPath}.visibilityRules`,
+            questionId: condition.questionId
+          }));
+        } else {
+          errors.push({ field: `${questionPath}.visibilityRules`, message: 'Not valid visibility rules' });
+        }
+      }
+
+      if (question.options === undefined) return;
+      if (!Array.isArray(question.options)) {
+        errors.push({ field: `${questionPath}.options`, message: 'Must be a list' });
+        return;
+      }
+
+      question.options.forEach((option: unknown, optionIndex) => {
+        const optionPath = `${questionPath}.options[${optionIndex}]`;
+        if (!isObject(option)) {
+          errors.push({ field: optionPath, message: 'Must be an object' });
+          return;
+        }
+        if (typeof option.text !== 'string' || !option.text.trim()) {
+          errors.push({ field: `${optionPath}.text`, message: 'Must be non-empty text' });
+        }
+        checkFields(option, { imageUrl: 'string?', goToSection: 'string?', capacity: 'number?' }, optionPath, errors);
+        targets.push({ field: `${optionPath}.goToSection`, target: option.goToSection });
+      });
+    });
+  });
+
+  for (const { field, target } of targets) {
+    if (typeof target === 'string' && target !== SUBMIT_SECTION && !sectionIds.has(target)) {
+      errors.push({ field, message: `"${target}" is not the ID of a section in this file` });
+    }
+  }
+  for (const { field, questionId } of ruleReferences) {
+    if (!questionIds.has(questionId)) {
+      errors.push({ field, message: `"${questionId}" is not the ID of a question in this file` });
+    }
+  }
+
+  return errors.length > 0
+    ? { definition: null, errors }
+    : { definition: raw as unknown as FormDefinition, errors };
+}
+
+/**
+ * Create an unpublished draft from a validated definition's form, owned by createdBy, with its first revision
+ * Settings and question fields that are left out keep their defaults
+ */
+export async function createFormFromDefinition(source: FormSource, createdBy: string) {
+  // Only known settings are read - anything else in the file is ignored
+  const sourceSettings = source.settings || {};
+  const settings: Partial<FormDefinitionSettings> = Object.fromEntries(
+    Object.keys(SETTING_RULES).map(key => [key, sourceSettings[key as keyof FormDefinitionSettings]])
+  );
+
+  return prisma.$transaction(async (tx) => {
+    const form = await tx.form.create({
+      data: {
+        ...settings,
+        allowedRespondents: parseAllowlist(settings.allowedRespondents),
+        opensAt: parseScheduleDate(settings.opensAt),
+        closesAt: parseScheduleDate(settings.closesAt),
+        maxResponses: parseMaxResponses(settings.maxResponses),
+        fullMessage: settings.fullMessage || undefined,
+        closedMessage: parseClosedMessage(settings.closedMessage),
+        // Response editing is automatically disabled in quiz mode
+        allowResponseEditing: settings.isQuiz ? false : settings.allowResponseEditing,
+        title: source.title,
+        description: source.description ?? null,
+        published: false,
+        responseCount: 0, // A new form has no responses for maxResponses to count
+        createdBy
+      }
+    });
+
+    await copySections(tx, form.id, source.sections);
+    await saveRevision(tx, form.id, createdBy);
+
+    return form;
+  });
+}
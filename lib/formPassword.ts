@@ -0,0 +1,152 @@
+// Password-protected forms - password hashing, throttling wrong guesses and the access cookie
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/services/prisma';
+import { isValidSignature, signValue } from '@/lib/signing';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+// Guesses allowed per client and form within the attempt window
+export const MAX_PASSWORD_ATTEMPTS = 5;
+const ATTEMPT_WINDOW = 15 * 60 * 1000; // 15 minutes, in ms
+
+// Clients without a known address can't be told apart - rather than being locked out together,
+// they're slowed down to one guess per form every interval
+const UNKNOWN_CLIENT = 'unknown';
+const UNKNOWN_CLIENT_INTERVAL = 2 * 1000; // 2 seconds, in ms
+
+// How long a correct password unlocks the form
+const ACCESS_DURATION = 2 * 60 * 60; // 2 hours, in seconds
+
+interface PasswordForm {
+  id: string;
+  accessPasswordHash: string | null;
+}
+
+/**
+ * Hash a form password - stored as "salt:hash"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+
+  const candidate = await scrypt(password, salt, KEY_LENGTH);
+  const expected = Buffer.from(hash, 'hex');
+  return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+}
+
+/**
+ * Password hash to store from saved settings
+ * Turning protection off clears it, a new accessPassword replaces it, otherwise the current hash is kept
+ */
+export async function getPasswordHashUpdate(
+  settings: { passwordProtected?: boolean; accessPassword?: unknown } | undefined,
+  currentHash: string | null = null
+): Promise<string | null> {
+  if (settings?.passwordProtected === undefined) return currentHash;
+  if (!settings.passwordProtected) return null;
+
+  const password = typeof settings.accessPassword === 'string' ? settings.accessPassword : '';
+  return password ? hashPassword(password) : currentHash;
+}
+
+const accessCookieName = (formId: string) => `form_access_${formId}`;
+
+// Signed together with the password hash, so changing the password locks everyone out again
+const accessPayload = (form: PasswordForm, expiresAt: string) => `${form.id}.${expiresAt}.${form.accessPasswordHash}`;
+
+/**
+ * Whether the request may open the form - always true for forms without a password
+ */
+export function hasPasswordAccess(request: NextRequest, form: PasswordForm): boolean {
+  if (!form.accessPasswordHash) return true;
+
+  const [expiresAt, signature] = (request.cookies.get(accessCookieName(form.id))?.value || '').split('.');
+  if (!expiresAt || !signature || Number(expiresAt) < Date.now()) return false;
+  return isValidSignature(accessPayload(form, expiresAt), signature);
+}
+
+export function setPasswordAccessCookie(response: NextResponse, form: PasswordForm) {
+  const expiresAt = String(Date.now() + ACCESS_DURATION * 1000);
+  response.cookies.set(accessCookieName(form.id), `${expiresAt}.${signValue(accessPayload(form, expiresAt))}`, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: ACCESS_DURATION,
+    path: '/'
+  });
+}
+
+/**
+ * Proxies in front of the app that append the client address to X-Forwarded-For - TRUSTED_PROXY_COUNT, or none by default
+ */
+function getTrustedProxyCount(): number {
+  const count = parseInt(process.env.TRUSTED_PROXY_COUNT || '', 10);
+  return Number.isInteger(count) && count >= 0 ? count : 0;
+}
+
+/**
+ * The address the outermost trusted proxy added - entries to its left come from the client and can be forged
+ * Route handlers don't see the socket address, so without a trusted proxy the client is unknown
+ */
+function getClientKey(request: NextRequest): string {
+  const proxyCount = getTrustedProxyCount();
+  if (proxyCount === 0) return UNKNOWN_CLIENT;
+
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return forwarded[forwarded.length - proxyCount] || UNKNOWN_CLIENT;
+}
+
+/**
+ * Count a password guess against the client's limit before it's checked
+ * The attempt is recorded first, so parallel guesses can't all slip under the limit
+ * @returns seconds until the client may guess again, or null when this guess may be checked
+ */
+export async function claimPasswordAttempt(request: NextRequest, formId: string): Promise<number | null> {
+  const clientKey = getClientKey(request);
+  const [window, limit] = clientKey === UNKNOWN_CLIENT
+    ? [UNKNOWN_CLIENT_INTERVAL, 1]
+    : [ATTEMPT_WINDOW, MAX_PASSWORD_ATTEMPTS];
+
+  // Attempts outside the window no longer count
+  await prisma.formPasswordAttempt.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - ATTEMPT_WINDOW) } }
+  });
+
+  const attempt = await prisma.formPasswordAttempt.create({
+    data: { formId, clientKey }
+  });
+
+  const attempts = await prisma.formPasswordAttempt.findMany({
+    where: { formId, clientKey, createdAt: { gte: new Date(Date.now() - window) } },
+    select: { createdAt: true }
+  });
+  if (attempts.length <= limit) return null;
+
+  // Rejected guesses aren't checked, so they don't count either
+  await prisma.formPasswordAttempt.delete({ where: { id: attempt.id } });
+
+  // Until the oldest of the counted attempts leaves the window
+  const oldest = Math.min(...attempts.map(counted => counted.createdAt.getTime()));
+  return Math.max(1, Math.ceil((oldest + window - Date.now()) / 1000));
+}
+
+/**
+ * Forget a client's guesses once it has entered the right password
+ */
+export async function clearPasswordAttempts(request: NextRequest, formId: string) {
+  await prisma.formPasswordAttempt.deleteMany({
+    where: { formId, clientKey: getClientKey(request) }
+  });
+}
@@ -0,0 +1,180 @@
+// Revision history - snapshots of a form taken on save, the changes between them, and restoring one as a draft
+import { Prisma } from '@prisma/client';
+import { toFormDefinition } from '@/lib/formDefinition';
+import type { FormWithSections } from '@/lib/formCopy';
+import { SUBMIT_SECTION } from '@/utils/sectionBranching';
+import type { FormDefinition, FormDefinitionForm } from '@/types/formDefinition';
+import type { ChangedQuestion, RevisionDiff } from '@/types/formRevision';
+
+/**
+ * Store a snapshot of the form as it is now, saved by userId
+ * Run it in the transaction that saves the form, so a save and its revision succeed or fail together.
+ * Saves that didn't change anything (e.g. settings saved twice) don't add a revision
+ */
+export async function saveRevision(db: Prisma.TransactionClient, formId: string, userId: string) {
+  const form = await db.form.findUnique({
+    where: { id: formId },
+    include: {
+      sections: {
+        include: {
+          questions: {
+            include: {
+              options: true
+            }
+          }
+        }
+      }
+    }
+  });
+  if (!form) return;
+
+  const definition = toFormDefinition(form);
+
+  const latest = await db.formRevision.findFirst({
+    where: { formId },
+    orderBy: { createdAt: 'desc' },
+    select: { definition: true }
+  });
+  const latestForm = (latest?.definition as unknown as FormDefinition | undefined)?.form;
+  if (latestForm && JSON.stringify(latestForm) === JSON.stringify(definition.form)) return;
+
+  await db.formRevision.create({
+    data: {
+      formId,
+      definition: definition as unknown as Prisma.InputJsonValue,
+      createdBy: userId
+    }
+  });
+}
+
+interface Identified {
+  id: string;
+}
+
+/**
+ * Pair up the items of two revisions - by ID first, then by sameItem for the rest,
+ * as saving a form without responses recreates its sections and questions with new IDs
+ */
+function matchItems<T extends Identified>(previous: T[], current: T[], sameItem: (a: T, b: T) => boolean) {
+  const pairs: [T, T][] = [];
+  const unmatched = [...previous];
+
+  const take = (index: number, item: T) => {
+    pairs.push([unmatched[index], item]);
+    unmatched.splice(index, 1);
+  };
+
+  const added = current.filter(item => {
+    const index = unmatched.findIndex(candidate => candidate.id === item.id);
+    if (index === -1) return true;
+    take(index, item);
+    return false;
+  }).filter(item => {
+    const index = unmatched.findIndex(candidate => sameItem(candidate, item));
+    if (index === -1) return true;
+    take(index, item);
+    return false;
+  });
+
+  return { pairs, added, removed: unmatched };
+}
+
+const differs = (a: unknown, b: unknown) => JSON.stringify(a ?? null) !== JSON.stringify(b ?? null);
+
+/**
+ * What changed from one revision's form to the next
+ */
+export function diffRevisions(previous: FormDefinitionForm, current: FormDefinitionForm): RevisionDiff {
+  const sections = matchItems(previous.sections, current.sections, (a, b) => a.title === b.title);
+  const questions = matchItems(
+    previous.sections.flatMap(section => section.questions),
+    current.sections.flatMap(section => section.questions),
+    (a, b) => a.text === b.text && a.type === b.type
+  );
+
+  // References in the current revision are compared as the IDs they had in the previous one
+  const previousIds = new Map<string, string>();
+  for (const [before, after] of [...sections.pairs, ...questions.pairs]) {
+    previousIds.set(after.id, before.id);
+  }
+  const asPrevious = (id: string | null | undefined) => (id && previousIds.get(id)) || id;
+
+  const questionsChanged: ChangedQuestion[] = [];
+  for (const [before, after] of questions.pairs) {
+    const normalized: Record<string, unknown> = {
+      ...after,
+      visibilityRules: after.visibilityRules && {
+        ...after.visibilityRules,
+        conditions: after.visibilityRules.conditions.map(condition => ({
+          ...condition,
+          questionId: asPrevious(condition.questionId)
+        }))
+      },
+      options: after.options?.map(option => ({ ...option, goToSection: asPrevious(option.goToSection) }))
+    };
+    const original: Record<string, unknown> = { ...before };
+
+    const fields = [...new Set([...Object.keys(original), ...Object.keys(normalized)])]
+      .filter(field => field !== 'id' && differs(original[field], normalized[field]));
+    if (fields.length > 0) {
+      questionsChanged.push({ text: after.text, fields });
+    }
+  }
+
+  const previousSettings: Record<string, unknown> = { ...previous.settings };
+  const currentSettings: Record<string, unknown> = { ...current.settings };
+
+  return {
+    titleChanged: previous.title !== current.title,
+    descriptionChanged: differs(previous.description, current.description),
+    settingsChanged: Object.keys(currentSettings).filter(key => differs(previousSettings[key], currentSettings[key])),
+    sectionsAdded: sections.added.map(section => section.title),
+    sectionsRemoved: sections.removed.map(section => section.title),
+    questionsAdded: questions.added.map(question => question.text),
+    questionsRemoved: questions.removed.map(question => question.text),
+    questionsChanged
+  };
+}
+
+/**
+ * A revision in the shape the editor loads, to restore it as an unsaved draft of the current form
+ * Sections and questions that no longer exist get temp_ IDs, so saving the draft creates them again
+ * (along with the references to them) while the ones still in the form, and their answers, are kept
+ */
+export function toRevisionDraft(revision: FormDefinitionForm, current: FormWithSections) {
+  const currentIds = new Set(
+    current.sections.flatMap(section => [section.id, ...section.questions.map(question => question.id)])
+  );
+  const draftId = (id: string) => (currentIds.has(id) ? id : `temp_${id}`);
+  const draftTarget = (target: string | null | undefined) =>
+    target && target !== SUBMIT_SECTION ? draftId(target) : target ?? null;
+
+  return {
+    title: revision.title,
+    description: revision.description,
+    ...revision.settings,
+    sections: revision.sections.map((section, sectionIndex) => ({
+      id: draftId(section.id),
+      title: section.title,
+      description: section.description,
+      order: sectionIndex,
+      nextSection: draftTarget(section.nextSection),
+      questions: section.questions.map(question => ({
+        ...question,
+        id: draftId(question.id),
+        visibilityRules: question.visibilityRules && {
+          ...question.visibilityRules,
+          conditions: question.visibilityRules.conditions.map(condition => ({
+            ...condition,
+            questionId: draftId(condition.questionId)
+          }))
+        },
+        options: (question.options || []).map((option, optionIndex) => ({
+          ...option,
+          id: `temp_${question.id}_${optionIndex}`,
+          goToSection: draftTarget(option.goToSection)
+        }))
+      }))
+    }))
+  };
+}
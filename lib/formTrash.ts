@@ -0,0 +1,104 @@
+// Trash - deleted forms are kept, responses and all, for a retention period and can be restored until they're purged
+import prisma from '@/services/prisma';
+import { removeFormFiles } from '@/lib/uploadedFiles';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Where filters for forms in and out of Trash - deletedAt is only set while a form is in Trash
+export const IN_TRASH = { deletedAt: { isSet: true } };
+export const NOT_IN_TRASH = { deletedAt: { isSet: false } };
+
+/**
+ * Days a form stays in Trash before it's purged - TRASH_RETENTION_DAYS, or 30 by default
+ */
+export function getTrashRetentionDays(): number {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * When a form moved to Trash at deletedAt is purged
+ */
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + getTrashRetentionDays() * DAY_MS);
+}
+
+/**
+ * Permanently delete a form with its responses, uploaded files and revision history
+ */
+export async function purgeForm(formId: string) {
+  await prisma.$transaction(async (tx) => {
+    await tx.answer.deleteMany({
+      where: { response: { formId } }
+    });
+    await tx.response.deleteMany({
+      where: { formId }
+    });
+    await tx.responseClaim.deleteMany({
+      where: { formId }
+    });
+    await tx.option.deleteMany({
+      where: { question: { section: { formId } } }
+    });
+    await tx.question.deleteMany({
+      where: { section: { formId } }
+    });
+    await tx.section.deleteMany({
+      where: { formId }
+    });
+    await tx.formRevision.deleteMany({
+      where: { formId }
+    });
+    await tx.formPasswordAttempt.deleteMany({
+      where: { formId }
+    });
+  });
+
+  // Uploaded files are kept outside the database, so they're removed separately
+  await removeFormFiles(formId);
+
+  await prisma.form.delete({
+    where: { id: formId }
+  });
+}
+
+/**
+ * Purge forms that have been in Trash for longer than the retention period - an owner's, or everyone's
+ * Run for the owner whenever they list their forms or their Trash, and for everyone by sweepExpiredForms
+ */
+export async function purgeExpiredForms(createdBy?: string) {
+  const cutoff = new Date(Date.now() - getTrashRetentionDays() * DAY_MS);
+
+  const expiredForms = await prisma.form.findMany({
+    where: {
+      ...(createdBy && { createdBy }),
+      deletedAt: { lt: cutoff }
+    },
+    select: { id: true }
+  });
+
+  for (const form of expiredForms) {
+    await purgeForm(form.id);
+  }
+}
+
+const SWEEP_INTERVAL = 60 * 60 * 1000; // 1 hour, in ms
+let lastSweep = 0;
+
+/**
+ * Purge every owner's expired forms, at most once an hour per server
+ * Run from the routes respondents use, so forms of owners who never come back are purged too.
+ * A failed sweep is only logged - it's retried on a later request and mustn't fail the respondent's
+ */
+export async function sweepExpiredForms() {
+  if (Date.now() - lastSweep < SWEEP_INTERVAL) return;
+  lastSweep = Date.now();
+
+  try {
+    await purgeExpiredForms();
+  } catch (error) {
+    console.error('Error purging expired forms:', error);
+  }
+}
@@ -0,0 +1,99 @@
+// Server side of option capacity - seats are claimed with a conditional increment on the option,
+// so concurrent submissions can't overbook it
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/services/prisma';
+import { CAPACITY_TYPES } from '@/utils/optionCapacity';
+import type { AnswerValue } from '@/types/form';
+
+interface SeatQuestion {
+  id: string;
+  type: string;
+  options: { id: string; text: string; capacity: number | null }[];
+}
+
+export interface Seat {
+  id: string;
+  questionId: string;
+  text: string;
+  capacity: number;
+}
+
+/**
+ * Options with a capacity picked in a set of answers - "Other" picks don't take a seat
+ */
+export function getPickedSeats(questions: SeatQuestion[], answers: Record<string, AnswerValue | null | undefined>): Seat[] {
+  return questions.flatMap(question => {
+    const answer = answers[question.id];
+    if (!CAPACITY_TYPES.includes(question.type) || typeof answer !== 'string') return [];
+
+    const option = question.options.find(option => option.text === answer);
+    if (!option || option.capacity === null) return [];
+    return [{ id: option.id, questionId: question.id, text: option.text, capacity: option.capacity }];
+  });
+}
+
+/**
+ * Take a seat on every picked option - all or nothing
+ * Pass a transaction client to move seats along with other writes, as editing a response does
+ * @returns the first option that was already full, or null when every seat was claimed
+ */
+export async function claimOptionSeats(db: Prisma.TransactionClient, seats: Seat[]): Promise<Seat | null> {
+  const claimed: string[] = [];
+  for (const seat of seats) {
+    const { count } = await db.option.updateMany({
+      where: { id: seat.id, taken: { lt: seat.capacity } },
+      data: { taken: { increment: 1 } }
+    });
+    if (count === 0) {
+      await releaseOptionSeats(db, claimed);
+      return seat;
+    }
+    claimed.push(seat.id);
+  }
+  return null;
+}
+
+/**
+ * Error response for a pick that lost the race for the last seat
+ * fullOption lets the page mark the option as full
+ */
+export function optionFullResponse(seat: Seat) {
+  const message = `"${seat.text}" is full - please pick another option`;
+  return NextResponse.json(
+    { success: false, error: message, errors: [{ questionId: seat.questionId, message }], fullOption: seat.id },
+    { status: 400 }
+  );
+}
+
+export async function releaseOptionSeats(db: Prisma.TransactionClient, optionIds: string[]) {
+  if (optionIds.length === 0) return;
+  await db.option.updateMany({
+    where: { id: { in: optionIds }, taken: { gt: 0 } },
+    data: { taken: { decrement: 1 } }
+  });
+}
+
+/**
+ * Recount the seats of a form's options from the stored answers
+ * Saving the form recreates its options, and deleting responses frees their seats
+ */
+export async function syncOptionSeats(formId: string) {
+  const options = await prisma.option.findMany({
+    where: {
+      capacity: { not: null },
+      question: { section: { formId } }
+    },
+    select: { id: true, text: true, questionId: true }
+  });
+
+  for (const option of options) {
+    const taken = await prisma.answer.count({
+      where: { questionId: option.questionId, answerText: option.text }
+    });
+    await prisma.option.update({
+      where: { id: option.id },
+      data: { taken }
+    });
+  }
+}
@@ -0,0 +1,158 @@
+// Quiz grading utilities - used by the submit route so scores never come from the browser
+import type { AnswerValue } from '@/types/form';
+
+export interface GradableQuestion {
+  id: string;
+  type: string;
+  points: number;
+  correctAnswers: string[];
+}
+
+export type SubmittedAnswer = AnswerValue | undefined;
+
+// Grids, file uploads and date / time questions have no answer key, so they don't count towards the score
+const UNGRADED_TYPES = ['MC_GRID', 'CHECKBOX_GRID', 'FILE_UPLOAD', 'DATE', 'TIME', 'DATETIME'];
+
+export interface QuestionResult {
+  isCorrect: boolean;
+  pointsEarned: number;
+}
+
+export interface QuizGrade {
+  totalScore: number;
+  maxScore: number;
+  percentage: number;
+  results: { [questionId: string]: QuestionResult };
+}
+
+// Words that don't affect the core of an answer ("What is X" vs "X")
+const QUESTION_WORDS = ['what', 'is', 'are', 'define', 'explain', 'describe', 'how', 'why', 'when', 'where', 'which', 'who'];
+
+const normalizeText = (text: string) =>
+  text
+    .toLowerCase()
+    .trim()
+    .replace(/[.,!?;:"'\-()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Smart text matching for SHORT_ANSWER and PARAGRAPH questions
+ * SHORT_ANSWER must contain all important words, PARAGRAPH gets partial credit
+ * @returns best match percentage (0-100) across all accepted answers
+ */
+export function calculateTextMatch(userAnswer: string, correctAnswers: string[], questionType: string): number {
+  if (!userAnswer || !correctAnswers.length) {
+    return 0;
+  }
+
+  const cleanUser = normalizeText(userAnswer);
+  const userWords = cleanUser.split(' ').filter(w => w.length > 1);
+  let bestMatch = 0;
+
+  for (const correctAnswer of correctAnswers) {
+    const cleanCorrect = normalizeText(correctAnswer);
+
+    // Exact match (100%)
+    if (cleanUser === cleanCorrect) {
+      return 100;
+    }
+
+    const correctWords = cleanCorrect.split(' ').filter(w => w.length > 1);
+    if (correctWords.length === 0) continue;
+
+    const filteredCorrectWords = correctWords.filter(word => !QUESTION_WORDS.includes(word));
+    const wordsToMatch = filteredCorrectWords.length > 0 ? filteredCorrectWords : correctWords;
+
+    const matchingWords = wordsToMatch.filter(word =>
+      userWords.some(userWord =>
+        userWord === word ||
+        (word.length > 3 && userWord.includes(word)) ||
+        (userWord.length > 3 && word.includes(userWord))
+      )
+    );
+
+    const wordMatchPercentage = (matchingWords.length / wordsToMatch.length) * 100;
+    let matchPercentage = 0;
+
+    if (questionType === 'SHORT_ANSWER') {
+      // No partial credit for short answers
+      matchPercentage = matchingWords.length === wordsToMatch.length ? 100 : 0;
+    } else if (wordMatchPercentage >= 80) {
+      matchPercentage = 100;
+    } else if (wordMatchPercentage >= 60) {
+      matchPercentage = 80;
+    } else if (wordMatchPercentage >= 40) {
+      matchPercentage = 60;
+    } else if (wordMatchPercentage >= 20) {
+      matchPercentage = 30;
+    }
+
+    bestMatch = Math.max(bestMatch, matchPercentage);
+  }
+
+  return bestMatch;
+}
+
+/**
+ * Grade a single question against its answer key
+ * Points are whole numbers because Answer.pointsEarned is an Int
+ */
+export function gradeQuestion(question: GradableQuestion, answer: SubmittedAnswer): QuestionResult {
+  const questionPoints = question.points || 1;
+  const correctAnswers = question.correctAnswers || [];
+
+  switch (question.type) {
+    case 'MULTIPLE_CHOICE':
+    case 'DROPDOWN':
+    case 'LINEAR_SCALE': {
+      const isCorrect = typeof answer === 'string' && correctAnswers.includes(answer);
+      return { isCorrect, pointsEarned: isCorrect ? questionPoints : 0 };
+    }
+    case 'CHECKBOXES': {
+      const selected = Array.isArray(answer) ? answer : [];
+      // Must select exactly the correct set
+      const isCorrect = correctAnswers.length > 0 &&
+        selected.length === correctAnswers.length &&
+        selected.every(ans => correctAnswers.includes(ans)) &&
+        correctAnswers.every(ans => selected.includes(ans));
+      return { isCorrect, pointsEarned: isCorrect ? questionPoints : 0 };
+    }
+    case 'SHORT_ANSWER':
+    case 'PARAGRAPH': {
+      const percentage = typeof answer === 'string'
+        ? calculateTextMatch(answer, correctAnswers, question.type)
+        : 0;
+      return {
+        isCorrect: percentage >= 100,
+        pointsEarned: Math.round((percentage / 100) * questionPoints)
+      };
+    }
+    default:
+      return { isCorrect: false, pointsEarned: 0 };
+  }
+}
+
+/**
+ * Grade a whole submission
+ * Every gradable question counts towards maxScore, whether answered or not
+ */
+export function gradeQuiz(questions: GradableQuestion[], responses: { [questionId: string]: SubmittedAnswer }): QuizGrade {
+  let totalScore = 0;
+  let maxScore = 0;
+  const results: QuizGrade['results'] = {};
+
+  for (const question of questions.filter(q => !UNGRADED_TYPES.includes(q.type))) {
+    const result = gradeQuestion(question, responses[question.id]);
+    maxScore += question.points || 1;
+    totalScore += result.pointsEarned;
+    results[question.id] = result;
+  }
+
+  return {
+    totalScore,
+    maxScore,
+    percentage: maxScore > 0 ? Math.round((totalScore / maxScore) * 100) : 0,
+    results
+  };
+}
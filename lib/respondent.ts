@@ -0,0 +1,115 @@
+// Recognizing repeat respondents for forms that don't allow multiple responses
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { currentUser } from '@clerk/nextjs/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/services/prisma';
+import { isValidSignature, signValue } from '@/lib/signing';
+
+// Browser-wide respondent ID, signed so it can't be swapped for another respondent's
+export const RESPONDENT_COOKIE = 'respondent_id';
+const COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // 1 year, in seconds
+
+export const generateRespondentId = () => crypto.randomBytes(16).toString('hex');
+
+/**
+ * Respondent ID from the request's cookie
+ * @returns null when there is no cookie or its signature doesn't match
+ */
+export function readRespondentId(request: NextRequest): string | null {
+  const [id, signature] = (request.cookies.get(RESPONDENT_COOKIE)?.value || '').split('.');
+  if (!id || !signature) return null;
+  return isValidSignature(id, signature) ? id : null;
+}
+
+export function setRespondentCookie(response: NextResponse, id: string) {
+  response.cookies.set(RESPONDENT_COOKIE, `${id}.${signValue(id)}`, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: COOKIE_MAX_AGE,
+    path: '/'
+  });
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+interface Respondent {
+  userId?: string | null;
+  respondentId?: string | null;
+  email?: string | null;
+}
+
+/**
+ * Check whether a respondent already answered a form
+ * Matches any of the given signals - the account, the respondent cookie or the collected email
+ */
+export async function hasResponded(formId: string, { userId, respondentId, email }: Respondent): Promise<boolean> {
+  const conditions: Prisma.ResponseWhereInput[] = [];
+  if (userId) conditions.push({ userId });
+  if (respondentId) conditions.push({ respondentId });
+  if (email) conditions.push({ email: { equals: normalizeEmail(email), mode: 'insensitive' } });
+
+  if (conditions.length === 0) return false;
+
+  const count = await prisma.response.count({
+    where: { formId, OR: conditions }
+  });
+  return count > 0;
+}
+
+// Keys a respondent is claimed under - one for each signal hasResponded matches on
+const claimKeys = ({ userId, respondentId, email }: Respondent) => [
+  ...(userId ? [`user:${userId}`] : []),
+  ...(respondentId ? [`respondent:${respondentId}`] : []),
+  ...(email ? [`email:${normalizeEmail(email)}`] : [])
+];
+
+/**
+ * Claim a form's one response for a respondent, before the response is saved
+ * Each key can only be claimed once per form, so concurrent submissions can't both get through
+ * @returns IDs of the claims to release if the response isn't saved, or null when already claimed
+ */
+export async function claimResponse(formId: string, respondent: Respondent): Promise<string[] | null> {
+  const claimIds: string[] = [];
+  for (const key of claimKeys(respondent)) {
+    try {
+      const claim = await prisma.responseClaim.create({
+        data: { formId, key }
+      });
+      claimIds.push(claim.id);
+    } catch (error) {
+      await releaseResponseClaims(claimIds);
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return null;
+      throw error;
+    }
+  }
+  return claimIds;
+}
+
+// Give the claims back when the response couldn't be saved
+export async function releaseResponseClaims(claimIds: string[]) {
+  if (claimIds.length === 0) return;
+  await prisma.responseClaim.deleteMany({
+    where: { id: { in: claimIds } }
+  });
+}
+
+/**
+ * Create the database user for a signed-in respondent, so responses can link to it
+ */
+export async function ensureRespondentUser(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId }
+  });
+  if (user) return user;
+
+  // Get real user data from Clerk
+  const clerkUser = await currentUser();
+  return prisma.user.create({
+    data: {
+      id: userId,
+      email: clerkUser?.emailAddresses[0]?.emailAddress || `no-email-${userId}@example.com`
+    }
+  });
+}
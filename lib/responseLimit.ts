@@ -0,0 +1,44 @@
+// Server side of response limits - seats are claimed with a conditional increment on the form,
+// so concurrent submissions can't push it past maxResponses
+import prisma from '@/services/prisma';
+
+interface LimitedForm {
+  id: string;
+  maxResponses: number | null;
+}
+
+/**
+ * Count a new response against the form
+ * @returns false when the form filled up first
+ */
+export async function claimResponseSlot(form: LimitedForm): Promise<boolean> {
+  const { count } = await prisma.form.updateMany({
+    where: {
+      id: form.id,
+      ...(form.maxResponses !== null && { responseCount: { lt: form.maxResponses } })
+    },
+    data: { responseCount: { increment: 1 } }
+  });
+  return count > 0;
+}
+
+// Give the seat back when the response couldn't be saved
+export async function releaseResponseSlot(formId: string) {
+  await prisma.form.updateMany({
+    where: { id: formId, responseCount: { gt: 0 } },
+    data: { responseCount: { decrement: 1 } }
+  });
+}
+
+/**
+ * Recount the form's responses - for when a limit is set on a form that already has responses
+ */
+export async function syncResponseCount(formId: string) {
+  const responseCount = await prisma.response.count({
+    where: { formId }
+  });
+  await prisma.form.update({
+    where: { id: formId },
+    data: { responseCount }
+  });
+}
@@ -0,0 +1,25 @@
+// HMAC signatures for values kept in cookies (respondent IDs, form access)
+import crypto from 'crypto';
+
+/**
+ * The key cookies are signed with - a secret of its own, so rotating other credentials doesn't sign everyone out
+ * Signing with an empty key would let anyone forge the cookies, so a missing secret is an error
+ */
+export function getSigningSecret(): string {
+  const secret = process.env.COOKIE_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('COOKIE_SIGNING_SECRET must be set to sign cookies');
+  }
+  return secret;
+}
+
+export const signValue = (value: string) => crypto.createHmac('sha256', getSigningSecret()).update(value).digest('hex');
+
+/**
+ * Check a signature made with signValue - compared in constant time
+ */
+export function isValidSignature(value: string, signature: string): boolean {
+  const expected = signValue(value);
+  if (signature.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
@@ -0,0 +1,245 @@
+// Built-in starter templates offered to every owner in the template gallery
+import type { FormSource } from '@/lib/formDefinition';
+
+export interface StarterTemplate {
+  id: string;
+  title: string;
+  description: string;
+  form: FormSource;
+}
+
+const EMAIL_VALIDATION = { type: 'text', operator: 'email', message: 'Please enter a valid email address' };
+
+export const STARTER_TEMPLATES: StarterTemplate[] = [
+  {
+    id: 'event-rsvp',
+    title: 'Event RSVP',
+    description: 'Collect attendance, guest counts and dietary needs for an event.',
+    form: {
+      title: 'Event RSVP',
+      description: 'Let us know if you can make it.',
+      settings: {
+        collectEmail: true,
+        allowMultipleResponses: false,
+        confirmationMessage: 'Thanks! Your RSVP has been recorded.'
+      },
+      sections: [
+        {
+          id: 'rsvp',
+          title: 'RSVP',
+          questions: [
+            { id: 'name', text: 'Your name', type: 'SHORT_ANSWER', required: true },
+            {
+              id: 'attending',
+              text: 'Will you attend?',
+              type: 'MULTIPLE_CHOICE',
+              required: true,
+              options: [{ text: 'Yes' }, { text: 'No' }, { text: 'Maybe' }]
+            },
+            {
+              id: 'guests',
+              text: 'How many guests will you bring?',
+              type: 'DROPDOWN',
+              options: [{ text: '0' }, { text: '1' }, { text: '2' }, { text: '3' }],
+              visibilityRules: { logic: 'OR', conditions: [{ questionId: 'attending', operator: 'any_of', values: ['Yes', 'Maybe'] }] }
+            },
+            {
+              id: 'diet',
+              text: 'Dietary requirements',
+              type: 'CHECKBOXES',
+              hasOtherOption: true,
+              options: [{ text: 'None' }, { text: 'Vegetarian' }, { text: 'Vegan' }, { text: 'Gluten-free' }],
+              visibilityRules: { logic: 'OR', conditions: [{ questionId: 'attending', operator: 'any_of', values: ['Yes', 'Maybe'] }] }
+            },
+            { id: 'notes', text: 'Anything else we should know?', type: 'PARAGRAPH' }
+          ]
+        }
+      ]
+    }
+  },
+  {
+    id: 'course-quiz',
+    title: 'Course quiz',
+    description: 'A graded quiz with answer keys and points.',
+    form: {
+      title: 'Course quiz',
+      description: 'Answer every question, then submit to see your score.',
+      settings: {
+        isQuiz: true,
+        collectEmail: true,
+        defaultRequired: true
+      },
+      sections: [
+        {
+          id: 'quiz',
+          title: 'Quiz',
+          questions: [
+            {
+              id: 'q1',
+              text: 'What is 7 × 8?',
+              type: 'MULTIPLE_CHOICE',
+              required: true,
+              points: 1,
+              correctAnswers: ['56'],
+              options: [{ text: '54' }, { text: '56' }, { text: '64' }]
+            },
+            {
+              id: 'q2',
+              text: 'Which of these are prime numbers?',
+              type: 'CHECKBOXES',
+              required: true,
+              points: 2,
+              correctAnswers: ['2', '5', '11'],
+              options: [{ text: '2' }, { text: '4' }, { text: '5' }, { text: '9' }, { text: '11' }]
+            },
+            {
+              id: 'q3',
+              text: 'What is the capital of France?',
+              type: 'DROPDOWN',
+              required: true,
+              points: 1,
+              correctAnswers: ['Paris'],
+              options: [{ text: 'Berlin' }, { text: 'Madrid' }, { text: 'Paris' }, { text: 'Rome' }]
+            },
+            {
+              id: 'q4',
+              text: 'Which planet is known as the Red Planet?',
+              type: 'SHORT_ANSWER',
+              required: true,
+              points: 1,
+              correctAnswers: ['Mars']
+            }
+          ]
+        }
+      ]
+    }
+  },
+  {
+    id: 'customer-feedback',
+    title: 'Customer feedback',
+    description: 'Measure satisfaction and find out what to improve.',
+    form: {
+      title: 'Customer feedback',
+      description: 'We would love to hear about your experience.',
+      settings: {
+        confirmationMessage: 'Thank you for your feedback!'
+      },
+      sections: [
+        {
+          id: 'feedback',
+          title: 'Your experience',
+          questions: [
+            {
+              id: 'satisfaction',
+              text: 'How satisfied are you with our service?',
+              type: 'LINEAR_SCALE',
+              required: true,
+              scaleMin: 1,
+              scaleMax: 5,
+              scaleMinLabel: 'Very dissatisfied',
+              scaleMaxLabel: 'Very satisfied'
+            },
+            {
+              id: 'recommend',
+              text: 'How likely are you to recommend us to a friend?',
+              type: 'LINEAR_SCALE',
+              required: true,
+              scaleMin: 0,
+              scaleMax: 10,
+              scaleMinLabel: 'Not likely',
+              scaleMaxLabel: 'Very likely'
+            },
+            {
+              id: 'liked',
+              text: 'What did you like?',
+              type: 'CHECKBOXES',
+              hasOtherOption: true,
+              options: [{ text: 'Product quality' }, { text: 'Customer support' }, { text: 'Price' }, { text: 'Delivery speed' }]
+            },
+            { id: 'improve', text: 'How can we improve?', type: 'PARAGRAPH' },
+            {
+              id: 'contact',
+              text: 'May we contact you about your feedback?',
+              type: 'MULTIPLE_CHOICE',
+              options: [{ text: 'Yes' }, { text: 'No' }]
+            },
+            {
+              id: 'email',
+              text: 'Email address',
+              type: 'SHORT_ANSWER',
+              required: true,
+              textValidation: EMAIL_VALIDATION,
+              visibilityRules: { logic: 'AND', conditions: [{ questionId: 'contact', operator: 'equals', value: 'Yes' }] }
+            }
+          ]
+        }
+      ]
+    }
+  },
+  {
+    id: 'job-application',
+    title: 'Job application',
+    description: 'Contact details, role, start date and a résumé upload.',
+    form: {
+      title: 'Job application',
+      description: 'Thanks for your interest in joining our team.',
+      settings: {
+        confirmationMessage: 'Thanks for applying! We will be in touch.'
+      },
+      sections: [
+        {
+          id: 'about',
+          title: 'About you',
+          questions: [
+            { id: 'name', text: 'Full name', type: 'SHORT_ANSWER', required: true },
+            { id: 'email', text: 'Email address', type: 'SHORT_ANSWER', required: true, textValidation: EMAIL_VALIDATION },
+            { id: 'phone', text: 'Phone number', type: 'SHORT_ANSWER' },
+            {
+              id: 'portfolio',
+              text: 'LinkedIn or portfolio link',
+              type: 'SHORT_ANSWER',
+              textValidation: { type: 'text', operator: 'url', message: 'Please enter a valid link' }
+            }
+          ]
+        },
+        {
+          id: 'role',
+          title: 'The role',
+          questions: [
+            {
+              id: 'position',
+              text: 'Which position are you applying for?',
+              type: 'DROPDOWN',
+              required: true,
+              options: [{ text: 'Engineering' }, { text: 'Design' }, { text: 'Marketing' }, { text: 'Sales' }, { text: 'Operations' }]
+            },
+            { id: 'start', text: 'Earliest start date', type: 'DATE', required: true },
+            {
+              id: 'resume',
+              text: 'Résumé',
+              type: 'FILE_UPLOAD',
+              required: true,
+              allowedFileTypes: [
+                'application/pdf',
+                'application/msword',
+                'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+              ],
+              maxFiles: 1,
+              maxFileSize: 10
+            },
+            { id: 'cover', text: 'Why do you want to work with us?', type: 'PARAGRAPH' }
+          ]
+        }
+      ]
+    }
+  }
+];
+
+export const findStarterTemplate = (id: string) =>
+  STARTER_TEMPLATES.find(template => template.id === id);
+
+/**
+ * Number of questions in a template's form, shown in the gallery
+ */
+export const countQuestions = (form: Pick<FormSource, 'sections'>) =>
+  form.sections.reduce((count, section) => count + section.questions.length, 0);
@@ -0,0 +1,103 @@
+// Server-side helpers for files attached to file upload answers
+import { Prisma } from '@prisma/client';
+import prisma from '@/services/prisma';
+import { getFileStorage } from '@/lib/fileStorage';
+import { getFileLimits, parseFileIds } from '@/utils/fileUploads';
+import type { AnswerValue } from '@/types/form';
+
+// Hours an uploaded file waits to be attached to a response before it's removed
+export const UNCLAIMED_FILE_HOURS = 24;
+
+interface FileQuestion {
+  id: string;
+  maxFiles?: number | null;
+}
+
+/**
+ * Check the file IDs in a file upload answer
+ * Files must have been uploaded to this question and not already belong to another response
+ * @param responseId - the response being edited, whose own files are allowed
+ * @returns an error message, or null when every file can be attached
+ */
+export async function validateFileAnswer(
+  formId: string,
+  question: FileQuestion,
+  answer: AnswerValue | undefined,
+  responseId?: string
+): Promise<string | null> {
+  const fileIds = parseFileIds(answer);
+  if (fileIds.length === 0) return null;
+
+  const { maxFiles } = getFileLimits(question);
+  if (fileIds.length > maxFiles) {
+    return `Accepts at most ${maxFiles} file${maxFiles === 1 ? '' : 's'}`;
+  }
+
+  const files = await prisma.uploadedFile.findMany({
+    where: { id: { in: fileIds }, formId, questionId: question.id }
+  });
+  const usable = files.filter(file => file.responseId === null || file.responseId === responseId);
+
+  if (usable.length !== fileIds.length) {
+    return 'A file is missing or was not uploaded to this question';
+  }
+
+  return null;
+}
+
+/**
+ * Mark uploaded files as belonging to a response - in the transaction that saves its answers
+ */
+export async function claimFiles(db: Prisma.TransactionClient, fileIds: string[], responseId: string) {
+  if (fileIds.length === 0) return;
+
+  await db.uploadedFile.updateMany({
+    where: { id: { in: fileIds } },
+    data: { responseId }
+  });
+}
+
+// Delete files from storage along with their records
+async function removeFiles(where: Prisma.UploadedFileWhereInput) {
+  const files = await prisma.uploadedFile.findMany({ where });
+  if (files.length === 0) return;
+
+  const storage = getFileStorage();
+  await Promise.all(files.map(file => storage.remove(file.storageKey)));
+  await prisma.uploadedFile.deleteMany({
+    where: { id: { in: files.map(file => file.id) } }
+  });
+}
+
+/**
+ * Delete a response's files that are no longer referenced by its answers
+ */
+export async function removeUnusedFiles(responseId: string, keepFileIds: string[]) {
+  await removeFiles({ responseId, id: { notIn: keepFileIds } });
+}
+
+/**
+ * Delete files that were uploaded but never attached to a submitted response within UNCLAIMED_FILE_HOURS
+ * Respondents who leave a form without submitting would otherwise leave their uploads behind for good
+ */
+export async function removeUnclaimedFiles() {
+  await removeFiles({
+    responseId: null,
+    createdAt: { lt: new Date(Date.now() - UNCLAIMED_FILE_HOURS * 60 * 60 * 1000) }
+  });
+}
+
+/**
+ * Delete the files attached to a form's responses
+ * Uploads not attached yet belong to respondents still filling in the form - removeUnclaimedFiles expires them
+ */
+export async function removeResponseFiles(formId: string) {
+  await removeFiles({ formId, responseId: { not: null } });
+}
+
+/**
+ * Delete every file uploaded to a form
+ */
+export async function removeFormFiles(formId: string) {
+  await removeFiles({ formId });
+}
@@ -5,6 +5,7 @@ const isProtectedRoute = createRouteMatcher([
   '/forms/create/(.*)',
   '/forms/:id',
   '/forms/:id/(.*)',
+  '/my-responses',
 ]);
 
 export default clerkMiddleware(async (auth, req) => {
@@ -0,0 +1,32 @@
+// One-off migration - counts the responses of every form into Form.responseCount
+// Forms created before responses were counted have no count yet, so they'd show and enforce 0.
+// Safe to run again: each count is taken from the stored responses
+import { PrismaClient } from '@prisma/client';
+const prisma = new PrismaClient();
+
+async function backfillResponseCounts() {
+  try {
+    const forms = await prisma.form.findMany({
+      select: { id: true }
+    });
+
+    for (const form of forms) {
+      const responseCount = await prisma.response.count({
+        where: { formId: form.id }
+      });
+      await prisma.form.update({
+        where: { id: form.id },
+        data: { responseCount }
+      });
+    }
+
+    console.log(`✅ Counted responses for ${forms.length} form(s)`);
+  } catch (error) {
+    console.error('❌ Error backfilling response counts:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillResponseCounts();
@@ -0,0 +1,63 @@
+// Shared form types used by both the API routes and the client pages
+
+// Grid answer: selected column(s) for each answered row - one per row for MC_GRID
+export interface GridAnswer {
+  [row: string]: string[];
+}
+
+// A respondent's answer: text / single choice, a list for checkboxes, or a grid
+export type AnswerValue = string | string[] | GridAnswer;
+
+export interface FormResponses {
+  [questionId: string]: AnswerValue;
+}
+
+// Conditional visibility
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'any_of'
+  | 'all_of'
+  | 'is_answered'
+  | 'is_not_answered';
+
+export interface VisibilityCondition {
+  questionId: string;         // Question whose answer is checked
+  operator: ConditionOperator;
+  value?: string;             // equals, not_equals, contains
+  values?: string[];          // any_of, all_of
+}
+
+export interface VisibilityRules {
+  logic: 'AND' | 'OR';
+  conditions: VisibilityCondition[];
+}
+
+// Response validation for short answer / paragraph questions
+export type TextValidationType = 'number' | 'text' | 'length' | 'regex';
+
+export type TextValidationOperator =
+  | 'is_number'
+  | 'between'
+  | 'not_between'
+  | 'greater_than'
+  | 'greater_than_or_equal'
+  | 'less_than'
+  | 'less_than_or_equal'
+  | 'contains'
+  | 'not_contains'
+  | 'email'
+  | 'url'
+  | 'min_length'
+  | 'max_length'
+  | 'matches'
+  | 'not_matches';
+
+export interface TextValidation {
+  type: TextValidationType;
+  operator: TextValidationOperator;
+  value?: string;             // Number, text, length or pattern - depending on the operator
+  value2?: string;            // Upper bound for between / not_between
+  message?: string;           // Custom error shown to respondents
+}
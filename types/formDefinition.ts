@@ -0,0 +1,130 @@
+// Form definition - the versioned JSON format used to export a form and import it under another account
+//
+// {
+//   "format": "forms4u.form",
+//   "version": 1,
+//   "exportedAt": "2026-03-05T09:00:00.000Z",
+//   "form": {
+//     "title": "Event RSVP",
+//     "description": null,
+//     "settings": { "collectEmail": true, "themeColor": "#4285F4", ... },
+//     "sections": [
+//       {
+//         "id": "s1",
+//         "title": "Section 1",
+//         "description": null,
+//         "nextSection": null,
+//         "questions": [
+//           { "id": "q1", "text": "Will you attend?", "type": "MULTIPLE_CHOICE", "required": true,
+//             "options": [{ "text": "Yes", "imageUrl": null, "goToSection": null, "capacity": 50 }] }
+//         ]
+//       }
+//     ]
+//   }
+// }
+//
+// Section and question IDs are only references inside the file (branch targets and visibility
+// rules) - imported forms get new IDs. Settings and question fields that are left out get their
+// defaults. Access passwords, owners, publish state and responses are never exported.
+import type { TextValidation, VisibilityRules } from '@/types/form';
+
+export interface FormDefinition {
+  format: 'forms4u.form';
+  version: number;            // FORM_DEFINITION_VERSION when the file was exported
+  exportedAt: string;         // ISO time
+  form: FormDefinitionForm;
+}
+
+export interface FormDefinitionForm {
+  title: string;
+  description: string | null;
+  settings: FormDefinitionSettings;
+  sections: SectionDefinition[];  // In display order
+}
+
+export interface FormDefinitionSettings {
+  acceptingResponses: boolean;
+  shuffleQuestions: boolean;
+  collectEmail: boolean;
+  allowMultipleResponses: boolean;
+  oneResponsePerAccount: boolean;
+  requireSignIn: boolean;
+  allowedRespondents: string[];   // Email domains or addresses
+  opensAt: string | null;         // ISO time
+  closesAt: string | null;        // ISO time
+  maxResponses: number | null;
+  fullMessage: string;
+  closedMessage: string | null;   // Rich text HTML
+  showProgress: boolean;
+  confirmationMessage: string;
+  defaultRequired: boolean;
+  // Quiz settings
+  isQuiz: boolean;
+  showCorrectAnswers: boolean;
+  releaseGrades: boolean;
+  // Response editing settings
+  allowResponseEditing: boolean;
+  editTimeLimit: string;          // "always", "24h", "7d", "30d"
+  // Theme settings
+  themeColor: string;
+  themeBackground: string;
+}
+
+export interface SectionDefinition {
+  id: string;
+  title: string;
+  description: string | null;
+  nextSection: string | null;     // Section ID from this file, "SUBMIT", or null for the next section
+  questions: QuestionDefinition[];
+}
+
+export interface QuestionDefinition {
+  id: string;
+  text: string;
+  description: string | null;
+  type: string;                   // QuestionType, e.g. "SHORT_ANSWER"
+  required: boolean;
+  imageUrl: string | null;
+  // Quiz fields
+  points: number;
+  correctAnswers: string[];
+  // Option settings
+  shuffleOptionsOrder: boolean;
+  hasOtherOption: boolean;
+  minSelections: number | null;
+  maxSelections: number | null;
+  // Linear scale settings
+  scaleMin: number | null;
+  scaleMax: number | null;
+  scaleMinLabel: string | null;
+  scaleMaxLabel: string | null;
+  // Grid settings
+  gridRows: string[];
+  gridColumns: string[];
+  requireEachRow: boolean;
+  // Date / time settings
+  dateMin: string | null;
+  dateMax: string | null;
+  includeYear: boolean;
+  // File upload settings
+  allowedFileTypes: string[];
+  maxFiles: number | null;
+  maxFileSize: number | null;
+  // Response validation and conditional logic - question IDs in rules are from this file
+  textValidation: TextValidation | null;
+  visibilityRules: VisibilityRules | null;
+  options: OptionDefinition[];
+}
+
+export interface OptionDefinition {
+  text: string;
+  imageUrl: string | null;
+  goToSection: string | null;     // Section ID from this file, "SUBMIT", or null to continue
+  capacity: number | null;
+}
+
+// Problem with an imported file - field is a path such as "form.sections[0].questions[2].type"
+export interface DefinitionError {
+  field: string;
+  message: string;
+}
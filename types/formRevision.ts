@@ -0,0 +1,25 @@
+// Revision history - a form definition snapshot (types/formDefinition.ts) is stored each time a form is saved
+
+// What changed between a revision and the one before it
+export interface RevisionDiff {
+  titleChanged: boolean;
+  descriptionChanged: boolean;
+  settingsChanged: string[];        // Keys of FormDefinitionSettings
+  sectionsAdded: string[];          // Section titles
+  sectionsRemoved: string[];
+  questionsAdded: string[];         // Question text
+  questionsRemoved: string[];
+  questionsChanged: ChangedQuestion[];
+}
+
+export interface ChangedQuestion {
+  text: string;
+  fields: string[];                 // Keys of QuestionDefinition, e.g. "required" or "options"
+}
+
+export interface RevisionSummary {
+  id: string;
+  createdAt: string;                // ISO time
+  author: string | null;            // Email of whoever saved it
+  diff: RevisionDiff | null;        // null for the form's first revision
+}
@@ -0,0 +1,160 @@
+// Conditional visibility engine - shared by the view page and the submit route
+import type {
+  AnswerValue,
+  ConditionOperator,
+  FormResponses,
+  VisibilityCondition,
+  VisibilityRules
+} from '@/types/form';
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string; input: 'single' | 'multiple' | 'none' }[] = [
+  { value: 'equals', label: 'is', input: 'single' },
+  { value: 'not_equals', label: 'is not', input: 'single' },
+  { value: 'contains', label: 'contains', input: 'single' },
+  { value: 'any_of', label: 'is any of', input: 'multiple' },
+  { value: 'all_of', label: 'includes all of', input: 'multiple' },
+  { value: 'is_answered', label: 'is answered', input: 'none' },
+  { value: 'is_not_answered', label: 'is not answered', input: 'none' }
+];
+
+interface QuestionWithRules {
+  id: string;
+  visibilityRules?: unknown;
+}
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+const answerList = (answer: AnswerValue | undefined): string[] => {
+  if (Array.isArray(answer)) return answer.filter(item => item && item.trim() !== '');
+  if (typeof answer === 'string' && answer.trim() !== '') return [answer];
+  // Grids - every column selected in any row
+  if (answer && typeof answer === 'object') return answerList(Object.values(answer).flat());
+  return [];
+};
+
+/**
+ * Whether an answer has any content - blank text, empty lists and empty grids don't count
+ */
+export const hasAnswer = (answer: AnswerValue | undefined) => answerList(answer).length > 0;
+
+/**
+ * Read visibility rules from a stored JSON value
+ * Malformed conditions are dropped - returns null when nothing usable is left
+ */
+export function parseVisibilityRules(raw: unknown): VisibilityRules | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const { logic, conditions } = raw as Partial<VisibilityRules>;
+  if (!Array.isArray(conditions)) return null;
+
+  const validOperators = CONDITION_OPERATORS.map(op => op.value);
+  const cleanConditions: VisibilityCondition[] = conditions
+    .filter(condition =>
+      condition &&
+      typeof condition.questionId === 'string' &&
+      condition.questionId !== '' &&
+      validOperators.includes(condition.operator)
+    )
+    .map(condition => ({
+      questionId: condition.questionId,
+      operator: condition.operator,
+      ...(typeof condition.value === 'string' && { value: condition.value }),
+      ...(Array.isArray(condition.values) && {
+        values: condition.values.filter((value): value is string => typeof value === 'string')
+      })
+    }));
+
+  if (cleanConditions.length === 0) return null;
+
+  return {
+    logic: logic === 'OR' ? 'OR' : 'AND',
+    conditions: cleanConditions
+  };
+}
+
+/**
+ * Check one condition against the answer of its source question
+ */
+export function evaluateCondition(condition: VisibilityCondition, answer: AnswerValue | undefined): boolean {
+  const selected = answerList(answer).map(normalize);
+  const value = normalize(condition.value || '');
+  const values = (condition.values || []).map(normalize);
+
+  switch (condition.operator) {
+    case 'equals':
+      return selected.includes(value);
+    case 'not_equals':
+      return !selected.includes(value);
+    case 'contains':
+      return value !== '' && selected.some(item => item.includes(value));
+    case 'any_of':
+      return values.some(item => selected.includes(item));
+    case 'all_of':
+      return values.length > 0 && values.every(item => selected.includes(item));
+    case 'is_answered':
+      return selected.length > 0;
+    case 'is_not_answered':
+      return selected.length === 0;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Work out which questions are visible for the current answers
+ * Questions are evaluated in form order, and a condition only sees the answer of a
+ * question that comes earlier and is itself visible - so hidden answers never leak
+ * into later rules and circular rules can't loop
+ */
+export function getVisibleQuestionIds(questions: QuestionWithRules[], responses: FormResponses): Set<string> {
+  const visible = new Set<string>();
+
+  for (const question of questions) {
+    const rules = parseVisibilityRules(question.visibilityRules);
+
+    if (!rules) {
+      visible.add(question.id);
+      continue;
+    }
+
+    const results = rules.conditions.map(condition =>
+      evaluateCondition(
+        condition,
+        visible.has(condition.questionId) ? responses[condition.questionId] : undefined
+      )
+    );
+
+    const isVisible = rules.logic === 'OR' ? results.some(Boolean) : results.every(Boolean);
+    if (isVisible) {
+      visible.add(question.id);
+    }
+  }
+
+  return visible;
+}
+
+/**
+ * Drop answers to questions that are hidden by their rules
+ */
+export function pruneHiddenAnswers(questions: QuestionWithRules[], responses: FormResponses): FormResponses {
+  const visible = getVisibleQuestionIds(questions, responses);
+
+  return Object.fromEntries(
+    Object.entries(responses).filter(([questionId]) => visible.has(questionId))
+  );
+}
+
+/**
+ * Point rule conditions at saved question IDs after a save
+ * Conditions on questions that no longer exist are removed
+ */
+export function remapVisibilityRules(raw: unknown, questionIdMap: Map<string, string>): VisibilityRules | null {
+  const rules = parseVisibilityRules(raw);
+  if (!rules) return null;
+
+  const conditions = rules.conditions
+    .filter(condition => questionIdMap.has(condition.questionId))
+    .map(condition => ({ ...condition, questionId: questionIdMap.get(condition.questionId)! }));
+
+  return conditions.length > 0 ? { ...rules, conditions } : null;
+}
@@ -0,0 +1,146 @@
+// Date, time and date-time question helpers - shared by the form pages and the submit routes
+// Answers are stored as normalized ISO 8601 strings:
+//   DATE      YYYY-MM-DD          (--MM-DD without a year)
+//   TIME      HH:mm
+//   DATETIME  YYYY-MM-DDTHH:mm    (--MM-DDTHH:mm without a year)
+import type { AnswerValue } from '@/types/form';
+
+export const DATE_TYPES = ['DATE', 'TIME', 'DATETIME'];
+
+export const isDateType = (type: string) => DATE_TYPES.includes(type);
+
+interface DateQuestion {
+  type: string;
+  dateMin?: string | null;
+  dateMax?: string | null;
+  includeYear?: boolean;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Year used to check month/day combinations when no year is collected (allows Feb 29)
+const LEAP_YEAR = 2000;
+
+function normalizeDate(raw: string, includeYear: boolean): string | null {
+  const match = includeYear
+    ? raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+    : raw.match(/^(?:--|\d{4}-)?(\d{1,2})-(\d{1,2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = includeYear
+    ? [Number(match[1]), Number(match[2]), Number(match[3])]
+    : [LEAP_YEAR, Number(match[1]), Number(match[2])];
+
+  // Reject dates that roll over, e.g. 2023-02-30
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return includeYear ? `${year}-${pad(month)}-${pad(day)}` : `--${pad(month)}-${pad(day)}`;
+}
+
+function normalizeTime(raw: string): string | null {
+  const match = raw.match(/^(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${pad(hours)}:${pad(minutes)}`;
+}
+
+/**
+ * Normalize a date / time answer to its stored ISO form
+ * @returns null when the value isn't a valid date or time for the question
+ */
+export function normalizeDateAnswer(question: DateQuestion, raw: string): string | null {
+  const value = raw.trim();
+  const includeYear = question.includeYear !== false;
+
+  switch (question.type) {
+    case 'DATE':
+      return normalizeDate(value, includeYear);
+    case 'TIME':
+      return normalizeTime(value);
+    case 'DATETIME': {
+      const [datePart, timePart] = value.split(/[T ]/);
+      if (!datePart || !timePart) return null;
+
+      const date = normalizeDate(datePart, includeYear);
+      const time = normalizeTime(timePart);
+      return date && time ? `${date}T${time}` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Bounds are stored with a year - drop it when the question doesn't collect one
+const comparable = (value: string, includeYear: boolean) =>
+  includeYear ? value : value.replace(/^(\d{4}|-)-/, '-');
+
+/**
+ * Check a submitted date / time answer against its format and the question's bounds
+ * @returns an error message, or null when the answer is empty or valid
+ */
+export function validateDateAnswer(question: DateQuestion, answer: AnswerValue | undefined): string | null {
+  if (answer === undefined || answer === '') return null;
+  if (typeof answer !== 'string') return 'Please enter a valid value';
+
+  const value = normalizeDateAnswer(question, answer);
+  if (!value) {
+    return question.type === 'TIME' ? 'Please enter a valid time' : 'Please enter a valid date';
+  }
+
+  const includeYear = question.includeYear !== false;
+  const min = question.dateMin ? normalizeDateAnswer({ ...question, includeYear: true }, question.dateMin) : null;
+  const max = question.dateMax ? normalizeDateAnswer({ ...question, includeYear: true }, question.dateMax) : null;
+
+  if (min && comparable(value, includeYear) < comparable(min, includeYear)) {
+    return `Please enter a value on or after ${formatDateAnswer(question, min)}`;
+  }
+  if (max && comparable(value, includeYear) > comparable(max, includeYear)) {
+    return `Please enter a value on or before ${formatDateAnswer(question, max)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Display format used in the responses tab - e.g. "Mar 5, 2024", "2:30 PM", "Mar 5, 2024, 2:30 PM"
+ * Falls back to the raw value if it isn't a stored ISO value
+ */
+export function formatDateAnswer(question: DateQuestion, value: string): string {
+  const formatDate = (date: string) => {
+    const match = date.match(/^(?:(\d{4})|-)-(\d{2})-(\d{2})$/);
+    if (!match) return null;
+    const monthDay = `${MONTHS[Number(match[2]) - 1]} ${Number(match[3])}`;
+    return match[1] ? `${monthDay}, ${match[1]}` : monthDay;
+  };
+
+  const formatTime = (time: string) => {
+    const match = time.match(/^(\d{2}):(\d{2})$/);
+    if (!match) return null;
+    const hours = Number(match[1]);
+    return `${hours % 12 || 12}:${match[2]} ${hours < 12 ? 'AM' : 'PM'}`;
+  };
+
+  switch (question.type) {
+    case 'DATE':
+      return formatDate(value) ?? value;
+    case 'TIME':
+      return formatTime(value) ?? value;
+    case 'DATETIME': {
+      const [datePart, timePart] = value.split('T');
+      const date = formatDate(datePart || '');
+      const time = formatTime(timePart || '');
+      return date && time ? `${date}, ${time}` : value;
+    }
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,123 @@
+// File upload question helpers - shared by the form pages, the upload route and the submit routes
+import type { AnswerValue } from '@/types/form';
+
+export const MAX_FILES_VALUES = [1, 5, 10];
+export const MAX_FILE_SIZE_VALUES = [1, 10, 100]; // MB
+
+// Largest upload request accepted - the biggest file size limit plus room for the multipart fields
+export const MAX_UPLOAD_REQUEST_SIZE = (Math.max(...MAX_FILE_SIZE_VALUES) + 1) * 1024 * 1024;
+
+export const DEFAULT_MAX_FILES = 1;
+export const DEFAULT_MAX_FILE_SIZE = 10; // MB
+
+// File type choices offered to form owners - a question allows any type when none are picked
+export const FILE_TYPE_GROUPS = [
+  {
+    label: 'Document',
+    types: [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/plain'
+    ]
+  },
+  {
+    label: 'Spreadsheet',
+    types: [
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'text/csv'
+    ]
+  },
+  {
+    label: 'Presentation',
+    types: [
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+    ]
+  },
+  { label: 'Image', types: ['image/*'] },
+  { label: 'Video', types: ['video/*'] },
+  { label: 'Audio', types: ['audio/*'] }
+];
+
+interface FileQuestion {
+  allowedFileTypes?: string[];
+  maxFiles?: number | null;
+  maxFileSize?: number | null;
+}
+
+// Metadata returned by the upload route and shown next to an answer
+export interface UploadedFileInfo {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Files per answer and per-file size limit (MB), falling back to the defaults
+ */
+export function getFileLimits(question: FileQuestion) {
+  return {
+    maxFiles: question.maxFiles && question.maxFiles > 0 ? question.maxFiles : DEFAULT_MAX_FILES,
+    maxFileSize: question.maxFileSize && question.maxFileSize > 0 ? question.maxFileSize : DEFAULT_MAX_FILE_SIZE
+  };
+}
+
+/**
+ * Check a MIME type against the allowed list - entries can be exact types or wildcards like "image/*"
+ */
+export function isFileTypeAllowed(allowedFileTypes: string[] = [], mimeType: string): boolean {
+  if (allowedFileTypes.length === 0) return true;
+
+  const type = mimeType.toLowerCase();
+  return allowedFileTypes.some(allowed =>
+    allowed.endsWith('/*')
+      ? type.startsWith(allowed.slice(0, -1).toLowerCase())
+      : type === allowed.toLowerCase()
+  );
+}
+
+/**
+ * Check a single file before it's stored
+ * @returns an error message, or null when the file can be uploaded
+ */
+export function validateUpload(question: FileQuestion, file: { name: string; type: string; size: number }): string | null {
+  const { maxFileSize } = getFileLimits(question);
+
+  if (!isFileTypeAllowed(question.allowedFileTypes, file.type || 'application/octet-stream')) {
+    return `"${file.name}" is not an allowed file type`;
+  }
+  if (file.size > maxFileSize * 1024 * 1024) {
+    return `"${file.name}" is larger than ${maxFileSize} MB`;
+  }
+  if (file.size === 0) {
+    return `"${file.name}" is empty`;
+  }
+
+  return null;
+}
+
+/**
+ * File IDs in an answer - anything other than a list of strings is ignored
+ */
+export function parseFileIds(answer: AnswerValue | undefined): string[] {
+  if (!Array.isArray(answer)) return [];
+  return [...new Set(answer.filter(id => typeof id === 'string' && id.trim() !== ''))];
+}
+
+/**
+ * Human-readable size, e.g. "512 B", "1.5 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Value for the file input's accept attribute
+ */
+export const getAcceptAttribute = (allowedFileTypes: string[] = []) =>
+  allowedFileTypes.length > 0 ? allowedFileTypes.join(',') : undefined;
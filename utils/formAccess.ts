@@ -0,0 +1,58 @@
+// Who may respond to a form - shared by the settings pages and the form routes
+// Allowlist entries are either a domain ("example.com") or a full address ("jane@example.com")
+
+interface AccessSettings {
+  requireSignIn?: boolean;
+  allowMultipleResponses?: boolean;
+  oneResponsePerAccount?: boolean;
+  allowedRespondents?: string[];
+}
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/;
+
+/**
+ * Clean up a single allowlist entry - "@Example.com" becomes "example.com"
+ * @returns null when the entry is neither a domain nor an email address
+ */
+export function normalizeAllowlistEntry(entry: string): string | null {
+  const value = entry.trim().toLowerCase().replace(/^@/, '');
+  if (!value) return null;
+
+  const [localPart, domain, ...rest] = value.split('@');
+  if (domain === undefined) return DOMAIN_PATTERN.test(value) ? value : null;
+  return localPart && rest.length === 0 && DOMAIN_PATTERN.test(domain) ? value : null;
+}
+
+/**
+ * Normalized, de-duplicated allowlist - invalid entries are dropped
+ */
+export function parseAllowlist(entries: unknown): string[] {
+  if (!Array.isArray(entries)) return [];
+
+  const normalized = entries
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map(normalizeAllowlistEntry)
+    .filter((entry): entry is string => entry !== null);
+  return [...new Set(normalized)];
+}
+
+/**
+ * Whether respondents must be signed in - also the case for forms limited to one response per account
+ */
+export const requiresSignIn = (form: AccessSettings) =>
+  form.requireSignIn === true || (form.allowMultipleResponses === false && form.oneResponsePerAccount === true);
+
+/**
+ * Check a respondent's email addresses against the form's allowlist
+ * The allowlist only applies with requireSignIn on - an empty one lets every signed-in respondent in
+ */
+export function isEmailAllowed(form: AccessSettings, emails: string[]): boolean {
+  const allowlist = form.requireSignIn ? parseAllowlist(form.allowedRespondents) : [];
+  if (allowlist.length === 0) return true;
+
+  return emails.some(email => {
+    const address = email.trim().toLowerCase();
+    const domain = address.split('@')[1];
+    return allowlist.includes(address) || (domain !== undefined && allowlist.includes(domain));
+  });
+}
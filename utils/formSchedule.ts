@@ -0,0 +1,86 @@
+// Scheduled open / close times - shared by the form pages, the dashboard and the form routes
+// A form accepts responses while acceptingResponses is on, the current time is within opensAt..closesAt
+// and it hasn't reached its response limit
+import { isFormFull } from '@/utils/responseLimit';
+
+export type ResponseStatus = 'scheduled' | 'open' | 'closed' | 'full';
+
+interface ScheduledForm {
+  acceptingResponses: boolean;
+  opensAt?: Date | string | null;
+  closesAt?: Date | string | null;
+  maxResponses?: number | null;
+  responseCount?: number;
+}
+
+const toTime = (value: Date | string | null | undefined) => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Whether a form is waiting to open, open, closed (by the toggle or its close time) or full
+ */
+export function getResponseStatus(form: ScheduledForm, now: Date = new Date()): ResponseStatus {
+  if (!form.acceptingResponses) return 'closed';
+
+  const opensAt = toTime(form.opensAt);
+  const closesAt = toTime(form.closesAt);
+  if (closesAt !== null && now.getTime() >= closesAt) return 'closed';
+  if (opensAt !== null && now.getTime() < opensAt) return 'scheduled';
+  if (isFormFull(form)) return 'full';
+  return 'open';
+}
+
+/**
+ * Read a schedule time from saved settings
+ * @returns null for empty or invalid values
+ */
+export function parseScheduleDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && !(value instanceof Date)) return null;
+  const time = toTime(value);
+  return time === null ? null : new Date(time);
+}
+
+/**
+ * Schedule time as shown to people, e.g. "Mar 5, 2026, 9:00 AM"
+ */
+export const formatScheduleDate = (value: Date | string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * ISO time to a datetime-local input value in the browser's timezone
+ */
+export function toLocalInputValue(value: string | null | undefined): string {
+  const time = toTime(value);
+  if (time === null) return '';
+
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * datetime-local input value to an ISO time - '' when cleared
+ */
+export function fromLocalInputValue(value: string): string {
+  const time = toTime(value);
+  return time === null ? '' : new Date(time).toISOString();
+}
+
+/**
+ * Read the custom closed message (rich text HTML) from saved settings
+ * @returns null when the editor was left empty, so the default message is shown
+ */
+export function parseClosedMessage(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  return value.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim() === '' ? null : value;
+}
@@ -0,0 +1,82 @@
+// Multiple-choice grid / checkbox grid helpers - shared by the form pages and the submit routes
+import type { AnswerValue, GridAnswer } from '@/types/form';
+
+export const GRID_TYPES = ['MC_GRID', 'CHECKBOX_GRID'];
+
+export const isGridType = (type: string) => GRID_TYPES.includes(type);
+
+interface GridQuestion {
+  type: string;
+  gridRows?: string[];
+  gridColumns?: string[];
+  requireEachRow?: boolean;
+}
+
+/**
+ * Read a grid answer, keeping only known rows and columns
+ * MC_GRID keeps at most one column per row; unanswered rows are dropped
+ */
+export function parseGridAnswer(question: GridQuestion, answer: AnswerValue | undefined): GridAnswer {
+  if (!answer || typeof answer !== 'object' || Array.isArray(answer)) return {};
+
+  const rows = question.gridRows || [];
+  const columns = question.gridColumns || [];
+  const grid: GridAnswer = {};
+
+  for (const row of rows) {
+    const selected = answer[row];
+    if (!Array.isArray(selected)) continue;
+
+    const validColumns = columns.filter(column => selected.includes(column));
+    const kept = question.type === 'MC_GRID' ? validColumns.slice(0, 1) : validColumns;
+    if (kept.length > 0) grid[row] = kept;
+  }
+
+  return grid;
+}
+
+/**
+ * Rows still missing a response
+ * Only required questions need rows answered - every row with requireEachRow, otherwise at least one
+ */
+export function getMissingGridRows(question: GridQuestion & { required: boolean }, answer: AnswerValue | undefined): string[] {
+  if (!question.required) return [];
+
+  const rows = question.gridRows || [];
+  const grid = parseGridAnswer(question, answer);
+  const answeredRows = rows.filter(row => grid[row]);
+
+  if (question.requireEachRow) {
+    return rows.filter(row => !grid[row]);
+  }
+  return answeredRows.length > 0 ? [] : rows;
+}
+
+/**
+ * Toggle a cell in a grid answer
+ * Selecting a column in an MC_GRID row replaces that row's previous choice
+ */
+export function toggleGridCell(type: string, answer: AnswerValue | undefined, row: string, column: string): GridAnswer {
+  const grid: GridAnswer = answer && typeof answer === 'object' && !Array.isArray(answer) ? { ...answer } : {};
+  const current = grid[row] || [];
+
+  if (type === 'MC_GRID') {
+    grid[row] = [column];
+  } else if (current.includes(column)) {
+    grid[row] = current.filter(selected => selected !== column);
+  } else {
+    grid[row] = [...current, column];
+  }
+
+  if (grid[row].length === 0) delete grid[row];
+  return grid;
+}
+
+/**
+ * One line per answered row, e.g. "Speed: Good"
+ */
+export function formatGridAnswer(grid: GridAnswer, rows: string[] = Object.keys(grid)): string[] {
+  return rows
+    .filter(row => grid[row]?.length)
+    .map(row => `${row}: ${grid[row].join(', ')}`);
+}
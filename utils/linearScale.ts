@@ -0,0 +1,49 @@
+// Linear scale settings and answer checks - shared by the editor, the form pages and the submit routes
+import type { AnswerValue } from '@/types/form';
+
+export const SCALE_MIN_VALUES = [0, 1];
+export const SCALE_MAX_VALUES = [2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+export const DEFAULT_SCALE_MIN = 1;
+export const DEFAULT_SCALE_MAX = 5;
+
+interface ScaleQuestion {
+  scaleMin?: number | null;
+  scaleMax?: number | null;
+}
+
+/**
+ * Scale bounds for a question, falling back to 1-5 when unset or out of range
+ */
+export function getScaleBounds(question: ScaleQuestion): { min: number; max: number } {
+  const min = SCALE_MIN_VALUES.includes(question.scaleMin ?? -1) ? question.scaleMin! : DEFAULT_SCALE_MIN;
+  const max = SCALE_MAX_VALUES.includes(question.scaleMax ?? -1) ? question.scaleMax! : DEFAULT_SCALE_MAX;
+  return { min, max };
+}
+
+/**
+ * Every value a respondent can pick, lowest first
+ */
+export function getScaleValues(question: ScaleQuestion): number[] {
+  const { min, max } = getScaleBounds(question);
+  return Array.from({ length: max - min + 1 }, (_, i) => min + i);
+}
+
+/**
+ * Check a submitted scale answer
+ * @returns an error message, or null when the answer is empty or valid
+ */
+export function validateScaleAnswer(question: ScaleQuestion, answer: AnswerValue | undefined): string | null {
+  if (answer === undefined || answer === '') return null;
+  if (typeof answer !== 'string' || !/^\d+$/.test(answer.trim())) {
+    return 'Please choose a value on the scale';
+  }
+
+  const { min, max } = getScaleBounds(question);
+  const value = parseInt(answer, 10);
+  if (value < min || value > max) {
+    return `Please choose a value between ${min} and ${max}`;
+  }
+
+  return null;
+}
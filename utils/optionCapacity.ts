@@ -0,0 +1,23 @@
+// Per-option capacity ("Tuesday 10am - 12 seats") - shared by the form pages and the submit routes
+
+// Question types where each respondent takes at most one seat
+export const CAPACITY_TYPES = ['MULTIPLE_CHOICE', 'DROPDOWN'];
+
+/**
+ * Read an option capacity from the editor
+ * @returns null (unlimited) for empty or negative values
+ */
+export function parseCapacity(value: unknown): number | null {
+  const capacity = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof capacity !== 'number' || !Number.isFinite(capacity) || capacity < 0) return null;
+  return Math.floor(capacity);
+}
+
+/**
+ * "3 seats left" / "Full" next to an option - null for unlimited options
+ */
+export function describeRemaining(remaining: number | null | undefined): string | null {
+  if (remaining === null || remaining === undefined) return null;
+  if (remaining <= 0) return 'Full';
+  return `${remaining} seat${remaining === 1 ? '' : 's'} left`;
+}
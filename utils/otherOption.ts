@@ -0,0 +1,80 @@
+// "Other" choice for multiple choice and checkbox questions - shared by the form pages and the submit routes
+// While answering, an "Other" pick is kept alongside the regular choices as OTHER_PREFIX + typed text,
+// e.g. "__other__:Blue" or ["Red", "__other__:Blue"]. It is stored separately as Answer.otherText
+import type { AnswerValue } from '@/types/form';
+
+export const OTHER_PREFIX = '__other__:';
+
+export const OTHER_TYPES = ['MULTIPLE_CHOICE', 'CHECKBOXES'];
+
+export const isOtherValue = (value: string) => value.startsWith(OTHER_PREFIX);
+
+export const toOtherValue = (text: string) => `${OTHER_PREFIX}${text}`;
+
+interface OtherQuestion {
+  type: string;
+  hasOtherOption?: boolean;
+}
+
+/**
+ * The "Other" entry in an answer, if one is picked
+ * @returns the typed text ('' when picked but not filled in), or null when "Other" isn't picked
+ */
+export function getOtherValue(answer: AnswerValue | undefined): string | null {
+  const values = typeof answer === 'string' ? [answer] : Array.isArray(answer) ? answer : [];
+  const other = values.find(isOtherValue);
+  return other === undefined ? null : other.slice(OTHER_PREFIX.length);
+}
+
+/**
+ * Replace (or add) the "Other" entry in an answer
+ * Pass null to remove it
+ */
+export function setOtherValue(answer: AnswerValue | undefined, type: string, text: string | null): AnswerValue {
+  if (type === 'CHECKBOXES') {
+    const values = (Array.isArray(answer) ? answer : []).filter(value => !isOtherValue(value));
+    return text === null ? values : [...values, toOtherValue(text)];
+  }
+  return text === null ? '' : toOtherValue(text);
+}
+
+/**
+ * Split an answer into its regular choices and the "Other" text
+ * "Other" is dropped when the question doesn't offer it or nothing was typed
+ */
+export function splitOtherAnswer(question: OtherQuestion, answer: AnswerValue | undefined) {
+  const otherText = getOtherValue(answer)?.trim() || null;
+  const allowed = question.hasOtherOption === true && OTHER_TYPES.includes(question.type);
+
+  let choices = answer;
+  if (typeof answer === 'string' && isOtherValue(answer)) {
+    choices = '';
+  } else if (Array.isArray(answer)) {
+    choices = answer.filter(value => !isOtherValue(value));
+  }
+
+  return { choices, otherText: allowed ? otherText : null };
+}
+
+/**
+ * Answer with an empty or disallowed "Other" removed - used before required checks
+ */
+export function cleanOtherAnswer(question: OtherQuestion, answer: AnswerValue | undefined): AnswerValue | undefined {
+  if (answer === undefined || getOtherValue(answer) === null) return answer;
+
+  const { choices, otherText } = splitOtherAnswer(question, answer);
+  return otherText === null ? choices : setOtherValue(choices, question.type, otherText);
+}
+
+/**
+ * Display text for a single choice - "Other" picks read "Other: <text>"
+ */
+export const formatChoice = (value: string) =>
+  isOtherValue(value) ? `Other: ${value.slice(OTHER_PREFIX.length)}` : value;
+
+/**
+ * Rebuild an answer from stored choices and "Other" text - used when loading a response for editing
+ */
+export function joinOtherAnswer(type: string, choices: AnswerValue | undefined, otherText: string | null | undefined) {
+  return otherText ? setOtherValue(choices, type, otherText) : choices;
+}
@@ -0,0 +1,21 @@
+// Response limits ("this form is full") - shared by the form pages and the submit routes
+
+export const DEFAULT_FULL_MESSAGE = 'This form is full and no longer accepting responses.';
+
+interface LimitedForm {
+  maxResponses?: number | null;
+  responseCount?: number;
+}
+
+export const isFormFull = ({ maxResponses, responseCount = 0 }: LimitedForm) =>
+  typeof maxResponses === 'number' && responseCount >= maxResponses;
+
+/**
+ * Read a response limit from saved settings
+ * @returns null (no limit) for empty or non-positive values
+ */
+export function parseMaxResponses(value: unknown): number | null {
+  const limit = typeof value === 'string' ? Number(value) : value;
+  if (typeof limit !== 'number' || !Number.isFinite(limit) || limit < 1) return null;
+  return Math.floor(limit);
+}
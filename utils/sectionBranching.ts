@@ -0,0 +1,112 @@
+// Section branching ("go to section based on answer") - shared by the view page and the submit route
+import type { FormResponses } from '@/types/form';
+import { getVisibleQuestionIds, pruneHiddenAnswers } from '@/utils/conditionalLogic';
+
+// Branch target that ends the form instead of going to another section
+export const SUBMIT_SECTION = 'SUBMIT';
+
+interface BranchingSection {
+  id: string;
+  order: number;
+  nextSection?: string | null;
+  questions: {
+    id: string;
+    type: string;
+    visibilityRules?: unknown;
+    options: { text: string; goToSection?: string | null }[];
+  }[];
+}
+
+/**
+ * Sections in display order
+ */
+export function sortSections<T extends { order: number }>(sections: T[]): T[] {
+  return [...sections].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Work out where a respondent goes after a section
+ * An answered multiple choice / dropdown option with a target wins (the last one in the
+ * section if several), then the section's own "after this section" setting, then the next section
+ * @returns the next section ID, or null when the form should be submitted
+ */
+export function getNextSectionId(sections: BranchingSection[], sectionId: string, responses: FormResponses): string | null {
+  const ordered = sortSections(sections);
+  const index = ordered.findIndex(section => section.id === sectionId);
+  if (index === -1) return null;
+
+  const section = ordered[index];
+  let target: string | null = null;
+
+  for (const question of section.questions) {
+    if (question.type !== 'MULTIPLE_CHOICE' && question.type !== 'DROPDOWN') continue;
+
+    const answer = responses[question.id];
+    if (typeof answer !== 'string' || answer === '') continue;
+
+    const option = question.options.find(opt => opt.text === answer);
+    if (option?.goToSection) {
+      target = option.goToSection;
+    }
+  }
+
+  if (!target && section.nextSection) {
+    target = section.nextSection;
+  }
+
+  if (target === SUBMIT_SECTION) return null;
+  if (target && ordered.some(s => s.id === target)) return target;
+
+  return ordered[index + 1]?.id ?? null;
+}
+
+/**
+ * Follow the branches from a section until the form is submitted
+ * A section is never visited twice, so branches that loop back just end the path
+ * @param startSectionId - defaults to the first section
+ */
+export function getSectionPath(sections: BranchingSection[], responses: FormResponses, startSectionId?: string): string[] {
+  const ordered = sortSections(sections);
+  const path: string[] = [];
+  let current: string | null = startSectionId ?? ordered[0]?.id ?? null;
+
+  while (current && !path.includes(current)) {
+    path.push(current);
+    current = getNextSectionId(ordered, current, responses);
+  }
+
+  return path;
+}
+
+/**
+ * Questions the respondent actually saw - visible questions in the sections on their branch path
+ * @returns those questions in form order, and the responses with every other answer discarded
+ */
+export function getActiveQuestions<S extends BranchingSection>(
+  sections: S[],
+  responses: FormResponses
+): { questions: S['questions'][number][]; responses: FormResponses } {
+  const ordered = sortSections(sections);
+  const allQuestions = ordered.flatMap(section => section.questions);
+
+  // Branches only follow answers to visible questions
+  const visibleResponses = pruneHiddenAnswers(allQuestions, responses);
+  const path = getSectionPath(ordered, visibleResponses);
+
+  const visitedQuestions = ordered
+    .filter(section => path.includes(section.id))
+    .flatMap(section => section.questions);
+  const visitedIds = new Set(visitedQuestions.map(question => question.id));
+
+  // Re-check visibility without answers from skipped sections
+  const visitedResponses = pruneHiddenAnswers(
+    visitedQuestions,
+    Object.fromEntries(Object.entries(visibleResponses).filter(([questionId]) => visitedIds.has(questionId)))
+  );
+  const visibleIds = getVisibleQuestionIds(visitedQuestions, visitedResponses);
+
+  return {
+    questions: visitedQuestions.filter(question => visibleIds.has(question.id)),
+    responses: visitedResponses
+  };
+}
@@ -0,0 +1,51 @@
+// Checkbox selection count limits - shared by the form pages and the submit routes
+import type { AnswerValue } from '@/types/form';
+
+interface SelectionQuestion {
+  minSelections?: number | null;
+  maxSelections?: number | null;
+}
+
+const toLimit = (value: number | null | undefined) =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null;
+
+/**
+ * Minimum and maximum number of checkboxes to select - null when unlimited
+ * A maximum below the minimum is raised to the minimum
+ */
+export function getSelectionLimits(question: SelectionQuestion) {
+  const min = toLimit(question.minSelections);
+  const max = toLimit(question.maxSelections);
+  return { min, max: min !== null && max !== null && max < min ? min : max };
+}
+
+/**
+ * Constraint shown to respondents, e.g. "Select at least 2", "Select 1-3", "Select exactly 2"
+ * @returns null when the question has no limits
+ */
+export function describeSelectionLimits(question: SelectionQuestion): string | null {
+  const { min, max } = getSelectionLimits(question);
+
+  if (min !== null && max !== null) {
+    return min === max ? `Select exactly ${min}` : `Select ${min}-${max}`;
+  }
+  if (min !== null) return `Select at least ${min}`;
+  if (max !== null) return `Select at most ${max}`;
+  return null;
+}
+
+/**
+ * Check the number of selected checkboxes against the question's limits
+ * @returns an error message, or null when nothing is selected or the count is within range
+ */
+export function validateSelectionCount(question: SelectionQuestion, answer: AnswerValue | undefined): string | null {
+  const count = Array.isArray(answer) ? answer.length : 0;
+  if (count === 0) return null;
+
+  const { min, max } = getSelectionLimits(question);
+  if ((min !== null && count < min) || (max !== null && count > max)) {
+    return describeSelectionLimits(question);
+  }
+
+  return null;
+}
@@ -0,0 +1,202 @@
+// Response validation for short answer / paragraph questions - shared by the form pages and the submit routes
+import { RE2JS } from 're2js';
+import type {
+  AnswerValue,
+  TextValidation,
+  TextValidationOperator,
+  TextValidationType
+} from '@/types/form';
+
+export const TEXT_VALIDATION_TYPES: { value: TextValidationType; label: string }[] = [
+  { value: 'number', label: 'Number' },
+  { value: 'text', label: 'Text' },
+  { value: 'length', label: 'Length' },
+  { value: 'regex', label: 'Regular expression' }
+];
+
+export const TEXT_VALIDATION_OPERATORS: {
+  type: TextValidationType;
+  value: TextValidationOperator;
+  label: string;
+  input: 'none' | 'single' | 'range';
+}[] = [
+  { type: 'number', value: 'is_number', label: 'Is number', input: 'none' },
+  { type: 'number', value: 'between', label: 'Between', input: 'range' },
+  { type: 'number', value: 'not_between', label: 'Not between', input: 'range' },
+  { type: 'number', value: 'greater_than', label: 'Greater than', input: 'single' },
+  { type: 'number', value: 'greater_than_or_equal', label: 'Greater than or equal to', input: 'single' },
+  { type: 'number', value: 'less_than', label: 'Less than', input: 'single' },
+  { type: 'number', value: 'less_than_or_equal', label: 'Less than or equal to', input: 'single' },
+  { type: 'text', value: 'contains', label: 'Contains', input: 'single' },
+  { type: 'text', value: 'not_contains', label: "Doesn't contain", input: 'single' },
+  { type: 'text', value: 'email', label: 'Email', input: 'none' },
+  { type: 'text', value: 'url', label: 'URL', input: 'none' },
+  { type: 'length', value: 'min_length', label: 'Minimum character count', input: 'single' },
+  { type: 'length', value: 'max_length', label: 'Maximum character count', input: 'single' },
+  { type: 'regex', value: 'matches', label: 'Matches', input: 'single' },
+  { type: 'regex', value: 'not_matches', label: "Doesn't match", input: 'single' }
+];
+
+// Paragraphs only get length and pattern checks
+export const getValidationTypes = (questionType: string) =>
+  TEXT_VALIDATION_TYPES.filter(type =>
+    questionType === 'SHORT_ANSWER' ||
+    (questionType === 'PARAGRAPH' && (type.value === 'length' || type.value === 'regex'))
+  );
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const toNumber = (value: string | undefined) =>
+  value !== undefined && value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : null;
+
+const toLength = (value: string | undefined) => {
+  const length = toNumber(value);
+  return length !== null && Number.isInteger(length) && length >= 0 ? length : null;
+};
+
+// Longest pattern a rule can have, in characters
+export const MAX_PATTERN_LENGTH = 500;
+
+// Patterns must match the whole answer. They're owner-supplied and run on the server, so they're
+// compiled with RE2, which matches in linear time - backreferences and lookarounds aren't supported
+const toPattern = (value: string | undefined) => {
+  if (!value || value.length > MAX_PATTERN_LENGTH) return null;
+  try {
+    return RE2JS.compile(value);
+  } catch {
+    return null;
+  }
+};
+
+const isUrl = (value: string) => {
+  try {
+    const url = new URL(value.includes('://') ? value : `https://${value}`);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.');
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Read a validation rule from a stored JSON value
+ * Returns null for rules that don't apply to the question type or are missing their values
+ */
+export function parseTextValidation(raw: unknown, questionType: string): TextValidation | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const { type, operator, value, value2, message } = raw as Partial<TextValidation>;
+  const operatorInfo = TEXT_VALIDATION_OPERATORS.find(op => op.value === operator && op.type === type);
+  if (!operatorInfo || !getValidationTypes(questionType).some(t => t.value === type)) return null;
+
+  const rule: TextValidation = {
+    type: operatorInfo.type,
+    operator: operatorInfo.value,
+    ...(typeof message === 'string' && message.trim() !== '' && { message: message.trim() })
+  };
+
+  if (operatorInfo.input === 'none') return rule;
+
+  const first = typeof value === 'string' ? value : undefined;
+  const second = typeof value2 === 'string' ? value2 : undefined;
+
+  switch (operatorInfo.type) {
+    case 'number':
+      if (toNumber(first) === null) return null;
+      if (operatorInfo.input === 'range' && toNumber(second) === null) return null;
+      break;
+    case 'length':
+      if (toLength(first) === null) return null;
+      break;
+    case 'regex':
+      if (!toPattern(first)) return null;
+      break;
+    case 'text':
+      if (!first) return null;
+      break;
+  }
+
+  return {
+    ...rule,
+    value: first,
+    ...(operatorInfo.input === 'range' && { value2: second })
+  };
+}
+
+function passes(rule: TextValidation, answer: string): boolean {
+  const number = toNumber(answer);
+  const a = toNumber(rule.value) ?? 0;
+  const b = toNumber(rule.value2) ?? 0;
+  const [low, high] = a <= b ? [a, b] : [b, a];
+
+  switch (rule.operator) {
+    case 'is_number':
+      return number !== null;
+    case 'between':
+      return number !== null && number >= low && number <= high;
+    case 'not_between':
+      return number !== null && (number < low || number > high);
+    case 'greater_than':
+      return number !== null && number > a;
+    case 'greater_than_or_equal':
+      return number !== null && number >= a;
+    case 'less_than':
+      return number !== null && number < a;
+    case 'less_than_or_equal':
+      return number !== null && number <= a;
+    case 'contains':
+      return answer.includes(rule.value || '');
+    case 'not_contains':
+      return !answer.includes(rule.value || '');
+    case 'email':
+      return EMAIL_PATTERN.test(answer.trim());
+    case 'url':
+      return isUrl(answer.trim());
+    case 'min_length':
+      return answer.length >= (toLength(rule.value) ?? 0);
+    case 'max_length':
+      return answer.length <= (toLength(rule.value) ?? Infinity);
+    case 'matches':
+      return toPattern(rule.value)?.matches(answer) ?? true;
+    case 'not_matches':
+      return !(toPattern(rule.value)?.matches(answer) ?? false);
+    default:
+      return true;
+  }
+}
+
+function defaultMessage(rule: TextValidation): string {
+  switch (rule.operator) {
+    case 'is_number': return 'Must be a number';
+    case 'between': return `Must be a number between ${rule.value} and ${rule.value2}`;
+    case 'not_between': return `Must be a number that is not between ${rule.value} and ${rule.value2}`;
+    case 'greater_than': return `Must be a number greater than ${rule.value}`;
+    case 'greater_than_or_equal': return `Must be a number greater than or equal to ${rule.value}`;
+    case 'less_than': return `Must be a number less than ${rule.value}`;
+    case 'less_than_or_equal': return `Must be a number less than or equal to ${rule.value}`;
+    case 'contains': return `Must contain "${rule.value}"`;
+    case 'not_contains': return `Must not contain "${rule.value}"`;
+    case 'email': return 'Must be a valid email address';
+    case 'url': return 'Must be a valid URL';
+    case 'min_length': return `Must be at least ${rule.value} characters`;
+    case 'max_length': return `Must be at most ${rule.value} characters`;
+    case 'matches': return 'Must match the required pattern';
+    case 'not_matches': return 'Must not match the pattern';
+    default: return 'Invalid answer';
+  }
+}
+
+/**
+ * Check a text answer against the question's validation rule
+ * @returns the custom or default error message, or null when the answer is empty or valid
+ */
+export function validateTextAnswer(
+  question: { type: string; textValidation?: unknown },
+  answer: AnswerValue | undefined
+): string | null {
+  if (typeof answer !== 'string' || answer.trim() === '') return null;
+
+  const rule = parseTextValidation(question.textValidation, question.type);
+  if (!rule || passes(rule, answer)) return null;
+
+  return rule.message || defaultMessage(rule);
+}